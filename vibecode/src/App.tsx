@@ -3,24 +3,46 @@ import { Canvas, useThree, useFrame } from '@react-three/fiber'
 import { Stars, useTexture } from '@react-three/drei'
 import { Leva, useControls, button, folder } from 'leva'
 import { ChunkManager } from './components/ChunkManager'
+import { PlanetManager } from './components/PlanetManager'
 import AlienAmbience from './components/AlienAmbience'
 import { generateMockBiome } from './utils/mockGenerator'
-import type { BiomeData } from './types/biome'
-import { PlayerControls } from './components/PlayerControls'
-import { Group } from 'three'
+import type { BiomeData, MaterialZone, NoiseLayerType, TerrainLayer, WorldShape } from './types/biome'
+import { PlayerControls, type MovementMode } from './components/PlayerControls'
+import { Underwater } from './components/Underwater'
+import { LIQUID_PROPERTIES, resolveLiquid } from './utils/liquid'
 import * as THREE from 'three'
-import { generateRandomParameters, generateBiomeDescription, generateBiomeData, generateBiomeTexture, generateSkyboxTexture } from './services/ai'
+import { generateRandomParameters, generateBiomeDescription, generateBiomeData, generateBiomeTexture, generateSkyboxTexture, generateZoneTextures, generateBiomePatch, type BiomeEdit } from './services/ai'
 import { Weather } from './components/Weather'
 import { GalaxyGallery } from './components/GalaxyGallery'
-import { saveBiomeToGallery, type SavedBiome } from './services/gallery'
-import { uploadTextureFromUrl, uploadAudio, uploadModelFromUrl } from './services/ThreeDStorage'
-import { getStoredV13Audio } from './services/elevenLabsV13'
+import { forkGalleryBiome, saveBiomeToGallery, type SavedBiome } from './services/gallery'
+import { exportBiomePackage, importBiomePackage } from './services/biomePackage'
+import { isStoredAsset, uploadTextureFromUrl, uploadAudio, uploadAudioFromUrl, uploadModelFromUrl, uploadThumbnail } from './services/ThreeDStorage'
+import { clearStoredV13Audio, getStoredV13Audio, storeV13Audio } from './services/elevenLabsV13'
 import { modelCache } from './components/MeshyProp'
-import { createNoise2D } from 'simplex-noise'
-import { createRandom } from './utils/terrainMath'
+import { createNoise2D, createNoise3D } from 'simplex-noise'
+import { createRandom, Heightfield } from './utils/heightfield'
+import { PlanetHeightfield } from './utils/planet'
+import { CHUNK_SIZE, DEFAULT_VIEW_RADIUS, MAX_VIEW_RADIUS } from './utils/chunkGeometry'
+import { DEFAULT_EROSION } from './utils/erosion'
+import { LAYER_BLEND_MODES, NOISE_LAYER_TYPES, resolveLayer } from './utils/noiseLayers'
+import type { GroundMaterial } from './utils/groundCollision'
 import { useAuth } from './context/AuthContext'
+import { runGenerationTask, TaskCancelledError } from './services/generationTasks'
+import { GenerationDashboard } from './components/GenerationDashboard'
+import { BiomeEditor } from './components/BiomeEditor'
+import { applyBiomePatch, assetChanges } from './utils/biomePatch'
+import { captureSceneShots, type SceneShots } from './utils/sceneCapture'
 
 
+const DEFAULT_PLANET_RADIUS = 300;
+const MAX_UNDO_STEPS = 20;
+
+// A biome an edit replaced, with its cached ambience if the edit changed the music prompt
+interface EditHistoryEntry {
+  biome: BiomeData;
+  audio: string | null;
+}
+
 function Skybox({ url }: { url: string }) {
   const { scene } = useThree();
   const texture = useTexture(url);
@@ -39,18 +61,39 @@ function Skybox({ url }: { url: string }) {
   return null; // The texture is applied to the scene background, no mesh needed if we assume it's a skybox
 }
 
-function DynamicFog({ biome, weatherActive }: { biome: BiomeData, weatherActive: boolean }) {
+// Hands the canvas's renderer, scene and camera to code outside it, for the gallery shots
+function SceneCapture({ captureRef, planetRadius }: { captureRef: React.RefObject<(() => Promise<SceneShots>) | null>, planetRadius?: number }) {
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    captureRef.current = () => captureSceneShots({ gl, scene, camera, planetRadius });
+    return () => {
+      captureRef.current = null;
+    };
+  }, [captureRef, gl, scene, camera, planetRadius]);
+
+  return null;
+}
+
+// Planet fog thins out over this fraction of the radius above sea level, so the globe stays clear from orbit
+const PLANET_FOG_ALTITUDE = 0.3;
+
+function DynamicFog({ biome, weatherActive, planetRadius }: { biome: BiomeData, weatherActive: boolean, planetRadius?: number }) {
   const { scene } = useThree();
   const fogDensityRef = useRef(biome.atmosphere.fogDensity);
 
-  useFrame((_, delta) => {
+  useFrame(({ camera }, delta) => {
     if (scene.fog && scene.fog instanceof THREE.FogExp2) {
       // Base fog is reduced if we have a skybox to see the sky better
       const baseMult = biome.atmosphere.skyboxUrl ? 0.3 : 0.8;
       // Weather significantly increases fog density
       const weatherMult = weatherActive ? (1.0 + biome.weather.intensity) : 1.0;
 
-      const targetDensity = biome.atmosphere.fogDensity * baseMult * weatherMult;
+      const altitudeMult = planetRadius !== undefined
+        ? THREE.MathUtils.clamp(1 - (camera.position.length() - planetRadius) / (planetRadius * PLANET_FOG_ALTITUDE), 0, 1)
+        : 1.0;
+
+      const targetDensity = biome.atmosphere.fogDensity * baseMult * weatherMult * altitudeMult;
 
       // Smooth lerp
       fogDensityRef.current = THREE.MathUtils.lerp(fogDensityRef.current, targetDensity, delta * 0.5);
@@ -61,16 +104,19 @@ function DynamicFog({ biome, weatherActive }: { biome: BiomeData, weatherActive:
   return null;
 }
 
-function Scene({ biome, mode, onToggleMode, weatherActive, noise2D }: {
+function Scene({ biome, mode, onModeChange, weatherActive, heightfield, planet, viewRadius, onGroundMaterialChange }: {
   biome: BiomeData,
-  mode: 'fly' | 'walk',
-  onToggleMode: () => void,
+  mode: MovementMode,
+  onModeChange: (mode: MovementMode) => void,
   weatherActive: boolean,
-  noise2D: any
+  heightfield: Heightfield,
+  planet: PlanetHeightfield | null,
+  viewRadius: number,
+  onGroundMaterialChange: (material: GroundMaterial) => void
 }) {
-  const terrainRef = useRef<Group>(null);
   const lightRef = useRef<THREE.DirectionalLight>(null);
   const { camera } = useThree();
+  const liquid = resolveLiquid(biome);
 
   useFrame(() => {
     if (lightRef.current) {
@@ -80,8 +126,8 @@ function Scene({ biome, mode, onToggleMode, weatherActive, noise2D }: {
         camera.position.y + 60,
         camera.position.z + 20
       );
-      // Target the area in front of the camera
-      lightRef.current.target.position.set(camera.position.x, 0, camera.position.z);
+      // Target the area in front of the camera. Planets aim at the camera itself so the sun stays fixed and lights one side
+      lightRef.current.target.position.set(camera.position.x, planet ? camera.position.y : 0, camera.position.z);
       lightRef.current.target.updateMatrixWorld();
     }
   });
@@ -89,7 +135,7 @@ function Scene({ biome, mode, onToggleMode, weatherActive, noise2D }: {
   return (
     <>
       {/* Weather System */}
-      <Weather params={biome.weather} active={weatherActive} />
+      <Weather params={biome.weather} active={weatherActive} radial={!!planet} />
 
       {/* Fallback Stars if no skybox */}
       {!biome.atmosphere.skyboxUrl && (
@@ -108,7 +154,8 @@ function Scene({ biome, mode, onToggleMode, weatherActive, noise2D }: {
 
       {/* Fog - dynamic density based on weather */}
       <fogExp2 attach="fog" args={[biome.atmosphere.fogColor, biome.atmosphere.fogDensity]} />
-      <DynamicFog biome={biome} weatherActive={weatherActive} />
+      <DynamicFog biome={biome} weatherActive={weatherActive} planetRadius={planet?.radius} />
+      <Underwater liquid={liquid} waterLevel={biome.terrain.waterLevel} fogColor={biome.atmosphere.fogColor} planetRadius={planet?.radius} />
 
       <ambientLight intensity={0.5} />
       <directionalLight
@@ -122,14 +169,20 @@ function Scene({ biome, mode, onToggleMode, weatherActive, noise2D }: {
       </directionalLight>
 
       {/* Dynamic Chunks */}
-      <ChunkManager ref={terrainRef} biome={biome} noise2D={noise2D} />
+      {planet
+        ? <PlanetManager biome={biome} planet={planet} />
+        : <ChunkManager biome={biome} heightfield={heightfield} viewRadius={viewRadius} />}
 
-      {/* Unified Controls for both modes */}
+      {/* Unified Controls for all movement modes */}
       <PlayerControls
         mode={mode}
-        onToggleMode={onToggleMode}
+        onModeChange={onModeChange}
         gravityMult={biome.parameters.gravity}
-        terrainMesh={terrainRef}
+        heightfield={heightfield}
+        waterLevel={biome.terrain.waterLevel}
+        liquidDrag={LIQUID_PROPERTIES[liquid.type].drag}
+        onGroundMaterialChange={onGroundMaterialChange}
+        planet={planet}
       />
     </>
   )
@@ -137,13 +190,28 @@ function Scene({ biome, mode, onToggleMode, weatherActive, noise2D }: {
 
 function App() {
   console.log("App Rendering...");
-  const { isOwner } = useAuth();
+  const { isOwner, authorId } = useAuth();
   // Initial biome
   const [biome, setBiome] = useState<BiomeData>(() => generateMockBiome())
   const noise2D = useMemo(() => createNoise2D(createRandom(biome.terrain.seed)), [biome.id, biome.terrain.seed]);
+  const heightfield = useMemo(() => new Heightfield(biome.terrain, noise2D), [biome.terrain, noise2D]);
+  const planet = useMemo(() => biome.world?.shape === 'sphere'
+    ? new PlanetHeightfield(biome.terrain, biome.world.radius, createNoise3D(createRandom(biome.terrain.seed)))
+    : null, [biome.terrain, biome.world]);
   const [isGenerating, setIsGenerating] = useState(false);
   const isGeneratingRef = useRef(false);
   const [loadingStep, setLoadingStep] = useState("");
+  const [groundMaterial, setGroundMaterial] = useState<GroundMaterial>('land');
+  const captureShotsRef = useRef<(() => Promise<SceneShots>) | null>(null);
+
+  // Natural-language edits: the drafted one being previewed, and the biomes they replaced
+  const [editDraft, setEditDraft] = useState<BiomeEdit | null>(null);
+  const [isDraftingEdit, setIsDraftingEdit] = useState(false);
+  const [editHistory, setEditHistory] = useState<EditHistoryEntry[]>([]);
+  // Bumped by every apply and undo; rebuilds the panel and drops asset results of superseded edits
+  const [editRevision, setEditRevision] = useState(0);
+  const editRevisionRef = useRef(0);
+  const undoStack = editHistory.filter(entry => entry.biome.id === biome.id);
 
   // Weather dynamics
   const [weatherEnabled, setWeatherEnabled] = useState(true);
@@ -180,7 +248,7 @@ function App() {
 
       // 2. Description (Gemini Pro)
       setLoadingStep("Consulting Xenobiologist (Gemini 3 Pro)...");
-      const detailedDesc = await generateBiomeDescription(params);
+      const detailedDesc = await runGenerationTask('Biome description', signal => generateBiomeDescription(params, signal), handleRegenerate);
 
       // Update params with detailed info
       params.description = detailedDesc.summary;
@@ -189,12 +257,35 @@ function App() {
 
       // 3. Data (Gemini Flash)
       setLoadingStep("Simulating Terrain Physics (Gemini 3 Flash)...");
-      const newBiomeData = await generateBiomeData(detailedDesc, params);
+      const newBiomeData = await runGenerationTask('Terrain data', signal => generateBiomeData(detailedDesc, params, signal), handleRegenerate);
+
+      // The image steps can be retried from the dashboard after the biome is live; a retry
+      // patches it in place, unless another biome has replaced it since.
+      const patchBiome = (patch: (b: BiomeData) => BiomeData) => setBiome(prev => prev.id === newBiomeData.id ? patch(prev) : prev);
+      const groundPrompt = detailedDesc.ground || detailedDesc.summary;
+      const skyPrompt = detailedDesc.sky || detailedDesc.summary;
+
+      const groundTexture = (): Promise<string> => runGenerationTask('Ground texture', signal => generateBiomeTexture(groundPrompt, signal), () => {
+        groundTexture()
+          .then(textureUrl => textureUrl && patchBiome(b => ({ ...b, terrain: { ...b.terrain, textureUrl } })))
+          .catch(err => console.warn("Texture retry failed", err));
+      });
+      const zoneTextures = (zones: MaterialZone[]): Promise<MaterialZone[]> => runGenerationTask('Zone textures', signal => generateZoneTextures(zones, signal), () => {
+        // Zones that already got a texture are skipped
+        zoneTextures(zones)
+          .then(materials => patchBiome(b => ({ ...b, terrain: { ...b.terrain, materials } })))
+          .catch(err => console.warn("Zone texture retry failed", err));
+      });
+      const skyboxTexture = (): Promise<string> => runGenerationTask('Skybox', signal => generateSkyboxTexture(skyPrompt, signal), () => {
+        skyboxTexture()
+          .then(skyboxUrl => skyboxUrl && patchBiome(b => ({ ...b, atmosphere: { ...b.atmosphere, skyboxUrl } })))
+          .catch(err => console.warn("Skybox retry failed", err));
+      });
 
       // 4. Texture (Flux)
       setLoadingStep("Synthesizing Nano-Textures...");
       try {
-        const textureUrl = await generateBiomeTexture(detailedDesc.ground || detailedDesc.summary);
+        const textureUrl = await groundTexture();
         if (textureUrl) {
           newBiomeData.terrain.textureUrl = textureUrl;
         }
@@ -202,10 +293,20 @@ function App() {
         console.warn("Texture gen failed, continuing", err);
       }
 
+      if (newBiomeData.terrain.materials?.length) {
+        setLoadingStep("Sampling Surface Strata...");
+        try {
+          newBiomeData.terrain.materials = await zoneTextures(newBiomeData.terrain.materials);
+        } catch (err) {
+          // Only a cancel gets here; generateZoneTextures handles failures per zone
+          console.warn("Zone textures skipped", err);
+        }
+      }
+
       // 5. Skybox (Flux)
       setLoadingStep("Painting The Heavens...");
       try {
-        const skyUrl = await generateSkyboxTexture(detailedDesc.sky || detailedDesc.summary);
+        const skyUrl = await skyboxTexture();
         if (skyUrl) {
           newBiomeData.atmosphere.skyboxUrl = skyUrl;
         }
@@ -216,7 +317,10 @@ function App() {
       setBiome(newBiomeData);
     } catch (e) {
       console.error(e);
-      alert("Failed to generate biome. Check console and API Key.");
+      // Cancelling from the dashboard abandons the generation quietly
+      if (!(e instanceof TaskCancelledError)) {
+        alert("Failed to generate biome. Check console and API Key.");
+      }
     } finally {
       setIsGenerating(false);
       isGeneratingRef.current = false;
@@ -224,7 +328,17 @@ function App() {
     }
   };
 
-  const handleSaveCurrent = async () => {
+  // Uploads whatever assets aren't in storage yet and saves `target` to the gallery. Preview shots
+  // need `target` on screen, so callers saving a world that isn't rendered yet skip them.
+  const saveToGallery = async (target: BiomeData, withShots = true) => {
+    // Saving again adds a revision to the same gallery entry; cancelling the prompt cancels the save
+    const summary = target.galleryId ? window.prompt("Describe this revision (optional):", "") : "";
+    if (summary === null) return;
+    if (!authorId) {
+      alert("Save Failed: sign in to save to the gallery");
+      return;
+    }
+
     setIsGenerating(true);
     setLoadingStep("Archiving Planetary Data...");
     try {
@@ -235,32 +349,66 @@ function App() {
         models: []
       };
 
+      // 0. Preview shots, taken first so they show the world exactly as it is being saved
+      setLoadingStep("Photographing Surface...");
+      try {
+        const shots = withShots ? await captureShotsRef.current?.() : undefined;
+        if (shots) {
+          const biomeId = target.id || "unknown_biome";
+          const [hero, overview, orbit] = await Promise.all([
+            uploadThumbnail(shots.hero, biomeId, "hero"),
+            uploadThumbnail(shots.overview, biomeId, "overview"),
+            shots.orbit ? uploadThumbnail(shots.orbit, biomeId, "orbit") : Promise.resolve(undefined)
+          ]);
+          assets.thumbnails = orbit ? { hero, overview, orbit } : { hero, overview };
+        }
+      } catch (err) {
+        // A save without previews is still a save
+        console.warn("Preview shots failed, saving without them", err);
+      }
+
+      // Assets already in storage (loaded or forked from the gallery) are reused, not uploaded again
+
       // 1. Upload Skybox
-      if (biome.atmosphere.skyboxUrl) {
+      if (isStoredAsset(target.atmosphere.skyboxUrl)) {
+        assets.skyboxUrl = target.atmosphere.skyboxUrl;
+      } else if (target.atmosphere.skyboxUrl) {
         setLoadingStep("Uploading Sky Data...");
-        assets.skyboxUrl = await uploadTextureFromUrl(biome.atmosphere.skyboxUrl, biome.id || "unknown_biome", "skybox");
+        assets.skyboxUrl = await uploadTextureFromUrl(target.atmosphere.skyboxUrl, target.id || "unknown_biome", "skybox");
       }
 
       // 2. Upload Terrain Texture
-      if (biome.terrain.textureUrl) {
+      if (isStoredAsset(target.terrain.textureUrl)) {
+        assets.groundTextureUrl = target.terrain.textureUrl;
+      } else if (target.terrain.textureUrl) {
         setLoadingStep("Uploading Surface Scans...");
-        assets.groundTextureUrl = await uploadTextureFromUrl(biome.terrain.textureUrl, biome.id || "unknown_biome", "ground");
+        assets.groundTextureUrl = await uploadTextureFromUrl(target.terrain.textureUrl, target.id || "unknown_biome", "ground");
       }
 
       // 3. Upload Audio
-      setLoadingStep("Encoding Ambient Frequency...");
-      const audioBase64 = await getStoredV13Audio(biome.id || "unknown_biome");
-      if (audioBase64) {
-        assets.audioUrl = await uploadAudio(audioBase64, biome.id || "unknown_biome");
+      if (isStoredAsset(target.audioOverrideUrl)) {
+        assets.audioUrl = target.audioOverrideUrl;
+      } else if (target.audioOverrideUrl) {
+        // Audio that came with the world, e.g. from an imported package
+        setLoadingStep("Encoding Ambient Frequency...");
+        assets.audioUrl = await uploadAudioFromUrl(target.audioOverrideUrl, target.id || "unknown_biome");
+      } else {
+        setLoadingStep("Encoding Ambient Frequency...");
+        const audioBase64 = await getStoredV13Audio(target.id || "unknown_biome");
+        if (audioBase64) {
+          assets.audioUrl = await uploadAudio(audioBase64, target.id || "unknown_biome");
+        }
       }
 
       // 4. Upload 3D Models
       setLoadingStep("Materializing Artifacts...");
-      for (const prop of biome.props) {
-        const cachedUrl = modelCache[prop.prompt];
-        if (cachedUrl) {
+      for (const prop of target.props) {
+        const sourceUrl = prop.url || modelCache[prop.prompt];
+        if (isStoredAsset(sourceUrl)) {
+          assets.models.push({ type: prop.name, url: sourceUrl });
+        } else if (sourceUrl) {
           console.log(`Uploading model for: ${prop.name}`);
-          const permanentUrl = await uploadModelFromUrl(cachedUrl, biome.id || "unknown_biome", prop.name);
+          const permanentUrl = await uploadModelFromUrl(sourceUrl, target.id || "unknown_biome", prop.name);
           prop.url = permanentUrl; // Update in-memory biome object
           assets.models.push({ type: prop.name, url: permanentUrl });
         }
@@ -268,7 +416,8 @@ function App() {
 
       // 5. Save Metadata
       setLoadingStep("Finalizing Database Entry...");
-      await saveBiomeToGallery(biome, assets);
+      const galleryId = await saveBiomeToGallery(target, assets, { authorId, summary });
+      setBiome(prev => prev.id === target.id ? { ...prev, galleryId } : prev);
       alert("System Saved to Interplanetary Database.");
 
     } catch (e: any) {
@@ -280,6 +429,8 @@ function App() {
     }
   };
 
+  const handleSaveCurrent = () => saveToGallery(biome);
+
   const handleLoadBiome = (b: SavedBiome) => {
     // Reconstruct the full biome object with asset URLs overriding the ephemeral ones
     const loadedBiome: BiomeData = {
@@ -298,8 +449,143 @@ function App() {
     setBiome(loadedBiome);
   };
 
+  const handleForkBiome = (b: SavedBiome) => {
+    setBiome(forkGalleryBiome(b));
+  };
+
+  const handleExportCurrent = async () => {
+    setIsGenerating(true);
+    setLoadingStep("Packing World Archive...");
+    try {
+      // Models and music generated this session only live in the caches so far
+      const audio = biome.audioOverrideUrl || await getStoredV13Audio(biome.id || "unknown_biome");
+      const { blob, fileName, missing } = await exportBiomePackage({
+        ...biome,
+        audioOverrideUrl: audio || undefined,
+        props: biome.props.map(prop => ({ ...prop, url: prop.url || modelCache[prop.prompt] }))
+      });
+
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+
+      if (missing.length > 0) {
+        alert(`Exported without: ${missing.join(", ")}. The package links to them online instead.`);
+      }
+    } catch (e) {
+      console.error("Export failed", e);
+      alert("Export Failed: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      setIsGenerating(false);
+      setLoadingStep("");
+    }
+  };
+
+  const handleImportPackage = async (file: File) => {
+    setIsGenerating(true);
+    setLoadingStep("Unpacking World Archive...");
+    let imported: BiomeData;
+    try {
+      imported = (await importBiomePackage(file)).biome;
+      setBiome(imported);
+    } catch (e) {
+      console.error("Import failed", e);
+      alert("Import Failed: " + (e instanceof Error ? e.message : String(e)));
+      return;
+    } finally {
+      setIsGenerating(false);
+      setLoadingStep("");
+    }
+
+    if (isOwner && confirm(`Also upload "${imported.name}" to the Interplanetary Database?`)) {
+      await saveToGallery(imported, false);
+    }
+  };
+
+  const handleDraftEdit = async (instruction: string) => {
+    setIsDraftingEdit(true);
+    try {
+      const edit = await runGenerationTask(`Edit: ${instruction}`, signal => generateBiomePatch(biome, instruction, signal), () => handleDraftEdit(instruction));
+      setEditDraft(edit);
+    } catch (e) {
+      console.error(e);
+      if (!(e instanceof TaskCancelledError)) {
+        alert("Failed to draft the edit. Check console.");
+      }
+    } finally {
+      setIsDraftingEdit(false);
+    }
+  };
+
+  const bumpEditRevision = () => {
+    editRevisionRef.current += 1;
+    setEditRevision(editRevisionRef.current);
+    return editRevisionRef.current;
+  };
+
+  // Regenerates only the images an edit made stale. New props load through MeshyProp, and music
+  // through AlienAmbience once its cache is cleared.
+  const regenerateEditedAssets = (before: BiomeData, after: BiomeData, revision: number) => {
+    const changes = assetChanges(before, after);
+    const patchIfCurrent = (patch: (b: BiomeData) => BiomeData) =>
+      setBiome(prev => editRevisionRef.current === revision && prev.id === after.id ? patch(prev) : prev);
+
+    if (changes.groundTexture) {
+      runGenerationTask('Ground texture', signal => generateBiomeTexture(after.parameters.groundDescription || after.description, signal))
+        .then(textureUrl => textureUrl && patchIfCurrent(b => ({ ...b, terrain: { ...b.terrain, textureUrl } })))
+        .catch(err => console.warn("Edited texture gen failed", err));
+    }
+    if (changes.zoneTextures) {
+      runGenerationTask('Zone textures', signal => generateZoneTextures(after.terrain.materials ?? [], signal))
+        .then(materials => patchIfCurrent(b => ({ ...b, terrain: { ...b.terrain, materials } })))
+        .catch(err => console.warn("Edited zone textures skipped", err));
+    }
+    if (changes.skybox) {
+      runGenerationTask('Skybox', signal => generateSkyboxTexture(after.parameters.skyDescription || after.description, signal))
+        .then(skyboxUrl => skyboxUrl && patchIfCurrent(b => ({ ...b, atmosphere: { ...b.atmosphere, skyboxUrl } })))
+        .catch(err => console.warn("Edited skybox gen failed", err));
+    }
+  };
+
+  const handleApplyEdit = async () => {
+    if (!editDraft) return;
+    setEditDraft(null);
+    // A draft only belongs to the biome it was made for
+    if (editDraft.after.id !== biome.id) return;
+
+    // Re-applied so panel tweaks made while previewing aren't lost
+    const before = biome;
+    const after = applyBiomePatch(before, editDraft.patch).value;
+    const revision = bumpEditRevision();
+    let audio: string | null = null;
+    if (before.id && after.musicPrompt !== before.musicPrompt) {
+      audio = await getStoredV13Audio(before.id);
+      await clearStoredV13Audio(before.id);
+    }
+    setEditHistory(history => [...history, { biome: before, audio }].slice(-MAX_UNDO_STEPS));
+    setBiome(after);
+    regenerateEditedAssets(before, after, revision);
+  };
+
+  const handleUndoEdit = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    const previous = entry.biome;
+    bumpEditRevision();
+    setEditDraft(null);
+    setEditHistory(history => history.filter(e => e !== entry));
+    if (biome.id && previous.musicPrompt !== biome.musicPrompt) {
+      // Bring back the ambience the old prompt had rather than generating it again
+      if (entry.audio) await storeV13Audio(biome.id, entry.audio);
+      else await clearStoredV13Audio(biome.id);
+    }
+    setBiome(previous);
+  };
+
   // Leva controls for quick regeneration
-  const [{ mode }, set] = useControls(() => {
+  const [{ mode, viewRadius }, set] = useControls(() => {
     const controls: any = {};
 
     if (isOwner) {
@@ -308,11 +594,47 @@ function App() {
       });
     }
 
+    // All erosion inputs rebuild the whole params object from the panel
+    const erosion = biome.terrain.erosion ?? DEFAULT_EROSION;
+    const onErosionChange = (_value: unknown, _path: string, { get, initial }: { get: (path: string) => unknown; initial: boolean }) => {
+      if (initial) return;
+      const enabled = Boolean(get('Erosion.erosion_enabled'));
+      setBiome(prev => ({
+        ...prev,
+        terrain: {
+          ...prev.terrain,
+          erosion: enabled ? {
+            iterations: Number(get('Erosion.erosion_iterations')),
+            rainAmount: Number(get('Erosion.erosion_rainAmount')),
+            sedimentCapacity: Number(get('Erosion.erosion_sedimentCapacity')),
+            talusAngle: Number(get('Erosion.erosion_talusAngle'))
+          } : undefined
+        }
+      }));
+    };
+    const erosionEnabled = (get: (path: string) => unknown) => Boolean(get('Erosion.erosion_enabled'));
+
+    const onWorldChange = (_value: unknown, _path: string, { get, initial }: { get: (path: string) => unknown; initial: boolean }) => {
+      if (initial) return;
+      const shape = get('World.world_shape') as WorldShape;
+      setBiome(prev => ({
+        ...prev,
+        world: shape === 'sphere' ? { shape, radius: Number(get('World.world_radius')) } : undefined
+      }));
+    };
+
     Object.assign(controls, {
       'mode': {
-        options: { 'Fly Mode': 'fly', 'Walk Mode': 'walk' },
+        options: { 'Fly Mode': 'fly', 'Walk Mode': 'walk', 'Swim Mode': 'swim' },
         value: 'fly',
       },
+      'viewRadius': {
+        label: 'View Distance',
+        value: DEFAULT_VIEW_RADIUS,
+        min: 2,
+        max: MAX_VIEW_RADIUS,
+        step: 1
+      },
       'Gravity': {
         value: biome.parameters.gravity,
         min: 0.1,
@@ -329,6 +651,23 @@ function App() {
         value: weatherEnabled,
         onChange: (v: boolean) => setWeatherEnabled(v)
       },
+      'World': folder({
+        'world_shape': {
+          label: 'Shape',
+          options: { 'Infinite Plane': 'plane', 'Planet': 'sphere' },
+          value: biome.world?.shape ?? 'plane',
+          onChange: onWorldChange
+        },
+        'world_radius': {
+          label: 'Planet Radius',
+          value: biome.world?.radius ?? DEFAULT_PLANET_RADIUS,
+          min: 100,
+          max: 1000,
+          step: 10,
+          render: (get: (path: string) => unknown) => get('World.world_shape') === 'sphere',
+          onChange: onWorldChange
+        }
+      }, { collapsed: true }),
       'Terrain Controls': folder({
         'Base Color': {
           value: biome.terrain.baseColor,
@@ -350,58 +689,145 @@ function App() {
         },
         'Layers': folder(
           (biome.terrain.layers || []).reduce((acc, layer, index) => {
-            const noiseScaleKey = `layer_${index}_noiseScale`;
-            const heightScaleKey = `layer_${index}_heightScale`;
-            const roughnessKey = `layer_${index}_roughness`;
+            const resolved = resolveLayer(layer);
+            const folderName = layer.name || `Layer ${index + 1}`;
+            const folderPath = `Terrain Controls.Layers.${folderName}`;
+            const key = (field: string) => `layer_${index}_${field}`;
+            const updateLayer = (patch: Partial<TerrainLayer>) => {
+              setBiome(prev => {
+                const nextLayers = [...prev.terrain.layers];
+                if (nextLayers[index]) {
+                  nextLayers[index] = { ...nextLayers[index], ...patch };
+                }
+                return { ...prev, terrain: { ...prev.terrain, layers: nextLayers } };
+              });
+            };
+            // Skips leva's initial call, so loading a biome doesn't write defaults into its layers
+            const setField = (field: keyof TerrainLayer) =>
+              (v: unknown, _path: string, { initial }: { initial: boolean }) => {
+                if (!initial) updateLayer({ [field]: v });
+              };
+            // The mask inputs rebuild the whole mask from the panel, like the erosion folder
+            const onMaskChange = (_value: unknown, path: string, { get, initial }: { get: (path: string) => unknown; initial: boolean }) => {
+              if (initial) return;
+              const inputPath = (field: string) => `${path.slice(0, path.lastIndexOf('.'))}.${key(field)}`;
+              const maskLayer = Number(get(inputPath('mask')));
+              updateLayer({
+                mask: maskLayer >= 0 ? {
+                  layer: maskLayer,
+                  threshold: Number(get(inputPath('maskThreshold'))),
+                  softness: Number(get(inputPath('maskSoftness'))),
+                  invert: Boolean(get(inputPath('maskInvert')))
+                } : undefined
+              });
+            };
+            const maskOptions = (biome.terrain.layers || []).reduce((options, other, otherIndex) => {
+              if (otherIndex !== index) options[other.name || `Layer ${otherIndex + 1}`] = otherIndex;
+              return options;
+            }, { 'None': -1 } as Record<string, number>);
+            const isType = (type: NoiseLayerType) => (get: (path: string) => unknown) => get(`${folderPath}.${key('type')}`) === type;
+            const isMasked = (get: (path: string) => unknown) => Number(get(`${folderPath}.${key('mask')}`)) >= 0;
 
-            acc[layer.name || `Layer ${index + 1}`] = folder({
-              [noiseScaleKey]: {
+            acc[folderName] = folder({
+              [key('type')]: {
+                label: 'Type',
+                options: NOISE_LAYER_TYPES,
+                value: resolved.type,
+                onChange: setField('type')
+              },
+              [key('blend')]: {
+                label: 'Blend',
+                options: LAYER_BLEND_MODES,
+                value: resolved.blend,
+                onChange: setField('blend')
+              },
+              [key('noiseScale')]: {
                 label: 'Noise Scale',
                 value: layer.noiseScale,
                 min: 0.001,
                 max: 0.2,
                 step: 0.001,
-                onChange: (v: number) => {
-                  setBiome(prev => {
-                    const nextLayers = [...prev.terrain.layers];
-                    if (nextLayers[index]) {
-                      nextLayers[index] = { ...nextLayers[index], noiseScale: v };
-                    }
-                    return { ...prev, terrain: { ...prev.terrain, layers: nextLayers } };
-                  });
-                }
+                onChange: setField('noiseScale')
               },
-              [heightScaleKey]: {
+              [key('heightScale')]: {
                 label: 'Height Scale',
                 value: layer.heightScale,
                 min: 0,
                 max: 100,
                 step: 0.5,
-                onChange: (v: number) => {
-                  setBiome(prev => {
-                    const nextLayers = [...prev.terrain.layers];
-                    if (nextLayers[index]) {
-                      nextLayers[index] = { ...nextLayers[index], heightScale: v };
-                    }
-                    return { ...prev, terrain: { ...prev.terrain, layers: nextLayers } };
-                  });
-                }
+                onChange: setField('heightScale')
+              },
+              [key('octaves')]: {
+                label: 'Octaves',
+                value: resolved.octaves,
+                min: 1,
+                max: 8,
+                step: 1,
+                onChange: setField('octaves')
               },
-              [roughnessKey]: {
-                label: 'Roughness',
-                value: layer.roughness,
+              [key('lacunarity')]: {
+                label: 'Lacunarity',
+                value: resolved.lacunarity,
+                min: 1,
+                max: 4,
+                step: 0.05,
+                onChange: setField('lacunarity')
+              },
+              [key('gain')]: {
+                label: 'Gain',
+                value: resolved.gain,
                 min: 0,
-                max: 5,
-                step: 0.1,
-                onChange: (v: number) => {
-                  setBiome(prev => {
-                    const nextLayers = [...prev.terrain.layers];
-                    if (nextLayers[index]) {
-                      nextLayers[index] = { ...nextLayers[index], roughness: v };
-                    }
-                    return { ...prev, terrain: { ...prev.terrain, layers: nextLayers } };
-                  });
-                }
+                max: 1,
+                step: 0.01,
+                onChange: setField('gain')
+              },
+              [key('terraceSteps')]: {
+                label: 'Terrace Steps',
+                value: resolved.terraceSteps,
+                min: 1,
+                max: 20,
+                step: 1,
+                render: isType('terraced'),
+                onChange: setField('terraceSteps')
+              },
+              [key('warpStrength')]: {
+                label: 'Warp Strength',
+                value: resolved.warpStrength,
+                min: 0,
+                max: 4,
+                step: 0.05,
+                render: isType('domain-warp'),
+                onChange: setField('warpStrength')
+              },
+              [key('mask')]: {
+                label: 'Mask Layer',
+                options: maskOptions,
+                value: layer.mask?.layer ?? -1,
+                onChange: onMaskChange
+              },
+              [key('maskThreshold')]: {
+                label: 'Mask Threshold',
+                value: layer.mask?.threshold ?? 0,
+                min: -1,
+                max: 1,
+                step: 0.01,
+                render: isMasked,
+                onChange: onMaskChange
+              },
+              [key('maskSoftness')]: {
+                label: 'Mask Softness',
+                value: layer.mask?.softness ?? 0.1,
+                min: 0.01,
+                max: 1,
+                step: 0.01,
+                render: isMasked,
+                onChange: onMaskChange
+              },
+              [key('maskInvert')]: {
+                label: 'Invert Mask',
+                value: layer.mask?.invert ?? false,
+                render: isMasked,
+                onChange: onMaskChange
               }
             }, { collapsed: true });
             return acc;
@@ -409,11 +835,55 @@ function App() {
           { collapsed: true }
         )
       }, { collapsed: true }),
+      'Erosion': folder({
+        'erosion_enabled': {
+          label: 'Enabled',
+          value: !!biome.terrain.erosion,
+          onChange: onErosionChange
+        },
+        'erosion_iterations': {
+          label: 'Droplets',
+          value: erosion.iterations,
+          min: 0,
+          max: 30000,
+          step: 500,
+          render: erosionEnabled,
+          onChange: onErosionChange
+        },
+        'erosion_rainAmount': {
+          label: 'Rain Amount',
+          value: erosion.rainAmount,
+          min: 0.1,
+          max: 3,
+          step: 0.1,
+          render: erosionEnabled,
+          onChange: onErosionChange
+        },
+        'erosion_sedimentCapacity': {
+          label: 'Sediment Capacity',
+          value: erosion.sedimentCapacity,
+          min: 0.5,
+          max: 16,
+          step: 0.5,
+          render: erosionEnabled,
+          onChange: onErosionChange
+        },
+        'erosion_talusAngle': {
+          label: 'Talus Angle',
+          value: erosion.talusAngle,
+          min: 10,
+          max: 80,
+          step: 1,
+          render: erosionEnabled,
+          onChange: onErosionChange
+        }
+      }, { collapsed: true }),
       'Prop Controls': folder(
         (biome.props || []).reduce((acc, prop, index) => {
           // Use a unique key for each input but keep the visible label simple
           const densityKey = `prop_${index}_density`;
           const scaleKey = `prop_${index}_scale`;
+          const rigidityKey = `prop_${index}_rigidity`;
 
           acc[prop.name] = folder({
             [densityKey]: {
@@ -447,6 +917,24 @@ function App() {
                   return { ...prev, props: nextProps };
                 });
               }
+            },
+            [rigidityKey]: {
+              label: 'Rigidity',
+              value: prop.rigidity ?? 1,
+              min: 0,
+              max: 1,
+              step: 0.05,
+              // Skips leva's initial call, so props without a rigidity aren't rewritten on load
+              onChange: (v: number, _path: string, { initial }: { initial: boolean }) => {
+                if (initial) return;
+                setBiome(prev => {
+                  const nextProps = [...prev.props];
+                  if (nextProps[index]) {
+                    nextProps[index] = { ...nextProps[index], rigidity: v };
+                  }
+                  return { ...prev, props: nextProps };
+                });
+              }
             }
           }, { collapsed: true });
           return acc;
@@ -456,11 +944,11 @@ function App() {
     });
 
     return controls;
-  }, [isOwner, biome.id, weatherEnabled]) as any;
+  }, [isOwner, biome.id, weatherEnabled, editRevision]) as any;
 
-  const toggleMode = React.useCallback(() => {
-    set({ mode: mode === 'fly' ? 'walk' : 'fly' });
-  }, [mode, set]);
+  const changeMode = React.useCallback((next: MovementMode) => {
+    set({ mode: next });
+  }, [set]);
 
 
 
@@ -480,7 +968,7 @@ function App() {
         <h1 style={{ margin: 0, textTransform: 'uppercase', fontSize: '2rem' }}>{biome.name}</h1>
         <p style={{ margin: '0.5rem 0', opacity: 0.8, maxWidth: '400px' }}>{biome.description}</p>
         <div style={{ marginTop: '1rem', fontSize: '0.8rem', opacity: 0.6 }}>
-          LAYERS: {biome.terrain.layers.length} | GRAVITY: {biome.parameters.gravity}G | WEATHER: {weatherActive ? (biome.weather.type.toUpperCase()) : "CLEAR"}
+          LAYERS: {biome.terrain.layers.length} | GRAVITY: {biome.parameters.gravity}G | WEATHER: {weatherActive ? (biome.weather.type.toUpperCase()) : "CLEAR"} | GROUND: {groundMaterial === 'water' ? "SUBMERGED" : "LAND"}
         </div>
       </div>
 
@@ -526,7 +1014,7 @@ function App() {
         <Leva theme={{ colors: { highlight1: '#ff00ff', highlight2: '#00ffff' } }} />
       </div>
 
-      <Canvas shadows camera={{ position: [0, 5, 10], fov: 60 }} onPointerDown={(e) => {
+      <Canvas shadows camera={{ position: [0, 5, 10], fov: 60, far: (MAX_VIEW_RADIUS + 1) * CHUNK_SIZE * 1.5 }} onPointerDown={(e) => {
         if (e.target === e.currentTarget) {
           (e.target as HTMLCanvasElement).requestPointerLock();
         }
@@ -534,15 +1022,40 @@ function App() {
         <Scene
           biome={biome}
           mode={mode}
-          onToggleMode={toggleMode}
+          onModeChange={changeMode}
           weatherActive={weatherActive}
-          noise2D={noise2D}
+          heightfield={heightfield}
+          planet={planet}
+          viewRadius={viewRadius}
+          onGroundMaterialChange={setGroundMaterial}
         />
+        <SceneCapture captureRef={captureShotsRef} planetRadius={planet?.radius} />
       </Canvas>
 
       <AlienAmbience biome={biome} audioOverrideUrl={(biome as any).audioOverrideUrl} />
 
-      <GalaxyGallery onLoadBiome={handleLoadBiome} onSaveCurrent={handleSaveCurrent} />
+      <GenerationDashboard biome={biome} />
+
+      {isOwner && (
+        <BiomeEditor
+          biome={biome}
+          draft={editDraft}
+          isDrafting={isDraftingEdit}
+          undoCount={undoStack.length}
+          onDraft={handleDraftEdit}
+          onApply={handleApplyEdit}
+          onDiscard={() => setEditDraft(null)}
+          onUndo={handleUndoEdit}
+        />
+      )}
+
+      <GalaxyGallery
+        onLoadBiome={handleLoadBiome}
+        onForkBiome={handleForkBiome}
+        onSaveCurrent={handleSaveCurrent}
+        onExportCurrent={handleExportCurrent}
+        onImportPackage={handleImportPackage}
+      />
     </div>
   )
 }
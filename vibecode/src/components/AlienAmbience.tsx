@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { getAlienAmbienceV13 } from '../services/elevenLabsV13';
+import { runGenerationTask } from '../services/generationTasks';
 import type { BiomeData } from '../types/biome';
 
 interface AlienAmbienceProps {
@@ -13,6 +14,8 @@ const AlienAmbience: React.FC<AlienAmbienceProps> = ({ biome, audioOverrideUrl }
     const [isPlaying, setIsPlaying] = useState(false);
     const [isGenerating, setIsGenerating] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // Bumped by the dashboard's retry button to run the generation again
+    const [attempt, setAttempt] = useState(0);
 
     // Track the current biome ID to reset audioUrl immediately on change
     const [currentBiomeId, setCurrentBiomeId] = useState<string | undefined>(biome.id);
@@ -52,7 +55,12 @@ const AlienAmbience: React.FC<AlienAmbienceProps> = ({ biome, audioOverrideUrl }
                 console.log(`[AlienAmbience] Initiating generation for world: ${biome.id}`);
 
                 // getAlienAmbienceV13 now handles internal IndexedDB caching and concurrency locking
-                const url = await getAlienAmbienceV13(biome.id, prompt);
+                const biomeId = biome.id;
+                const url = await runGenerationTask(
+                    'Ambient music',
+                    signal => getAlienAmbienceV13(biomeId, prompt, signal),
+                    () => setAttempt(a => a + 1)
+                );
 
                 setAudioUrl(url);
                 setError(null);
@@ -65,7 +73,7 @@ const AlienAmbience: React.FC<AlienAmbienceProps> = ({ biome, audioOverrideUrl }
         };
 
         load();
-    }, [biome.id, activeOverrideUrl, biome.musicPrompt]);
+    }, [biome.id, activeOverrideUrl, biome.musicPrompt, attempt]);
 
     const toggle = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { BiomeDiffEntry } from '../utils/biomePatch';
+
+const formatValue = (value: unknown) => {
+    const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const DiffRow: React.FC<{ entry: BiomeDiffEntry }> = ({ entry }) => {
+    const added = !('before' in entry);
+    const removed = !('after' in entry);
+    return (
+        <div style={{ padding: '2px 0', wordBreak: 'break-word' }}>
+            <span style={{ color: added ? '#0f8' : removed ? '#f55' : '#0ff' }}>{added ? '+ ' : removed ? '- ' : '~ '}{entry.path}</span>
+            {': '}
+            {!added && <span style={{ opacity: 0.6, textDecoration: removed ? 'line-through' : 'none' }}>{formatValue(entry.before)}</span>}
+            {!added && !removed && ' → '}
+            {!removed && <span>{formatValue(entry.after)}</span>}
+        </div>
+    );
+};
+
+/**
+ * Changed biome values as "path: before → after" lines, from diffBiomes.
+ */
+export const BiomeDiffList: React.FC<{ diff: BiomeDiffEntry[]; emptyText: string }> = ({ diff, emptyText }) => (
+    <>
+        {diff.length === 0
+            ? <div style={{ opacity: 0.6 }}>{emptyText}</div>
+            : diff.map(entry => <DiffRow key={entry.path} entry={entry} />)}
+    </>
+);
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { BiomeEdit } from '../services/ai';
+import { assetChanges } from '../utils/biomePatch';
+import { formatSchemaIssue } from '../utils/biomeSchema';
+import type { BiomeData } from '../types/biome';
+import { BiomeDiffList } from './BiomeDiffList';
+
+interface BiomeEditorProps {
+    biome: BiomeData;
+    draft: BiomeEdit | null;
+    isDrafting: boolean;
+    undoCount: number;
+    onDraft: (instruction: string) => void;
+    onApply: () => void;
+    onDiscard: () => void;
+    onUndo: () => void;
+}
+
+const buttonStyle = (color: string, disabled = false): React.CSSProperties => ({
+    background: 'none', border: `1px solid ${color}`, color, cursor: disabled ? 'default' : 'pointer',
+    fontFamily: 'monospace', fontSize: 11, padding: '3px 10px', textTransform: 'uppercase', opacity: disabled ? 0.4 : 1
+});
+
+/**
+ * Owner panel for editing the current biome in plain language: draft an edit, preview it as a
+ * diff, then apply or discard it. Applied edits can be undone.
+ */
+export const BiomeEditor: React.FC<BiomeEditorProps> = ({ biome, draft, isDrafting, undoCount, onDraft, onApply, onDiscard, onUndo }) => {
+    const [instruction, setInstruction] = useState('');
+    const [isOpen, setIsOpen] = useState(false);
+
+    const canDraft = instruction.trim() !== '' && !isDrafting;
+    const submit = () => {
+        if (canDraft) onDraft(instruction.trim());
+    };
+
+    const assets = draft ? assetChanges(biome, draft.after) : null;
+    const regenerates = assets ? [
+        assets.groundTexture && 'ground texture',
+        assets.skybox && 'skybox',
+        assets.zoneTextures && 'zone textures',
+        assets.music && 'music',
+        ...assets.newProps.map(name => `model: ${name}`)
+    ].filter(Boolean) : [];
+
+    return (
+        <div
+            onMouseDown={e => e.stopPropagation()}
+            onPointerDown={e => e.stopPropagation()}
+            onMouseUp={e => e.stopPropagation()}
+            onPointerUp={e => e.stopPropagation()}
+            onClick={e => e.stopPropagation()}
+            // Typing must not move the player
+            onKeyDown={e => e.stopPropagation()}
+            onKeyUp={e => e.stopPropagation()}
+            style={{
+                position: 'absolute', bottom: 20, left: '50%', transform: 'translateX(-50%)', zIndex: 9999,
+                width: isOpen ? 460 : 'auto', maxHeight: '50vh', overflowY: 'auto',
+                background: 'rgba(0,0,0,0.8)', padding: '10px 15px', borderRadius: '5px', color: '#fff',
+                fontFamily: 'monospace', fontSize: 12, border: `1px solid ${draft ? '#ff0' : '#0ff'}`,
+                pointerEvents: 'auto'
+            }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 10, cursor: 'pointer' }} onClick={() => setIsOpen(open => !open)}>
+                <span style={{ flex: 1 }}>EDIT_BIOME{isDrafting ? ' [DRAFTING]' : draft ? ' [PREVIEW]' : ''}</span>
+                <span style={{ opacity: 0.6 }}>{isOpen ? '▾' : '▸'}</span>
+            </div>
+
+            {isOpen && (
+                <>
+                    <textarea
+                        value={instruction}
+                        onChange={e => setInstruction(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+                        }}
+                        placeholder='e.g. "make the mountains taller and replace the ferns with glowing mushrooms"'
+                        rows={3}
+                        style={{
+                            width: '100%', boxSizing: 'border-box', marginTop: 8, resize: 'vertical',
+                            background: '#111', border: '1px solid #444', color: '#fff', fontFamily: 'monospace', fontSize: 12, padding: 6
+                        }}
+                    />
+                    <div style={{ display: 'flex', gap: 6, marginTop: 6 }}>
+                        <button style={buttonStyle('#0ff', !canDraft)} disabled={!canDraft} onClick={submit}>
+                            {isDrafting ? 'Drafting...' : 'Draft edit'}
+                        </button>
+                        <span style={{ flex: 1 }} />
+                        <button style={buttonStyle('#f0f', undoCount === 0)} disabled={undoCount === 0} onClick={onUndo}>
+                            Undo{undoCount > 0 && ` (${undoCount})`}
+                        </button>
+                    </div>
+
+                    {draft && (
+                        <div style={{ marginTop: 10, borderTop: '1px solid rgba(0, 255, 255, 0.2)', paddingTop: 8 }}>
+                            <div style={{ color: '#ff0', marginBottom: 6 }}>{draft.patch.summary}</div>
+                            <BiomeDiffList diff={draft.diff} emptyText="The edit changes nothing." />
+                            {regenerates.length > 0 && (
+                                <div style={{ marginTop: 6, opacity: 0.8 }}>Regenerates: {regenerates.join(', ')}</div>
+                            )}
+                            {draft.issues.length > 0 && (
+                                <div style={{ marginTop: 6, fontSize: 10, color: '#f90' }}>
+                                    {draft.issues.map((issue, i) => <div key={i}>{formatSchemaIssue(issue)}</div>)}
+                                </div>
+                            )}
+                            <div style={{ display: 'flex', gap: 6, marginTop: 8 }}>
+                                <button style={buttonStyle('#0f8', draft.diff.length === 0)} disabled={draft.diff.length === 0} onClick={onApply}>Apply</button>
+                                <button style={buttonStyle('#888')} onClick={onDiscard}>Discard</button>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
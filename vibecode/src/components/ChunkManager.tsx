@@ -2,45 +2,65 @@ import React, { useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Terrain } from './Terrain';
 import { PropManager } from './PropManager';
+import { Water } from './Water';
 import type { BiomeData } from '../types/biome';
 import { Mesh } from 'three';
 import * as THREE from 'three';
+import { CHUNK_SIZE, DEFAULT_VIEW_RADIUS, getLodForRing } from '../utils/chunkGeometry';
+import { chunkWorkerPool } from '../workers/chunkWorkerPool';
+import type { Heightfield } from '../utils/heightfield';
+import { resolveLiquid } from '../utils/liquid';
 
 interface ChunkManagerProps {
     biome: BiomeData;
-    noise2D: any;
+    heightfield: Heightfield;
     terrainRef?: React.Ref<Mesh>;
+    viewRadius?: number; // Radius in chunks
 }
 
-export const ChunkManager = React.forwardRef<THREE.Group, ChunkManagerProps>(({ biome, noise2D }, ref) => {
-    const { camera } = useThree();
-    const [chunks, setChunks] = useState<{ key: string, x: number, z: number }[]>([]);
+interface ChunkEntry {
+    key: string;
+    x: number;
+    z: number;
+    ring: number; // Chebyshev distance in chunks from the camera's chunk
+    lod: number;
+}
 
-    // Config
-    const CHUNK_SIZE = 100;
-    const RENDER_DISTANCE = 2; // Radius in chunks (2 = 5x5 grid)
+// Props stay limited to the inner rings; far chunks are terrain only.
+// Beyond the first ring or two they draw as decimated models or impostors, so this can reach further out
+const PROP_RADIUS = 4;
+
+export const ChunkManager = React.forwardRef<THREE.Group, ChunkManagerProps>(({ biome, heightfield, viewRadius = DEFAULT_VIEW_RADIUS }, ref) => {
+    const { camera } = useThree();
+    const [chunks, setChunks] = useState<ChunkEntry[]>([]);
 
     useFrame(() => {
+        // Nearest chunks get built first
+        chunkWorkerPool.setFocus(camera.position.x, camera.position.z);
+
         const currentChunkX = Math.round(camera.position.x / CHUNK_SIZE);
         const currentChunkZ = Math.round(camera.position.z / CHUNK_SIZE);
 
-        const newChunks: { key: string, x: number, z: number }[] = [];
-        for (let x = -RENDER_DISTANCE; x <= RENDER_DISTANCE; x++) {
-            for (let z = -RENDER_DISTANCE; z <= RENDER_DISTANCE; z++) {
+        const newChunks: ChunkEntry[] = [];
+        for (let x = -viewRadius; x <= viewRadius; x++) {
+            for (let z = -viewRadius; z <= viewRadius; z++) {
                 const cx = currentChunkX + x;
                 const cz = currentChunkZ + z;
+                const ring = Math.max(Math.abs(x), Math.abs(z));
 
                 newChunks.push({
                     key: `${cx},${cz}`,
                     x: cx,
-                    z: cz
+                    z: cz,
+                    ring,
+                    lod: getLodForRing(ring)
                 });
             }
         }
 
         setChunks(prev => {
-            const prevKeys = prev.map(c => c.key).sort().join('|');
-            const newKeys = newChunks.map(c => c.key).sort().join('|');
+            const prevKeys = prev.map(c => `${c.key}@${c.lod}`).sort().join('|');
+            const newKeys = newChunks.map(c => `${c.key}@${c.lod}`).sort().join('|');
             if (prevKeys === newKeys) return prev;
             return newChunks;
         });
@@ -49,22 +69,32 @@ export const ChunkManager = React.forwardRef<THREE.Group, ChunkManagerProps>(({
     return (
         <group ref={ref}>
             {chunks.map(chunk => (
+                // Keyed by position only: a LOD change re-renders Terrain in place and leaves PropManager mounted
                 <group key={chunk.key} position={[chunk.x * CHUNK_SIZE, 0, chunk.z * CHUNK_SIZE]}>
                     <Terrain
                         data={biome.terrain}
                         chunkX={chunk.x}
                         chunkZ={chunk.z}
-                        noise2D={noise2D}
-                    />
-                    <PropManager
-                        biome={biome}
-                        noise2D={noise2D}
-                        chunkX={chunk.x}
-                        chunkZ={chunk.z}
-                        chunkSize={CHUNK_SIZE}
+                        lod={chunk.lod}
                     />
+                    {chunk.ring <= PROP_RADIUS && (
+                        <PropManager
+                            biome={biome}
+                            heightfield={heightfield}
+                            chunkX={chunk.x}
+                            chunkZ={chunk.z}
+                            chunkSize={CHUNK_SIZE}
+                        />
+                    )}
                 </group>
             ))}
+            <Water
+                liquid={resolveLiquid(biome)}
+                waterLevel={biome.terrain.waterLevel}
+                skyColor={biome.atmosphere.skyColor}
+                heightfield={heightfield}
+                chunks={chunks}
+            />
         </group>
     );
 });
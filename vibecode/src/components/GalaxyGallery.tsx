@@ -1,33 +1,175 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { fetchGalleryBiomes, type SavedBiome } from '../services/gallery';
+import { BIOME_PACKAGE_EXTENSION } from '../services/biomePackage';
+import { deleteGalleryBiome, fetchGalleryPage, recordGalleryLoad, type GalleryCursor, type SavedBiome } from '../services/gallery';
+import {
+    DEFAULT_GALLERY_FILTERS, GALLERY_ATMOSPHERES, GALLERY_SORTS, GALLERY_WEATHER_TYPES,
+    galleryFiltersFromSearch, galleryFiltersToSearch, type GalleryFilters
+} from '../utils/galleryQuery';
+import { LineageTree } from './LineageTree';
+import { RevisionHistory } from './RevisionHistory';
 
 interface GalaxyGalleryProps {
     onLoadBiome: (biome: SavedBiome) => void;
+    onForkBiome: (biome: SavedBiome) => void; // Loads a copy that saves as a new entry
     onSaveCurrent: () => void;
+    onExportCurrent: () => void; // Downloads the current world as a .biome.zip
+    onImportPackage: (file: File) => void;
 }
 
-export const GalaxyGallery: React.FC<GalaxyGalleryProps> = ({ onLoadBiome, onSaveCurrent }) => {
-    const { isOwner, verifyPasscode, user } = useAuth();
+// Typed filters wait this long after the last keystroke before querying
+const TYPING_DELAY_MS = 300;
+
+const fieldStyle: React.CSSProperties = {
+    background: '#111', border: '1px solid #444', color: 'white', padding: '6px 8px',
+    fontFamily: "'Courier New', Courier, monospace", fontSize: '0.8rem'
+};
+
+const packageButtonStyle: React.CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.05)',
+    border: '1px solid #888',
+    color: '#ccc',
+    padding: '10px 20px',
+    cursor: 'pointer',
+    textTransform: 'uppercase',
+    letterSpacing: '1px',
+    backdropFilter: 'blur(5px)'
+};
+
+// Number box that allows partial input like "-" while typing; empty means no bound
+const BoundInput: React.FC<{ value?: number; placeholder: string; onChange: (value?: number) => void }> = ({ value, placeholder, onChange }) => {
+    const [text, setText] = useState(value !== undefined ? String(value) : '');
+    return (
+        <input
+            type="text"
+            inputMode="decimal"
+            placeholder={placeholder}
+            value={text}
+            onChange={e => {
+                setText(e.target.value);
+                const number = Number(e.target.value);
+                onChange(e.target.value.trim() !== '' && Number.isFinite(number) ? number : undefined);
+            }}
+            style={{ ...fieldStyle, width: '60px' }}
+        />
+    );
+};
+
+export const GalaxyGallery: React.FC<GalaxyGalleryProps> = ({ onLoadBiome, onForkBiome, onSaveCurrent, onExportCurrent, onImportPackage }) => {
+    const { isOwner, authorId, verifyPasscode, user } = useAuth();
     const [isOpen, setIsOpen] = useState(false);
     const [biomes, setBiomes] = useState<SavedBiome[]>([]);
     const [loading, setLoading] = useState(false);
+    // The card under the pointer plays its orbit animation
+    const [hoveredId, setHoveredId] = useState<string | null>(null);
+    // Entry whose revision history is open
+    const [historyEntry, setHistoryEntry] = useState<SavedBiome | null>(null);
+    // Entry whose family tree is open
+    const [lineageEntry, setLineageEntry] = useState<SavedBiome | null>(null);
+
+    // Filters start from the URL and are written back to it
+    const [filters, setFilters] = useState<GalleryFilters>(() => galleryFiltersFromSearch(window.location.search));
+    const filtersRef = useRef(filters);
+    const [cursor, setCursor] = useState<GalleryCursor | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    // Bumped by "Reset" so the bound inputs drop their text
+    const [resetCount, setResetCount] = useState(0);
+    const requestRef = useRef(0);
+    const filterTimer = useRef<number | undefined>(undefined);
+    const importInput = useRef<HTMLInputElement>(null);
+    const gridRef = useRef<HTMLDivElement>(null);
+    const sentinelRef = useRef<HTMLDivElement>(null);
 
     // Auth State
     const [showAuth, setShowAuth] = useState(false);
     const [passcode, setPasscode] = useState("");
     const [authError, setAuthError] = useState("");
 
-    // Fetch biomes when opening gallery
-    useEffect(() => {
-        if (isOpen) {
-            setLoading(true);
-            fetchGalleryBiomes()
-                .then(data => setBiomes(data))
-                .catch(err => console.error("Failed to fetch gallery:", err))
-                .finally(() => setLoading(false));
+    // Loads the first page for `next`, or the page after `from`; answers to superseded requests are dropped
+    const loadPage = (next: GalleryFilters, from: GalleryCursor | null) => {
+        const requestId = ++requestRef.current;
+        setLoading(true);
+        fetchGalleryPage(next, from)
+            .then(page => {
+                if (requestId !== requestRef.current) return;
+                setBiomes(prev => from ? [...prev, ...page.biomes] : page.biomes);
+                setCursor(page.cursor);
+                setHasMore(page.hasMore);
+            })
+            .catch(err => console.error("Failed to fetch gallery:", err))
+            .finally(() => {
+                if (requestId === requestRef.current) setLoading(false);
+            });
+    };
+
+    const closeGallery = () => {
+        setIsOpen(false);
+        setHistoryEntry(null);
+        setLineageEntry(null);
+    };
+
+    const loadBiome = (b: SavedBiome) => {
+        if (b.firestoreId) {
+            recordGalleryLoad(b.firestoreId).catch(err => console.warn("Failed to count gallery load:", err));
         }
-    }, [isOpen]);
+        onLoadBiome(b);
+        closeGallery();
+    };
+
+    const forkBiome = (b: SavedBiome) => {
+        onForkBiome(b);
+        closeGallery();
+    };
+
+    const deleteEntry = async (b: SavedBiome) => {
+        if (!b.firestoreId || !confirm(`Delete "${b.name}" and all its revisions from the gallery?`)) return;
+        try {
+            await deleteGalleryBiome(b.firestoreId);
+            setBiomes(prev => prev.filter(other => other.firestoreId !== b.firestoreId));
+        } catch (err) {
+            console.error("Failed to delete gallery entry:", err);
+            alert("Delete failed: " + (err instanceof Error ? err.message : String(err)));
+        }
+    };
+
+    const openGallery = () => {
+        setIsOpen(true);
+        loadPage(filtersRef.current, null);
+    };
+
+    const applyFilters = (next: GalleryFilters, delay = 0) => {
+        filtersRef.current = next;
+        setFilters(next);
+        window.clearTimeout(filterTimer.current);
+        filterTimer.current = window.setTimeout(() => {
+            const { pathname, search, hash } = window.location;
+            window.history.replaceState(window.history.state, '', pathname + galleryFiltersToSearch(next, search) + hash);
+            loadPage(next, null);
+        }, delay);
+    };
+
+    const updateFilters = (patch: Partial<GalleryFilters>, delay = 0) => applyFilters({ ...filtersRef.current, ...patch }, delay);
+
+    const resetFilters = () => {
+        setResetCount(count => count + 1);
+        applyFilters(DEFAULT_GALLERY_FILTERS);
+    };
+
+    // Infinite scroll: the next page loads when the end of the grid comes into view
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!isOpen || !hasMore || loading || !sentinel) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                observer.disconnect();
+                loadPage(filtersRef.current, cursor);
+            }
+        }, { root: gridRef.current, rootMargin: '200px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [isOpen, hasMore, loading, cursor]);
+
+    useEffect(() => () => window.clearTimeout(filterTimer.current), []);
 
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -86,7 +228,7 @@ export const GalaxyGallery: React.FC<GalaxyGalleryProps> = ({ onLoadBiome, onSav
 
                 <div style={{ display: 'flex', gap: '10px' }}>
                     <button
-                        onClick={() => setIsOpen(true)}
+                        onClick={openGallery}
                         style={{
                             background: 'rgba(0, 255, 255, 0.1)',
                             border: '1px solid #00ffff',
@@ -118,6 +260,25 @@ export const GalaxyGallery: React.FC<GalaxyGalleryProps> = ({ onLoadBiome, onSav
                             Save Coordinates
                         </button>
                     )}
+
+                    <button onClick={onExportCurrent} style={packageButtonStyle}>
+                        Export World
+                    </button>
+                    <button onClick={() => importInput.current?.click()} style={packageButtonStyle}>
+                        Import World
+                    </button>
+                    <input
+                        ref={importInput}
+                        type="file"
+                        accept={`${BIOME_PACKAGE_EXTENSION},.zip`}
+                        style={{ display: 'none' }}
+                        onChange={e => {
+                            const file = e.target.files?.[0];
+                            // Cleared so picking the same file again still fires
+                            e.target.value = '';
+                            if (file) onImportPackage(file);
+                        }}
+                    />
                 </div>
             </div>
 
@@ -126,60 +287,196 @@ export const GalaxyGallery: React.FC<GalaxyGalleryProps> = ({ onLoadBiome, onSav
 
             {/* Gallery Modal */}
             {isOpen && (
-                <div style={{
-                    position: 'absolute',
-                    top: 0, left: 0, width: '100%', height: '100%',
-                    background: 'rgba(0,0,0,0.9)',
-                    zIndex: 2000,
-                    display: 'flex',
-                    flexDirection: 'column',
-                    padding: '40px',
-                    boxSizing: 'border-box',
-                    color: 'white',
-                    fontFamily: "'Courier New', Courier, monospace"
-                }}>
+                <div
+                    // Typing in the filters must not move the player
+                    onKeyDown={e => e.stopPropagation()}
+                    onKeyUp={e => e.stopPropagation()}
+                    style={{
+                        position: 'absolute',
+                        top: 0, left: 0, width: '100%', height: '100%',
+                        background: 'rgba(0,0,0,0.9)',
+                        zIndex: 2000,
+                        display: 'flex',
+                        flexDirection: 'column',
+                        padding: '40px',
+                        boxSizing: 'border-box',
+                        color: 'white',
+                        fontFamily: "'Courier New', Courier, monospace"
+                    }}>
                     <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px' }}>
                         <h1 style={{ margin: 0, color: '#00ffff' }}>DISCOVERED WORLDS</h1>
                         <button
-                            onClick={() => setIsOpen(false)}
+                            onClick={closeGallery}
                             style={{ background: 'none', border: 'none', color: 'white', fontSize: '24px', cursor: 'pointer' }}
                         >
                             ✕
                         </button>
                     </div>
 
-                    {loading ? (
-                        <div>Scanning Deep Space Network...</div>
-                    ) : (
-                        <div style={{
-                            display: 'grid',
-                            gridTemplateColumns: 'repeat(auto-fill, minmax(250px, 1fr))',
-                            gap: '20px',
-                            overflowY: 'auto'
-                        }}>
-                            {biomes.map(b => (
-                                <div key={b.firestoreId} style={{
-                                    border: '1px solid #333',
-                                    padding: '15px',
-                                    background: 'rgba(255,255,255,0.05)',
-                                    cursor: 'pointer',
-                                    transition: 'all 0.2s'
+                    {/* Search, filters and sorting */}
+                    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '10px', marginBottom: '20px', fontSize: '0.8rem' }}>
+                        <input
+                            type="search"
+                            placeholder="Search names and descriptions"
+                            value={filters.search}
+                            onChange={e => updateFilters({ search: e.target.value }, TYPING_DELAY_MS)}
+                            style={{ ...fieldStyle, flex: '1 1 220px' }}
+                        />
+                        <select
+                            value={filters.weather ?? ''}
+                            onChange={e => updateFilters({ weather: (e.target.value || undefined) as GalleryFilters['weather'] })}
+                            style={fieldStyle}
+                        >
+                            <option value="">Any weather</option>
+                            {GALLERY_WEATHER_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <select
+                            value={filters.atmosphere ?? ''}
+                            onChange={e => updateFilters({ atmosphere: e.target.value || undefined })}
+                            style={fieldStyle}
+                        >
+                            <option value="">Any atmosphere</option>
+                            {GALLERY_ATMOSPHERES.map(density => <option key={density} value={density}>{density}</option>)}
+                        </select>
+                        <span>
+                            TEMP °C{' '}
+                            <BoundInput key={`tmin-${resetCount}`} placeholder="min" value={filters.minTemperature} onChange={v => updateFilters({ minTemperature: v }, TYPING_DELAY_MS)} />
+                            {' – '}
+                            <BoundInput key={`tmax-${resetCount}`} placeholder="max" value={filters.maxTemperature} onChange={v => updateFilters({ maxTemperature: v }, TYPING_DELAY_MS)} />
+                        </span>
+                        <span>
+                            GRAVITY G{' '}
+                            <BoundInput key={`gmin-${resetCount}`} placeholder="min" value={filters.minGravity} onChange={v => updateFilters({ minGravity: v }, TYPING_DELAY_MS)} />
+                            {' – '}
+                            <BoundInput key={`gmax-${resetCount}`} placeholder="max" value={filters.maxGravity} onChange={v => updateFilters({ maxGravity: v }, TYPING_DELAY_MS)} />
+                        </span>
+                        <select
+                            value={filters.sort}
+                            onChange={e => updateFilters({ sort: e.target.value as GalleryFilters['sort'] })}
+                            style={fieldStyle}
+                        >
+                            {GALLERY_SORTS.map(sort => <option key={sort} value={sort}>Sort by {sort}</option>)}
+                        </select>
+                        <button
+                            onClick={resetFilters}
+                            style={{ background: 'none', border: '1px solid #444', color: '#888', padding: '6px 10px', cursor: 'pointer', fontFamily: 'inherit' }}
+                        >
+                            RESET
+                        </button>
+                    </div>
+
+                    <div ref={gridRef} style={{
+                        display: 'grid',
+                        gridTemplateColumns: 'repeat(auto-fill, minmax(250px, 1fr))',
+                        gridAutoRows: 'min-content',
+                        gap: '20px',
+                        overflowY: 'auto'
+                    }}>
+                        {biomes.map(b => (
+                            <div key={b.firestoreId} style={{
+                                border: '1px solid #333',
+                                padding: '15px',
+                                background: 'rgba(255,255,255,0.05)',
+                                cursor: 'pointer',
+                                transition: 'all 0.2s'
+                            }}
+                                onClick={() => loadBiome(b)}
+                                onMouseEnter={e => {
+                                    e.currentTarget.style.borderColor = '#00ffff';
+                                    setHoveredId(b.firestoreId ?? null);
+                                }}
+                                onMouseLeave={e => {
+                                    e.currentTarget.style.borderColor = '#333';
+                                    setHoveredId(null);
                                 }}
-                                    onClick={() => {
-                                        onLoadBiome(b);
-                                        setIsOpen(false);
-                                    }}
-                                    onMouseEnter={e => e.currentTarget.style.borderColor = '#00ffff'}
-                                    onMouseLeave={e => e.currentTarget.style.borderColor = '#333'}
-                                >
-                                    <h3 style={{ margin: '0 0 10px 0', fontSize: '1.2rem' }}>{b.name}</h3>
-                                    <p style={{ fontSize: '0.8rem', opacity: 0.7 }}>{b.description.slice(0, 60)}...</p>
-                                    <div style={{ fontSize: '0.7rem', color: '#888', marginTop: '10px' }}>
-                                        {new Date(b.timestamp).toLocaleDateString()}
-                                    </div>
+                            >
+                                {b.assets?.thumbnails && (
+                                    <img
+                                        src={hoveredId === b.firestoreId && b.assets.thumbnails.orbit ? b.assets.thumbnails.orbit : b.assets.thumbnails.hero}
+                                        alt={b.name}
+                                        loading="lazy"
+                                        style={{ display: 'block', width: '100%', aspectRatio: '16 / 9', objectFit: 'cover', marginBottom: '10px', background: '#000' }}
+                                    />
+                                )}
+                                <h3 style={{ margin: '0 0 10px 0', fontSize: '1.2rem' }}>{b.name}</h3>
+                                <p style={{ fontSize: '0.8rem', opacity: 0.7 }}>{b.description.slice(0, 60)}...</p>
+                                <div style={{ fontSize: '0.7rem', color: '#888', marginTop: '10px' }}>
+                                    {new Date(b.timestamp).toLocaleDateString()}
+                                    {' · '}{b.parameters?.temperature}°C · {b.parameters?.gravity}G · {(b.weather?.type ?? 'none').toUpperCase()}
+                                    {b.revisionCount !== undefined && ` · REV ${b.revisionCount}`}
+                                    {b.lineage && ` · FORK GEN ${b.lineage.depth}`}
                                 </div>
-                            ))}
+                                <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+                                    <button
+                                        onClick={e => {
+                                            e.stopPropagation();
+                                            setLineageEntry(null);
+                                            setHistoryEntry(b);
+                                        }}
+                                        style={{ background: 'none', border: '1px solid #444', color: '#00ffff', padding: '3px 8px', cursor: 'pointer', fontFamily: 'inherit', fontSize: '0.7rem' }}
+                                    >
+                                        HISTORY
+                                    </button>
+                                    <button
+                                        onClick={e => {
+                                            e.stopPropagation();
+                                            setHistoryEntry(null);
+                                            setLineageEntry(b);
+                                        }}
+                                        style={{ background: 'none', border: '1px solid #444', color: '#00ffff', padding: '3px 8px', cursor: 'pointer', fontFamily: 'inherit', fontSize: '0.7rem' }}
+                                    >
+                                        LINEAGE
+                                    </button>
+                                    <button
+                                        onClick={e => {
+                                            e.stopPropagation();
+                                            forkBiome(b);
+                                        }}
+                                        style={{ background: 'none', border: '1px solid #444', color: '#ff00ff', padding: '3px 8px', cursor: 'pointer', fontFamily: 'inherit', fontSize: '0.7rem' }}
+                                    >
+                                        FORK
+                                    </button>
+                                    {isOwner && (
+                                        <button
+                                            onClick={e => {
+                                                e.stopPropagation();
+                                                deleteEntry(b);
+                                            }}
+                                            style={{ background: 'none', border: '1px solid #444', color: '#ff5555', padding: '3px 8px', cursor: 'pointer', fontFamily: 'inherit', fontSize: '0.7rem' }}
+                                        >
+                                            DELETE
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+
+                        <div ref={sentinelRef} style={{ gridColumn: '1 / -1', minHeight: '1px', opacity: 0.7 }}>
+                            {loading
+                                ? 'Scanning Deep Space Network...'
+                                : biomes.length === 0 ? 'No worlds match these filters.' : null}
                         </div>
+                    </div>
+
+                    {historyEntry && (
+                        <RevisionHistory
+                            key={historyEntry.firestoreId}
+                            entry={historyEntry}
+                            authorId={authorId}
+                            onLoad={loadBiome}
+                            onClose={() => setHistoryEntry(null)}
+                            onChanged={() => loadPage(filtersRef.current, null)}
+                        />
+                    )}
+
+                    {lineageEntry && (
+                        <LineageTree
+                            key={lineageEntry.firestoreId}
+                            entry={lineageEntry}
+                            onLoad={loadBiome}
+                            onFork={forkBiome}
+                            onClose={() => setLineageEntry(null)}
+                        />
                     )}
                 </div>
             )}
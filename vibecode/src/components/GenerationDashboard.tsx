@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import type { BiomeData } from '../types/biome';
+import {
+    cancelGenerationTask, clearFinishedGenerationTasks, dismissGenerationTask, getGenerationTasks,
+    retryGenerationTask, subscribeToGenerationTasks, type GenerationTask
+} from '../services/generationTasks';
+import { cancelMeshyJob, getMeshyJobs, removeMeshyJob, retryMeshyJob, subscribeToMeshyJobs, type MeshyJob } from '../services/meshy';
+
+// Meshy jobs persist across reloads; ones that succeeded in an earlier session aren't news
+const PAGE_LOADED_AT = Date.now();
+
+const STATUS_COLORS: Record<string, string> = {
+    queued: '#888',
+    running: '#ff0',
+    preview: '#ff0',
+    refine: '#ff0',
+    succeeded: '#0f8',
+    failed: '#f55',
+    cancelled: '#f0f'
+};
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const isMeshyJobActive = (job: MeshyJob) => job.stage === 'queued' || job.stage === 'preview' || job.stage === 'refine';
+
+const actionStyle = (color: string): React.CSSProperties => ({
+    background: 'none', border: `1px solid ${color}`, color, cursor: 'pointer',
+    fontFamily: 'monospace', fontSize: 10, padding: '1px 6px', textTransform: 'uppercase'
+});
+
+interface RowProps {
+    label: string;
+    status: string;
+    elapsed: number;
+    progress?: number;
+    error?: string;
+    onCancel?: () => void;
+    onRetry?: () => void;
+    onDismiss?: () => void;
+}
+
+const TaskRow: React.FC<RowProps> = ({ label, status, elapsed, progress, error, onCancel, onRetry, onDismiss }) => (
+    <div style={{ padding: '6px 0', borderTop: '1px solid rgba(0, 255, 255, 0.2)' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={label}>{label}</span>
+            <span style={{ color: STATUS_COLORS[status] ?? '#fff' }}>
+                {status.toUpperCase()}{progress !== undefined && ` ${Math.round(progress)}%`}
+            </span>
+            <span style={{ opacity: 0.6, minWidth: 48, textAlign: 'right' }}>{formatElapsed(elapsed)}</span>
+        </div>
+        {error && status === 'failed' && (
+            <div style={{ color: '#f55', fontSize: 10, marginTop: 3, wordBreak: 'break-word' }}>{error}</div>
+        )}
+        {(onCancel || onRetry || onDismiss) && (
+            <div style={{ display: 'flex', gap: 6, marginTop: 4 }}>
+                {onCancel && <button style={actionStyle('#f0f')} onClick={onCancel}>Cancel</button>}
+                {onRetry && <button style={actionStyle('#0ff')} onClick={onRetry}>Retry</button>}
+                {onDismiss && <button style={actionStyle('#888')} onClick={onDismiss}>Dismiss</button>}
+            </div>
+        )}
+    </div>
+);
+
+/**
+ * Lists every AI generation of this session: the biome steps, the music and each Meshy prop,
+ * with cancel and retry controls.
+ */
+export const GenerationDashboard: React.FC<{ biome: BiomeData }> = ({ biome }) => {
+    const [tasks, setTasks] = useState<GenerationTask[]>(getGenerationTasks);
+    const [jobs, setJobs] = useState<MeshyJob[]>(getMeshyJobs);
+    const [isOpen, setIsOpen] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => subscribeToGenerationTasks(setTasks), []);
+    useEffect(() => subscribeToMeshyJobs(setJobs), []);
+
+    const visibleJobs = jobs.filter(job => job.stage !== 'succeeded' || job.updatedAt >= PAGE_LOADED_AT);
+    const runningCount = tasks.filter(t => t.status === 'running').length + visibleJobs.filter(isMeshyJobActive).length;
+    const failedCount = tasks.filter(t => t.status === 'failed').length + visibleJobs.filter(j => j.stage === 'failed').length;
+
+    // Elapsed times only move while something is running
+    useEffect(() => {
+        if (runningCount === 0) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [runningCount]);
+
+    const propNames = new Map(biome.props.map(prop => [prop.prompt, prop.name]));
+    const clearFinished = () => {
+        clearFinishedGenerationTasks();
+        visibleJobs.filter(job => job.stage === 'succeeded' || job.stage === 'cancelled').forEach(job => removeMeshyJob(job.prompt));
+    };
+
+    const total = tasks.length + visibleJobs.length;
+    const summary = runningCount > 0 ? `${runningCount} RUNNING` : failedCount > 0 ? `${failedCount} FAILED` : 'IDLE';
+
+    return (
+        <div
+            onMouseDown={e => e.stopPropagation()}
+            onPointerDown={e => e.stopPropagation()}
+            onMouseUp={e => e.stopPropagation()}
+            onPointerUp={e => e.stopPropagation()}
+            onClick={e => e.stopPropagation()}
+            style={{
+                position: 'absolute', bottom: 75, right: 20, zIndex: 9999,
+                width: isOpen ? 340 : 'auto', maxHeight: '60vh', overflowY: 'auto',
+                background: 'rgba(0,0,0,0.8)', padding: '10px 15px', borderRadius: '5px', color: '#fff',
+                fontFamily: 'monospace', fontSize: 12,
+                border: '1px solid ' + (runningCount > 0 ? '#ff0' : failedCount > 0 ? '#f55' : '#0ff'),
+                pointerEvents: 'auto'
+            }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 10, cursor: 'pointer' }} onClick={() => setIsOpen(open => !open)}>
+                <span style={{ flex: 1 }}>GEN_TASKS [{summary}]</span>
+                <span style={{ opacity: 0.6 }}>{isOpen ? '▾' : '▸'}</span>
+            </div>
+
+            {isOpen && (
+                <>
+                    {total === 0 && <div style={{ opacity: 0.6, marginTop: 8 }}>No generations this session.</div>}
+
+                    {tasks.map(task => (
+                        <TaskRow
+                            key={task.id}
+                            label={task.label}
+                            status={task.status}
+                            elapsed={(task.finishedAt ?? now) - task.startedAt}
+                            error={task.error}
+                            onCancel={task.status === 'running' ? () => cancelGenerationTask(task.id) : undefined}
+                            onRetry={task.canRetry && (task.status === 'failed' || task.status === 'cancelled') ? () => retryGenerationTask(task.id) : undefined}
+                            onDismiss={task.status === 'failed' ? () => dismissGenerationTask(task.id) : undefined}
+                        />
+                    ))}
+
+                    {visibleJobs.map(job => {
+                        const active = isMeshyJobActive(job);
+                        return (
+                            <TaskRow
+                                key={job.prompt}
+                                label={`Prop: ${propNames.get(job.prompt) ?? job.prompt}`}
+                                status={job.stage}
+                                elapsed={(active ? now : job.updatedAt) - job.createdAt}
+                                progress={active && job.stage !== 'queued' ? job.progress : undefined}
+                                error={job.error}
+                                onCancel={active ? () => cancelMeshyJob(job.prompt) : undefined}
+                                onRetry={job.stage === 'failed' || job.stage === 'cancelled' ? () => retryMeshyJob(job.prompt) : undefined}
+                                onDismiss={job.stage === 'failed' ? () => removeMeshyJob(job.prompt) : undefined}
+                            />
+                        );
+                    })}
+
+                    {total > 0 && (
+                        <button style={{ ...actionStyle('#888'), marginTop: 8 }} onClick={clearFinished}>Clear finished</button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
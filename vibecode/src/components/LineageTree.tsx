@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { fetchGalleryLineage, type GalleryLineageNode, type SavedBiome } from '../services/gallery';
+
+interface LineageTreeProps {
+    entry: SavedBiome;
+    onLoad: (biome: SavedBiome) => void;
+    onFork: (biome: SavedBiome) => void;
+    onClose: () => void;
+}
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+    background: 'none', border: `1px solid ${color}`, color, padding: '2px 8px', cursor: 'pointer',
+    fontFamily: 'inherit', fontSize: '0.7rem', textTransform: 'uppercase'
+});
+
+const LineageBranch: React.FC<{ node: GalleryLineageNode; currentId?: string; onLoad: (biome: SavedBiome) => void; onFork: (biome: SavedBiome) => void }> = ({ node, currentId, onLoad, onFork }) => {
+    const { biome } = node;
+    const isCurrent = biome.firestoreId === currentId;
+    return (
+        <div style={{ borderLeft: '1px solid #333', paddingLeft: '12px', marginTop: '8px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.8rem' }}>
+                <span style={{ flex: 1, color: isCurrent ? '#0f8' : 'white' }}>
+                    {biome.name}
+                    <span style={{ color: '#888', fontSize: '0.7rem' }}>
+                        {' · '}{biome.lineage ? `GEN ${biome.lineage.depth}` : 'ORIGINAL'}
+                        {' · '}{new Date(biome.timestamp).toLocaleDateString()}
+                    </span>
+                </span>
+                <button style={buttonStyle('#00ffff')} onClick={() => onLoad(biome)}>Load</button>
+                <button style={buttonStyle('#ff00ff')} onClick={() => onFork(biome)}>Fork</button>
+            </div>
+            {node.children.map(child => (
+                <LineageBranch key={child.biome.firestoreId} node={child} currentId={currentId} onLoad={onLoad} onFork={onFork} />
+            ))}
+        </div>
+    );
+};
+
+/**
+ * The family tree of a gallery entry: the original world and every fork made from it or its forks.
+ */
+export const LineageTree: React.FC<LineageTreeProps> = ({ entry, onLoad, onFork, onClose }) => {
+    const [roots, setRoots] = useState<GalleryLineageNode[] | null>(null);
+
+    useEffect(() => {
+        fetchGalleryLineage(entry)
+            .then(setRoots)
+            .catch(err => {
+                console.error("Failed to fetch lineage:", err);
+                setRoots([]);
+            });
+    }, [entry]);
+
+    return (
+        <div style={{
+            position: 'absolute', top: 0, right: 0, width: 'min(520px, 100%)', height: '100%', boxSizing: 'border-box',
+            background: '#0b0b0b', borderLeft: '1px solid #ff00ff', padding: '30px', overflowY: 'auto', zIndex: 1
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+                <h2 style={{ margin: 0, color: '#ff00ff', fontSize: '1.2rem' }}>{entry.name} · LINEAGE</h2>
+                <button onClick={onClose} style={{ background: 'none', border: 'none', color: 'white', fontSize: '20px', cursor: 'pointer' }}>✕</button>
+            </div>
+
+            {roots === null && <div>Tracing Ancestry...</div>}
+            {roots?.length === 0 && <div style={{ opacity: 0.7 }}>No related worlds found.</div>}
+            {roots?.map(root => (
+                <LineageBranch key={root.biome.firestoreId} node={root} currentId={entry.firestoreId} onLoad={onLoad} onFork={onFork} />
+            ))}
+        </div>
+    );
+};
@@ -1,20 +1,171 @@
-import React, { useMemo, useState, useEffect, useRef } from 'react';
+import React, { useMemo, useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { useGLTF } from '@react-three/drei';
+import { useThree } from '@react-three/fiber';
 import type { PropDefinition } from '../types/biome';
-import { generate3DModel } from '../services/meshy';
+import { generate3DModel, subscribeToMeshyJobs } from '../services/meshy';
+import { getCachedImpostor, saveCachedImpostor } from '../services/impostorCache';
+import {
+    DECIMATION_CELLS,
+    IMPOSTOR_TIER,
+    IMPOSTOR_TILE_SIZE,
+    createImpostorGeometry,
+    decimateGeometry,
+    renderImpostorPixels,
+    type ImpostorBounds,
+    type PropPart
+} from '../utils/propLod';
+import { createWindMaterial } from '../utils/wind';
+import { fitColliderShape, propColliders, type PropCollider, type PropColliderShape } from '../utils/propColliders';
 import * as THREE from 'three';
 
+export interface PropPlacement {
+    position: [number, number, number]; // Relative to the parent group
+    normal: [number, number, number]; // Up direction the model is aligned to
+    seed: number; // Drives the random Y rotation
+}
+
 interface MeshyPropProps {
     prop: PropDefinition;
-    position: [number, number, number];
-    normal: [number, number, number];
-    seed: number;
+    placements: PropPlacement[];
+    tier?: number; // Detail level picked by the caller from distance; see selectPropTier
 }
 
 // Global cache to avoid re-generating the same prompt in the same session
 export const modelCache: Record<string, string> = {};
 
-export const MeshyProp: React.FC<MeshyPropProps> = ({ prop, position, normal, seed }) => {
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Apply Vite CORS proxy if needed
+const proxyMeshyUrl = (url: string) => url.includes('assets.meshy.ai')
+    ? url.replace('https://assets.meshy.ai', '/meshy-assets')
+    : url;
+
+interface PropLods {
+    tiers: PropPart[][]; // Full model first, then each decimation that was worth keeping
+    bounds: ImpostorBounds;
+    collider: PropColliderShape;
+}
+
+// Built once per model URL and shared by every chunk's batch
+const lodCache = new Map<string, PropLods>();
+const impostorCache = new Map<string, Promise<PropPart | null>>();
+// Wind-patched materials per part and flexibility, since props sharing a model may bend differently
+const swayCache = new WeakMap<PropPart, Map<number, { material: THREE.Material | THREE.Material[]; depthMaterial: THREE.Material }>>();
+
+/**
+ * Splits a loaded model into its meshes in model space, with the lowest point on the ground,
+ * and derives the decimated tiers from them.
+ */
+function getPropLods(url: string, scene: THREE.Object3D): PropLods {
+    const cached = lodCache.get(url);
+    if (cached) return cached;
+
+    scene.updateMatrixWorld(true);
+
+    // Offset so the lowest point of the model is at local origin (0,0,0)
+    // Add a tiny sink (-0.05) to ensure it clips into the ground slightly
+    const box = new THREE.Box3().setFromObject(scene);
+    const base = new THREE.Matrix4().makeTranslation(0, -(box.min.y + 0.05), 0);
+
+    // Each mesh's transform in model space, including the scene root's own transform
+    const full: PropPart[] = [];
+    scene.traverse((obj) => {
+        if (obj instanceof THREE.Mesh) {
+            full.push({ geometry: obj.geometry, material: obj.material, local: base.clone().multiply(obj.matrixWorld) });
+        }
+    });
+
+    const size = box.getSize(new THREE.Vector3());
+    const tiers = [full];
+    DECIMATION_CELLS.forEach(cells => {
+        const cellSize = Math.max(size.x, size.y, size.z) / cells;
+        const previous = tiers[tiers.length - 1];
+        // Decimate in model space so every mesh shares one grid
+        const decimated = previous.map(part => {
+            const placed = part.geometry.clone().applyMatrix4(part.local);
+            const geometry = decimateGeometry(placed, cellSize);
+            placed.dispose();
+            return geometry && { geometry, material: part.material, local: new THREE.Matrix4() };
+        });
+        if (decimated.every(part => part !== null)) tiers.push(decimated as PropPart[]);
+        else decimated.forEach(part => part?.geometry.dispose());
+    });
+
+    const bounds = {
+        radius: Math.max(Math.abs(box.min.x), Math.abs(box.max.x), Math.abs(box.min.z), Math.abs(box.max.z)),
+        minY: -0.05,
+        maxY: size.y - 0.05
+    };
+    const lods: PropLods = { tiers, bounds, collider: fitColliderShape(full, bounds.minY, bounds.maxY) };
+    lodCache.set(url, lods);
+    return lods;
+}
+
+/**
+ * A part's materials patched to sway, plus a matching depth material so its shadow sways too.
+ */
+function getSwayingMaterials(part: PropPart, modelHeight: number, flexibility: number) {
+    let byFlexibility = swayCache.get(part);
+    if (!byFlexibility) {
+        byFlexibility = new Map();
+        swayCache.set(part, byFlexibility);
+    }
+    let sway = byFlexibility.get(flexibility);
+    if (!sway) {
+        const patch = (material: THREE.Material) => createWindMaterial(material, modelHeight, part.local, flexibility);
+        const first = (Array.isArray(part.material) ? part.material[0] : part.material) as THREE.MeshStandardMaterial;
+        // Keeps alpha-tested leaves and impostors from casting solid rectangles
+        const depth = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking, map: first.map ?? null, alphaTest: first.alphaTest });
+        sway = {
+            material: Array.isArray(part.material) ? part.material.map(patch) : patch(part.material),
+            depthMaterial: patch(depth)
+        };
+        depth.dispose();
+        byFlexibility.set(flexibility, sway);
+    }
+    return sway;
+}
+
+/**
+ * The billboard tier: read from IndexedDB when this model was captured before, otherwise
+ * rendered offscreen from the full model and stored for next time.
+ */
+function loadImpostor(url: string, lods: PropLods, renderer: THREE.WebGLRenderer): Promise<PropPart | null> {
+    let pending = impostorCache.get(url);
+    if (!pending) {
+        pending = getCachedImpostor(url)
+            .catch(err => {
+                console.warn('[MeshyProp] Impostor cache unavailable:', err);
+                return null;
+            })
+            .then(record => {
+                if (!record) {
+                    const pixels = renderImpostorPixels(renderer, lods.tiers[0], lods.bounds);
+                    record = { width: IMPOSTOR_TILE_SIZE * 2, height: IMPOSTOR_TILE_SIZE, pixels };
+                    saveCachedImpostor(url, record).catch(err => console.warn('[MeshyProp] Failed to cache impostor:', err));
+                }
+                const texture = new THREE.DataTexture(record.pixels, record.width, record.height, THREE.RGBAFormat);
+                texture.magFilter = THREE.LinearFilter;
+                texture.minFilter = THREE.LinearMipmapLinearFilter;
+                texture.generateMipmaps = true;
+                texture.needsUpdate = true;
+                const material = new THREE.MeshStandardMaterial({ map: texture, alphaTest: 0.5, side: THREE.DoubleSide, roughness: 1 });
+                return { geometry: createImpostorGeometry(lods.bounds), material, local: new THREE.Matrix4() };
+            })
+            .catch(err => {
+                console.error('[MeshyProp] Impostor capture failed:', err);
+                return null;
+            });
+        impostorCache.set(url, pending);
+    }
+    return pending;
+}
+
+/**
+ * Every placement of one prop definition, drawn as instanced batches.
+ * Generates the model on first use; until it arrives each placement shows a placeholder.
+ */
+export const MeshyProp: React.FC<MeshyPropProps> = ({ prop, placements, tier = 0 }) => {
     // Priority: 1. prop.url (loaded from database), 2. modelCache (cached in session)
     const [glbUrl, setGlbUrl] = useState<string | null>(prop.url || modelCache[prop.prompt] || null);
     const [isGenerating, setIsGenerating] = useState(false);
@@ -37,11 +188,7 @@ export const MeshyProp: React.FC<MeshyPropProps> = ({ prop, position, normal, se
 
         generate3DModel(prop.prompt)
             .then(url => {
-                // Apply Vite CORS proxy if needed
-                const proxiedUrl = url.includes('assets.meshy.ai')
-                    ? url.replace('https://assets.meshy.ai', '/meshy-assets')
-                    : url;
-
+                const proxiedUrl = proxyMeshyUrl(url);
                 modelCache[prop.prompt] = proxiedUrl;
                 setGlbUrl(proxiedUrl);
                 setIsGenerating(false);
@@ -53,66 +200,172 @@ export const MeshyProp: React.FC<MeshyPropProps> = ({ prop, position, normal, se
             });
     }, [prop.prompt, glbUrl]);
 
+    // Follow the job while there's no model, so a retry or cancel from the dashboard shows up here
+    const waiting = !glbUrl && (isGenerating || error !== null);
+    useEffect(() => {
+        if (!waiting) return;
+        return subscribeToMeshyJobs(jobs => {
+            const job = jobs.find(j => j.prompt === prop.prompt);
+            if (!job) return;
+            if (job.stage === 'succeeded' && job.resultUrl) {
+                const proxiedUrl = proxyMeshyUrl(job.resultUrl);
+                modelCache[prop.prompt] = proxiedUrl;
+                setGlbUrl(proxiedUrl);
+                setIsGenerating(false);
+                setError(null);
+            } else if (job.stage === 'failed' || job.stage === 'cancelled') {
+                setIsGenerating(false);
+                setError(job.error || job.stage);
+            } else {
+                setIsGenerating(true);
+                setError(null);
+            }
+        });
+    }, [waiting, prop.prompt]);
+
+    if (placements.length === 0) return null;
+
     return (
-        <group position={position}>
-            {glbUrl && <PropModel url={glbUrl} scale={prop.baseScale} normal={normal} seed={seed} />}
+        <group>
+            {glbUrl && (
+                <PropInstances
+                    url={glbUrl}
+                    scale={prop.baseScale}
+                    placements={placements}
+                    tier={tier}
+                    // Unset rigidity keeps props still, as before wind existed
+                    flexibility={1 - THREE.MathUtils.clamp(prop.rigidity ?? 1, 0, 1)}
+                    collidable={prop.collidable !== false}
+                />
+            )}
             {isGenerating && (
-                <mesh position={[0, prop.baseScale / 2, 0]}>
+                <MarkerInstances placements={placements} lift={prop.baseScale / 2}>
                     <sphereGeometry args={[prop.baseScale / 4, 16, 16]} />
                     <meshStandardMaterial color="cyan" emissive="cyan" emissiveIntensity={2} wireframe />
-                </mesh>
+                </MarkerInstances>
             )}
             {error && (
-                <mesh position={[0, prop.baseScale / 2, 0]}>
+                <MarkerInstances placements={placements} lift={prop.baseScale / 2}>
                     <boxGeometry args={[0.5, 0.5, 0.5]} />
                     <meshStandardMaterial color="red" />
-                </mesh>
+                </MarkerInstances>
             )}
         </group>
     );
 };
 
-function PropModel({ url, scale, normal, seed }: { url: string; scale: number; normal: [number, number, number]; seed: number }) {
+/**
+ * One marker per placement, raised straight up by `lift`, in a single instanced draw.
+ */
+function MarkerInstances({ placements, lift, children }: { placements: PropPlacement[]; lift: number; children: React.ReactNode }) {
+    const ref = useRef<THREE.InstancedMesh>(null);
+
+    useLayoutEffect(() => {
+        const mesh = ref.current;
+        if (!mesh) return;
+        const matrix = new THREE.Matrix4();
+        placements.forEach((p, i) => {
+            mesh.setMatrixAt(i, matrix.makeTranslation(p.position[0], p.position[1] + lift, p.position[2]));
+        });
+        mesh.instanceMatrix.needsUpdate = true;
+        mesh.computeBoundingSphere();
+    }, [placements, lift]);
+
+    return (
+        // Keyed by count, since an InstancedMesh can't grow after creation
+        <instancedMesh key={placements.length} ref={ref} args={[undefined, undefined, placements.length]}>
+            {children}
+        </instancedMesh>
+    );
+}
+
+/**
+ * Draws each mesh of the model's current tier once per placement with an InstancedMesh, sharing
+ * the cached tier geometry and materials instead of cloning the scene for every prop.
+ * Instance matrices reproduce the old per-prop pivot: the model's lowest point on the ground
+ * (sunk slightly), a random Y rotation, then up aligned to the placement normal.
+ * Until the impostor is ready the impostor tier falls back to the coarsest decimation.
+ * Flexible props swap in wind-patched copies of the materials.
+ */
+function PropInstances({ url, scale, placements, tier, flexibility, collidable }: {
+    url: string;
+    scale: number;
+    placements: PropPlacement[];
+    tier: number;
+    flexibility: number; // 0 stays still, 1 sways fully in the wind
+    collidable: boolean;
+}) {
     const { scene } = useGLTF(url);
+    const gl = useThree(state => state.gl);
+    const lods = useMemo(() => getPropLods(url, scene), [url, scene]);
+    const [impostor, setImpostor] = useState<PropPart | null>(null);
 
-    const processedScene = useMemo(() => {
-        const s = scene.clone();
-
-        // 1. Calculate Bounding Box to find the base
-        const box = new THREE.Box3().setFromObject(s);
-        const center = new THREE.Vector3();
-        box.getCenter(center);
-
-        // Offset so the lowest point of the model is at local origin (0,0,0)
-        // Add a tiny sink (-0.05) to ensure it clips into the ground slightly
-        s.position.y -= (box.min.y + 0.05);
-
-        // 2. Wrap in a sub-group so we can rotate the sub-group without affecting position offset
-        const pivot = new THREE.Group();
-        pivot.add(s);
-
-        // 3. Apply random Y rotation for variety
-        const randomY = (Math.sin(seed * 43758.5453123) % 1) * Math.PI * 2;
-        pivot.rotation.y = randomY;
-
-        // 4. Align pivot to terrain normal
-        const normalVec = new THREE.Vector3(...normal).normalize();
-        const up = new THREE.Vector3(0, 1, 0);
-        const quaternion = new THREE.Quaternion().setFromUnitVectors(up, normalVec);
-        pivot.quaternion.premultiply(quaternion);
-
-        // 5. Setup shadows and disable raycasting (hitbox)
-        s.traverse((obj) => {
-            if (obj instanceof THREE.Mesh) {
-                obj.castShadow = true;
-                obj.receiveShadow = true;
-                // Disable raycasting so the player doesn't "teleport" on top of the prop
-                obj.raycast = () => { };
-            }
+    useEffect(() => {
+        let active = true;
+        loadImpostor(url, lods, gl).then(part => {
+            if (active) setImpostor(part);
+        });
+        return () => { active = false; };
+    }, [url, lods, gl]);
+
+    const placementMatrices = useMemo(() => placements.map(p => {
+        const randomY = (Math.sin(p.seed * 43758.5453123) % 1) * Math.PI * 2;
+        const align = new THREE.Quaternion().setFromUnitVectors(UP, new THREE.Vector3(...p.normal).normalize());
+        const rotation = new THREE.Quaternion().setFromAxisAngle(UP, randomY).premultiply(align);
+        return new THREE.Matrix4().compose(new THREE.Vector3(...p.position), rotation, new THREE.Vector3(scale, scale, scale));
+    }), [placements, scale]);
+
+    const meshes = useMemo(() => {
+        const parts = tier >= IMPOSTOR_TIER && impostor
+            ? [impostor]
+            : lods.tiers[Math.min(tier, lods.tiers.length - 1)];
+
+        const matrix = new THREE.Matrix4();
+        return parts.map(part => {
+            const sway = flexibility > 0 ? getSwayingMaterials(part, lods.bounds.maxY - lods.bounds.minY, flexibility) : null;
+            const mesh = new THREE.InstancedMesh(part.geometry, sway ? sway.material : part.material, placementMatrices.length);
+            if (sway) mesh.customDepthMaterial = sway.depthMaterial;
+            placementMatrices.forEach((placement, i) => {
+                mesh.setMatrixAt(i, matrix.multiplyMatrices(placement, part.local));
+            });
+            mesh.instanceMatrix.needsUpdate = true;
+            mesh.computeBoundingSphere();
+            mesh.castShadow = true;
+            mesh.receiveShadow = true;
+            // Disable raycasting so the player doesn't "teleport" on top of the prop
+            mesh.raycast = () => { };
+            return mesh;
+        });
+    }, [lods, impostor, tier, flexibility, placementMatrices]);
+
+    // One cylinder per placement, in world space, for the player to collide with
+    const groupRef = useRef<THREE.Group>(null);
+    useEffect(() => {
+        const group = groupRef.current;
+        if (!collidable || !group) return;
+        group.updateWorldMatrix(true, false);
+
+        const { centerX, centerZ, radius, height } = lods.collider;
+        const colliders = placementMatrices.map((placement): PropCollider => {
+            const world = group.matrixWorld.clone().multiply(placement);
+            return {
+                base: new THREE.Vector3(centerX, 0, centerZ).applyMatrix4(world),
+                axis: new THREE.Vector3(0, 1, 0).transformDirection(world),
+                radius: radius * scale,
+                height: height * scale
+            };
         });
+        return propColliders.add(colliders);
+    }, [collidable, lods, placementMatrices, scale]);
 
-        return pivot;
-    }, [scene, normal, seed]);
+    // Geometry and materials belong to the shared tiers; only the instance buffers are ours to free
+    useEffect(() => {
+        return () => meshes.forEach(mesh => mesh.dispose());
+    }, [meshes]);
 
-    return <primitive object={processedScene} scale={[scale, scale, scale]} />;
+    return (
+        <group ref={groupRef}>
+            {meshes.map(mesh => <primitive key={mesh.uuid} object={mesh} />)}
+        </group>
+    );
 }
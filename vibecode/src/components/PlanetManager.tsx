@@ -0,0 +1,270 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Terrain } from './Terrain';
+import { MeshyProp, type PropPlacement } from './MeshyProp';
+import type { BiomeData, PropDefinition } from '../types/biome';
+import { CHUNK_SIZE, getLodForRing, getPlanetChunkDirection, getPlanetChunksPerFace } from '../utils/chunkGeometry';
+import { CUBE_FACES, getFaceDirection, type PlanetHeightfield, type Vec3 } from '../utils/planet';
+import { chunkWorkerPool } from '../workers/chunkWorkerPool';
+import { LIQUID_PROPERTIES, resolveLiquid } from '../utils/liquid';
+import { hashString, placeChunkProps, type PlacementChunk, type PlacementSurface } from '../utils/propPlacement';
+import { selectPropTier } from '../utils/propLod';
+
+interface PlanetManagerProps {
+    biome: BiomeData;
+    planet: PlanetHeightfield;
+}
+
+interface PlanetChunkEntry {
+    key: string;
+    face: number;
+    i: number;
+    j: number;
+    center: Vec3; // Chunk centre on the sea-level sphere
+    ring: number; // Camera distance in chunk widths
+    lod: number;
+}
+
+// Props stay limited to chunks this many widths from the camera, as on flat worlds
+const PROP_RADIUS = 4;
+// Atmosphere shell radius relative to the planet
+const ATMOSPHERE_SCALE = 1.25;
+// Altitude, as a fraction of the radius, over which the sky fades to space
+const SPACE_ALTITUDE = 0.5;
+
+const PlanetProps = ({ biome, planet, face, chunkI, chunkJ, chunksPerFace }: {
+    biome: BiomeData;
+    planet: PlanetHeightfield;
+    face: number;
+    chunkI: number;
+    chunkJ: number;
+    chunksPerFace: number;
+}) => {
+    const [tier, setTier] = useState(0);
+    const center = useMemo(() => {
+        const dir = getPlanetChunkDirection({ radius: planet.radius, face, chunksPerFace }, chunkI, chunkJ);
+        return new THREE.Vector3(...dir).multiplyScalar(planet.radius);
+    }, [planet.radius, face, chunkI, chunkJ, chunksPerFace]);
+
+    useFrame(({ camera }) => {
+        const next = selectPropTier(Math.max(0, camera.position.distanceTo(center) - CHUNK_SIZE / 2), tier);
+        if (next !== tier) setTier(next);
+    });
+
+    const batches = useMemo(() => {
+        const batches = new Map<string, { prop: PropDefinition; placements: PropPlacement[] }>();
+        const step = 2 / chunksPerFace;
+
+        // Chunk-local units map onto the face so a chunk spans about CHUNK_SIZE, as on flat worlds
+        const directionOn = (i: number, j: number) => (x: number, z: number) => getFaceDirection(
+            face,
+            -1 + (i + 0.5 + x / CHUNK_SIZE) * step,
+            -1 + (j + 0.5 + z / CHUNK_SIZE) * step
+        );
+        const toDirection = directionOn(chunkI, chunkJ);
+        // Neighbours on the same face, for spacing across chunk borders. Local units don't line up
+        // across a cube edge, so props on different faces aren't checked against each other.
+        const chunkAt = (i: number, j: number): PlacementChunk | null => {
+            if (i < 0 || j < 0 || i >= chunksPerFace || j >= chunksPerFace) return null;
+            const direction = directionOn(i, j);
+            const surface: PlacementSurface = {
+                waterLevel: biome.terrain.waterLevel,
+                getSite: (x, z) => {
+                    const dir = direction(x, z);
+                    const normal = planet.getNormal(dir[0], dir[1], dir[2]);
+                    const up = normal[0] * dir[0] + normal[1] * dir[1] + normal[2] * dir[2];
+                    return {
+                        height: planet.getElevation(dir[0], dir[1], dir[2]),
+                        normal,
+                        slope: THREE.MathUtils.radToDeg(Math.acos(THREE.MathUtils.clamp(up, -1, 1)))
+                    };
+                },
+                getHeight: (x, z) => {
+                    const dir = direction(x, z);
+                    return planet.getElevation(dir[0], dir[1], dir[2]);
+                }
+            };
+            return { seedFor: propIndex => hashString(biome.name) + (propIndex * 1000) + face * 7919 + i * 31 + j * 17, surface };
+        };
+
+        const { seedFor, surface } = chunkAt(chunkI, chunkJ)!;
+        const placed = placeChunkProps(biome.props, seedFor, CHUNK_SIZE, surface, (di, dj) => chunkAt(chunkI + di, chunkJ + dj));
+
+        biome.props.forEach((prop, propIndex) => {
+            if (!batches.has(prop.id)) batches.set(prop.id, { prop, placements: [] });
+            batches.get(prop.id)!.placements.push(...placed[propIndex].map(p => {
+                const dir = toDirection(p.x, p.z);
+                const r = planet.radius + p.site.height;
+                return {
+                    position: [dir[0] * r, dir[1] * r, dir[2] * r] as Vec3,
+                    // Props stand along the local up rather than the slope
+                    normal: dir,
+                    seed: p.seed
+                };
+            }));
+        });
+        return [...batches.values()];
+    }, [biome, planet, face, chunkI, chunkJ, chunksPerFace]);
+
+    return (
+        <group>
+            {batches.map(b => (
+                <MeshyProp key={b.prop.id} prop={b.prop} placements={b.placements} tier={tier} />
+            ))}
+        </group>
+    );
+};
+
+const atmosphereVertexShader = `
+    varying vec3 vViewNormal;
+
+    void main() {
+        vViewNormal = normalize(normalMatrix * normal);
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+`;
+
+const atmosphereFragmentShader = `
+    uniform vec3 uColor;
+    varying vec3 vViewNormal;
+
+    void main() {
+        // Only the far side of the shell is drawn, so the glow peaks where it grazes the planet's limb
+        float glow = pow(clamp(-vViewNormal.z, 0.0, 1.0), 1.5);
+        gl_FragColor = vec4(uColor * glow, glow);
+
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+    }
+`;
+
+/**
+ * Sky-coloured halo around the planet, and the background fading to black as the camera climbs out of it.
+ */
+const PlanetAtmosphere = ({ radius, skyColor, waterLevel }: { radius: number; skyColor: string; waterLevel: number }) => {
+    const material = useMemo(() => new THREE.ShaderMaterial({
+        uniforms: { uColor: { value: new THREE.Color(skyColor) } },
+        vertexShader: atmosphereVertexShader,
+        fragmentShader: atmosphereFragmentShader,
+        side: THREE.BackSide,
+        transparent: true,
+        depthWrite: false,
+        blending: THREE.AdditiveBlending
+    }), [skyColor]);
+
+    const sky = useMemo(() => new THREE.Color(skyColor), [skyColor]);
+    const space = useMemo(() => new THREE.Color('#000000'), []);
+    const background = useRef<THREE.Color | null>(null);
+
+    // Hand the plain sky colour back when leaving the planet
+    useEffect(() => () => {
+        background.current?.copy(sky);
+    }, [sky]);
+
+    useFrame(({ scene, camera }) => {
+        const distance = camera.position.length();
+        // Underwater owns the background while submerged
+        if (distance < radius + waterLevel) return;
+        if (scene.background instanceof THREE.Color) {
+            background.current = scene.background;
+            const t = THREE.MathUtils.clamp((distance - radius) / (radius * SPACE_ALTITUDE), 0, 1);
+            scene.background.copy(sky).lerp(space, t);
+        }
+    });
+
+    return (
+        <mesh material={material} renderOrder={-1}>
+            <sphereGeometry args={[radius * ATMOSPHERE_SCALE, 64, 48]} />
+        </mesh>
+    );
+};
+
+/**
+ * Renders a spherical world: every cube-face chunk is always mounted so the whole planet is visible
+ * from orbit, with LOD picked from the distance to the camera. Props, an ocean sphere at waterLevel
+ * and an atmosphere shell complete it.
+ */
+export const PlanetManager = React.forwardRef<THREE.Group, PlanetManagerProps>(({ biome, planet }, ref) => {
+    const chunksPerFace = getPlanetChunksPerFace(planet.radius);
+    const [chunks, setChunks] = useState<PlanetChunkEntry[]>([]);
+
+    const layout = useMemo(() => {
+        const entries: Omit<PlanetChunkEntry, 'ring' | 'lod'>[] = [];
+        CUBE_FACES.forEach((_, face) => {
+            for (let i = 0; i < chunksPerFace; i++) {
+                for (let j = 0; j < chunksPerFace; j++) {
+                    const dir = getPlanetChunkDirection({ radius: planet.radius, face, chunksPerFace }, i, j);
+                    entries.push({
+                        key: `${face}:${i},${j}`,
+                        face,
+                        i,
+                        j,
+                        center: [dir[0] * planet.radius, dir[1] * planet.radius, dir[2] * planet.radius]
+                    });
+                }
+            }
+        });
+        return entries;
+    }, [planet.radius, chunksPerFace]);
+
+    useFrame(({ camera }) => {
+        const { x, y, z } = camera.position;
+        // Nearest chunks get built first
+        chunkWorkerPool.setFocus(x, z, y);
+
+        const newChunks = layout.map(entry => {
+            const ring = Math.round(Math.hypot(entry.center[0] - x, entry.center[1] - y, entry.center[2] - z) / CHUNK_SIZE);
+            return { ...entry, ring, lod: getLodForRing(ring) };
+        });
+
+        setChunks(prev => {
+            const prevKeys = prev.map(c => `${c.key}@${c.lod}@${c.ring <= PROP_RADIUS}`).join('|');
+            const newKeys = newChunks.map(c => `${c.key}@${c.lod}@${c.ring <= PROP_RADIUS}`).join('|');
+            if (prevKeys === newKeys) return prev;
+            return newChunks;
+        });
+    });
+
+    const liquid = resolveLiquid(biome);
+    const waterLevel = biome.terrain.waterLevel;
+
+    return (
+        <group ref={ref}>
+            {chunks.map(chunk => (
+                <group key={chunk.key}>
+                    <Terrain
+                        data={biome.terrain}
+                        chunkX={chunk.i}
+                        chunkZ={chunk.j}
+                        lod={chunk.lod}
+                        planet={{ radius: planet.radius, face: chunk.face, chunksPerFace }}
+                    />
+                    {chunk.ring <= PROP_RADIUS && (
+                        <PlanetProps
+                            biome={biome}
+                            planet={planet}
+                            face={chunk.face}
+                            chunkI={chunk.i}
+                            chunkJ={chunk.j}
+                            chunksPerFace={chunksPerFace}
+                        />
+                    )}
+                </group>
+            ))}
+            <mesh>
+                <sphereGeometry args={[planet.radius + waterLevel, 128, 96]} />
+                <meshStandardMaterial
+                    color={liquid.color}
+                    emissive={liquid.color}
+                    emissiveIntensity={LIQUID_PROPERTIES[liquid.type].emissive}
+                    transparent
+                    opacity={0.8}
+                    roughness={0.15}
+                    side={THREE.DoubleSide}
+                />
+            </mesh>
+            <PlanetAtmosphere radius={planet.radius} skyColor={biome.atmosphere.skyColor} waterLevel={waterLevel} />
+        </group>
+    );
+});
@@ -2,20 +2,29 @@ import { useRef, useEffect } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import { PointerLockControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { Group, Vector3, Raycaster } from 'three';
+import { Vector3 } from 'three';
+import type { Heightfield } from '../utils/heightfield';
+import type { PlanetHeightfield } from '../utils/planet';
+import { queryGround, type GroundMaterial } from '../utils/groundCollision';
+import { propColliders } from '../utils/propColliders';
+
+// 'swim' is entered and left automatically from 'walk' as the player wades in and out of liquid
+export type MovementMode = 'fly' | 'walk' | 'swim';
 
 interface PlayerControlsProps {
-    mode: 'fly' | 'walk';
-    onToggleMode: () => void;
+    mode: MovementMode;
+    onModeChange: (mode: MovementMode) => void;
     gravityMult: number;
-    terrainMesh: React.RefObject<Group | null>;
+    heightfield: Heightfield;
+    waterLevel: number;
+    liquidDrag: number;
+    onGroundMaterialChange?: (material: GroundMaterial) => void;
+    planet?: PlanetHeightfield | null; // Spherical worlds: gravity pulls toward the planet centre
 }
 
-export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMode, gravityMult, terrainMesh }) => {
+export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onModeChange, gravityMult, heightfield, waterLevel, liquidDrag, onGroundMaterialChange, planet }) => {
     const { camera, gl } = useThree();
     const controlsRef = useRef<any>(null); // eslint-disable-line @typescript-eslint/no-explicit-any
-    const raycaster = useRef(new Raycaster());
-    const downVector = new Vector3(0, -1, 0);
 
     const lastSpaceTime = useRef(0);
 
@@ -31,25 +40,68 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
     });
 
     // Physics State
+    // On planets, walking keeps the speed along the local up in y; swimming uses a world-space vector
     const velocity = useRef(new Vector3(0, 0, 0));
+    const slideVelocity = useRef(new Vector3(0, 0, 0)); // Horizontal, from sliding down steep faces
     const isGrounded = useRef(false);
+    const groundMaterial = useRef<GroundMaterial | null>(null);
+
+    // Planet look state: heading stays on the tangent plane, pitch is measured from it
+    const heading = useRef(new Vector3(0, 0, -1));
+    const pitch = useRef(0);
+    const lookDelta = useRef({ x: 0, y: 0 });
 
     // Constants
     const PLAYER_HEIGHT = 1.8;
+    const PLAYER_RADIUS = 0.4; // Body width for prop collisions
     const WALK_SPEED = 10.0;
     const RUN_SPEED = 30.0;
     const FLY_SPEED = 20.0;
     const FLY_FAST_SPEED = 60.0;
     const BASE_GRAVITY = 30.0;
     const JUMP_FORCE = 15.0;
+    const MAX_SLOPE = THREE.MathUtils.degToRad(40); // Steeper faces can't be walked up
+    const STEP_HEIGHT = 0.6; // Largest rise per frame we step onto without checking slope
+    const HEAD_CLEARANCE = 0.2; // Rock closer than this above the eyes stops a jump (volumetric terrain)
+    const SLIDE_FRICTION = 4.0;
+    const SWIM_SPEED = 6.0;
+    const SWIM_FAST_SPEED = 12.0;
+    const BUOYANCY = 1.1; // Upward force relative to gravity when fully submerged, so bodies float
+    const SWIM_ENTER_DEPTH = 0.7; // Submerged fraction of the body that starts swimming
+    const SWIM_EXIT_DEPTH = 0.5; // ...and below which you stand up again when touching the bottom
+    const LOOK_SPEED = 0.002; // Radians per pixel of mouse movement, matching PointerLockControls
+    const PLANET_SPAWN_ALTITUDE = 20;
 
     const modeRef = useRef(mode);
-    const onToggleModeRef = useRef(onToggleMode);
+    const onModeChangeRef = useRef(onModeChange);
 
     useEffect(() => {
         modeRef.current = mode;
-        onToggleModeRef.current = onToggleMode;
-    }, [mode, onToggleMode]);
+        onModeChangeRef.current = onModeChange;
+    }, [mode, onModeChange]);
+
+    const reportGroundMaterial = (material: GroundMaterial) => {
+        if (material !== groundMaterial.current) {
+            groundMaterial.current = material;
+            onGroundMaterialChange?.(material);
+        }
+    };
+
+    // Eye height above sea level: world y on flat worlds, distance above the sea-level sphere on planets
+    const getEyeAltitude = () => planet ? camera.position.length() - planet.radius : camera.position.y;
+
+    // Fraction of the body below the liquid surface, feet at 0 and eyes at 1
+    const getSubmergedFraction = () => {
+        const feet = getEyeAltitude() - PLAYER_HEIGHT;
+        return THREE.MathUtils.clamp((waterLevel - feet) / PLAYER_HEIGHT, 0, 1);
+    };
+
+    const requestMode = (next: MovementMode) => {
+        if (modeRef.current === next) return;
+        // Updated eagerly so we don't re-request every frame until the prop comes back
+        modeRef.current = next;
+        onModeChangeRef.current(next);
+    };
 
     useEffect(() => {
         const handleKeyDown = (event: KeyboardEvent) => {
@@ -77,7 +129,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
                         const nextMode = modeRef.current === 'fly' ? 'walk' : 'fly';
                         console.log(`[Controls] Double-tap! Switching to: ${nextMode}`);
 
-                        onToggleModeRef.current();
+                        onModeChangeRef.current(nextMode);
                         lastSpaceTime.current = 0;
 
                         // Reset velocity on mode change
@@ -93,7 +145,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
                         }
                     } else {
                         lastSpaceTime.current = now;
-                        if (modeRef.current === 'fly') {
+                        if (modeRef.current === 'fly' || modeRef.current === 'swim') {
                             moveState.current.up = true;
                         } else if (isGrounded.current) {
                             console.log('[Controls] Jump!');
@@ -135,9 +187,156 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
         };
     }, []);
 
+    // Planets look around in the local frame, so PointerLockControls only handles the lock
+    useEffect(() => {
+        if (!planet) return;
+
+        const handleMouseMove = (event: MouseEvent) => {
+            if (!controlsRef.current?.isLocked) return;
+            lookDelta.current.x += event.movementX;
+            lookDelta.current.y += event.movementY;
+        };
+        document.addEventListener('mousemove', handleMouseMove);
+
+        return () => {
+            document.removeEventListener('mousemove', handleMouseMove);
+        };
+    }, [planet]);
+
+    // Start above the north pole when a planet loads, and stand upright again when it goes
+    const spawnedOn = useRef<PlanetHeightfield | null>(null);
+
+    const spawnOnPlanet = (world: PlanetHeightfield) => {
+        spawnedOn.current = world;
+        camera.position.set(0, world.getSurfaceRadius(0, 1, 0) + PLANET_SPAWN_ALTITUDE, 0);
+        camera.up.set(0, 1, 0);
+        camera.lookAt(0, camera.position.y, -1);
+        heading.current.set(0, 0, -1);
+        pitch.current = 0;
+        velocity.current.set(0, 0, 0);
+    };
+
+    const stepPlanet = (world: PlanetHeightfield, delta: number) => {
+        const position = camera.position;
+        const up = position.clone().normalize();
+
+        // Carry the heading onto the new tangent plane, then apply this frame's mouse movement
+        const h = heading.current;
+        h.addScaledVector(up, -h.dot(up));
+        if (h.lengthSq() < 1e-8) h.set(up.y, -up.x, 0).normalize();
+        h.normalize();
+        h.applyAxisAngle(up, -lookDelta.current.x * LOOK_SPEED);
+        pitch.current = THREE.MathUtils.clamp(pitch.current - lookDelta.current.y * LOOK_SPEED, -Math.PI / 2 + 0.01, Math.PI / 2 - 0.01);
+        lookDelta.current.x = 0;
+        lookDelta.current.y = 0;
+
+        const right = new Vector3().crossVectors(h, up).normalize();
+        const look = h.clone().multiplyScalar(Math.cos(pitch.current)).addScaledVector(up, Math.sin(pitch.current));
+        camera.up.copy(up);
+        camera.lookAt(position.clone().add(look));
+
+        const isSprinting = moveState.current.shift;
+        const currentGravity = BASE_GRAVITY * gravityMult;
+        const surfaceHeight = () => {
+            const dir = position.clone().normalize();
+            return world.getSurfaceRadius(dir.x, dir.y, dir.z);
+        };
+
+        // Forward follows the view in fly and swim, and the heading on foot
+        const forward = mode === 'walk' ? h : look;
+        const moveVector = new Vector3();
+        if (moveState.current.forward) moveVector.add(forward);
+        if (moveState.current.backward) moveVector.sub(forward);
+        if (moveState.current.left) moveVector.sub(right);
+        if (moveState.current.right) moveVector.add(right);
+
+        if (mode === 'fly') {
+            if (moveState.current.up) moveVector.add(up);
+            if (moveState.current.down) moveVector.sub(up);
+            moveVector.normalize();
+            position.addScaledVector(moveVector, (isSprinting ? FLY_FAST_SPEED : FLY_SPEED) * delta);
+            propColliders.resolve(position, up, PLAYER_HEIGHT, PLAYER_RADIUS);
+
+            velocity.current.set(0, 0, 0);
+            isGrounded.current = false;
+
+        } else if (mode === 'swim') {
+            if (moveState.current.up) moveVector.add(up);
+            if (moveState.current.down) moveVector.sub(up);
+            moveVector.normalize();
+
+            const speed = isSprinting ? SWIM_FAST_SPEED : SWIM_SPEED;
+            velocity.current.addScaledVector(moveVector, speed * liquidDrag * delta);
+            velocity.current.addScaledVector(up, currentGravity * (BUOYANCY * getSubmergedFraction() - 1) * delta);
+            velocity.current.multiplyScalar(Math.exp(-liquidDrag * delta));
+            position.addScaledVector(velocity.current, delta);
+
+            const ground = surfaceHeight();
+            reportGroundMaterial(ground - world.radius < waterLevel ? 'water' : 'land');
+
+            // Keep the body above the bottom
+            const minRadius = ground + PLAYER_HEIGHT * 0.5;
+            if (position.length() < minRadius) {
+                position.setLength(minRadius);
+                const inward = velocity.current.dot(up);
+                if (inward < 0) velocity.current.addScaledVector(up, -inward);
+            }
+
+            const touchingBottom = position.length() - ground <= PLAYER_HEIGHT + 0.2;
+            if (touchingBottom && getSubmergedFraction() < SWIM_EXIT_DEPTH) {
+                velocity.current.set(0, 0, 0);
+                isGrounded.current = true;
+                requestMode('walk');
+            } else {
+                isGrounded.current = false;
+            }
+
+        } else {
+            moveVector.normalize();
+            position.addScaledVector(moveVector, (isSprinting ? RUN_SPEED : WALK_SPEED) * delta);
+            propColliders.resolve(position, up, PLAYER_HEIGHT, PLAYER_RADIUS);
+
+            // Walking moves along the tangent plane; fall back onto the sphere through the new point
+            velocity.current.y -= currentGravity * delta;
+            const ground = surfaceHeight();
+            const groundRadius = ground + PLAYER_HEIGHT;
+            let r = position.length() + velocity.current.y * delta;
+
+            if (r <= groundRadius + 0.2 && (velocity.current.y <= 0 || r < groundRadius - 0.1)) {
+                r = groundRadius;
+                velocity.current.y = 0;
+                isGrounded.current = true;
+            } else if (r > groundRadius + 0.2) {
+                isGrounded.current = false;
+            }
+            position.setLength(r);
+
+            reportGroundMaterial(ground - world.radius < waterLevel ? 'water' : 'land');
+
+            if (getSubmergedFraction() > SWIM_ENTER_DEPTH) {
+                // Swimming keeps a world-space velocity
+                velocity.current.copy(up).multiplyScalar(velocity.current.y);
+                isGrounded.current = false;
+                requestMode('swim');
+            }
+        }
+    };
+
+    useEffect(() => {
+        if (planet) return;
+        spawnedOn.current = null;
+        camera.up.set(0, 1, 0);
+    }, [planet, camera]);
+
     useFrame((_, delta) => {
+        if (planet && spawnedOn.current !== planet) spawnOnPlanet(planet);
         if (!controlsRef.current?.isLocked) return;
 
+        if (planet) {
+            stepPlanet(planet, delta);
+            return;
+        }
+
         const isSprinting = moveState.current.shift;
 
         if (mode === 'fly') {
@@ -162,10 +361,62 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
             if (moveVector.lengthSq() > 0) {
                 camera.position.addScaledVector(moveVector, speed * delta);
             }
+            propColliders.resolve(camera.position, camera.up, PLAYER_HEIGHT, PLAYER_RADIUS);
 
             velocity.current.set(0, 0, 0);
+            slideVelocity.current.set(0, 0, 0);
             isGrounded.current = false;
 
+        } else if (mode === 'swim') {
+            // --- SWIM MODE ---
+            const forward = new Vector3();
+            camera.getWorldDirection(forward).normalize();
+
+            const right = new Vector3();
+            right.crossVectors(camera.up, forward).normalize();
+
+            const moveVector = new Vector3();
+            if (moveState.current.forward) moveVector.add(forward);
+            if (moveState.current.backward) moveVector.sub(forward);
+            if (moveState.current.left) moveVector.add(right);
+            if (moveState.current.right) moveVector.sub(right);
+            if (moveState.current.up) moveVector.y += 1;
+            if (moveState.current.down) moveVector.y -= 1;
+            moveVector.normalize();
+
+            // Strokes accelerate against drag, so top speed settles at the swim speed
+            const speed = isSprinting ? SWIM_FAST_SPEED : SWIM_SPEED;
+            velocity.current.addScaledVector(moveVector, speed * liquidDrag * delta);
+
+            // Buoyancy scales with the same gravity that pulls us down, so every planet floats the same way
+            const currentGravity = BASE_GRAVITY * gravityMult;
+            const submerged = getSubmergedFraction();
+            velocity.current.y += currentGravity * (BUOYANCY * submerged - 1) * delta;
+            velocity.current.multiplyScalar(Math.exp(-liquidDrag * delta));
+
+            camera.position.addScaledVector(velocity.current, delta);
+            slideVelocity.current.set(0, 0, 0);
+
+            const ground = queryGround(heightfield, camera.position.x, camera.position.z, waterLevel, camera.position.y);
+            reportGroundMaterial(ground.material);
+
+            // Keep the body above the bottom
+            const minY = ground.height + PLAYER_HEIGHT * 0.5;
+            if (camera.position.y < minY) {
+                camera.position.y = minY;
+                velocity.current.y = Math.max(0, velocity.current.y);
+            }
+
+            // Stand up once we wade into the shallows
+            const touchingBottom = camera.position.y - ground.height <= PLAYER_HEIGHT + 0.2;
+            if (touchingBottom && getSubmergedFraction() < SWIM_EXIT_DEPTH) {
+                velocity.current.set(0, 0, 0);
+                isGrounded.current = true;
+                requestMode('walk');
+            } else {
+                isGrounded.current = false;
+            }
+
         } else {
             // --- WALK MODE ---
             const forward = new Vector3();
@@ -184,28 +435,61 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
             moveVector.normalize();
 
             const speed = isSprinting ? RUN_SPEED : WALK_SPEED;
+            const currentGravity = BASE_GRAVITY * gravityMult;
+
+            const startX = camera.position.x;
+            const startZ = camera.position.z;
+            // Ground is searched from just above the feet, so caves and overhangs resolve to the floor we're on
+            const feetY = camera.position.y - PLAYER_HEIGHT;
+            const ground = queryGround(heightfield, startX, startZ, waterLevel, feetY + STEP_HEIGHT);
+
+            if (isGrounded.current && ground.slope > MAX_SLOPE) {
+                // Downhill direction is the horizontal part of the surface normal
+                const downhill = new Vector3(ground.normal[0], 0, ground.normal[2]).normalize();
+
+                // Strip any input pushing uphill, then slide down at the gravity component along the slope
+                const uphill = -moveVector.dot(downhill);
+                if (uphill > 0) moveVector.addScaledVector(downhill, uphill);
+                slideVelocity.current.addScaledVector(downhill, currentGravity * Math.sin(ground.slope) * delta);
+            } else if (isGrounded.current) {
+                slideVelocity.current.multiplyScalar(Math.max(0, 1 - SLIDE_FRICTION * delta));
+            }
 
             if (moveVector.lengthSq() > 0) {
                 camera.position.addScaledVector(moveVector, speed * delta);
             }
-
-            let terrainHeight = -100;
-            if (terrainMesh.current) {
-                raycaster.current.set(
-                    new Vector3(camera.position.x, 1000, camera.position.z),
-                    downVector
-                );
-                const intersects = raycaster.current.intersectObject(terrainMesh.current, true);
-                if (intersects.length > 0) {
-                    terrainHeight = intersects[0].point.y;
-                }
+            camera.position.addScaledVector(slideVelocity.current, delta);
+            // Props push us back out sideways, so walking into one slides around it
+            propColliders.resolve(camera.position, camera.up, PLAYER_HEIGHT, PLAYER_RADIUS);
+
+            let next = queryGround(heightfield, camera.position.x, camera.position.z, waterLevel, feetY + STEP_HEIGHT);
+
+            // Small ledges are stepped onto; a taller rise onto a steep face blocks the move.
+            // In caves, rock above our step height is a wall however it's sloped, even mid-air.
+            const rise = next.height - ground.height;
+            const intoWall = heightfield.isVolumetric && next.height > feetY + STEP_HEIGHT;
+            if (intoWall || (isGrounded.current && rise > STEP_HEIGHT && next.slope > MAX_SLOPE)) {
+                camera.position.x = startX;
+                camera.position.z = startZ;
+                slideVelocity.current.set(0, 0, 0);
+                next = ground;
             }
 
+            reportGroundMaterial(next.material);
+
+            const terrainHeight = next.height;
+
             // Scale gravity by biome mult
-            const currentGravity = BASE_GRAVITY * gravityMult;
             velocity.current.y -= currentGravity * delta;
             camera.position.y += velocity.current.y * delta;
 
+            // Bump our head on cave ceilings
+            if (velocity.current.y > 0 && heightfield.isVolumetric
+                && heightfield.getDensity(camera.position.x, camera.position.y + HEAD_CLEARANCE, camera.position.z) > 0) {
+                camera.position.y -= velocity.current.y * delta;
+                velocity.current.y = 0;
+            }
+
             const groundY = terrainHeight + PLAYER_HEIGHT;
             const SNAP_TOLERANCE = 0.2;
 
@@ -220,6 +504,13 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
             } else {
                 isGrounded.current = false;
             }
+
+            // Wading in deep enough floats us off the bottom
+            if (getSubmergedFraction() > SWIM_ENTER_DEPTH) {
+                slideVelocity.current.set(0, 0, 0);
+                isGrounded.current = false;
+                requestMode('swim');
+            }
         }
     });
 
@@ -233,7 +524,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ mode, onToggleMo
 
     return (
         <>
-            <PointerLockControls ref={controlsRef} domElement={gl.domElement} />
+            <PointerLockControls ref={controlsRef} domElement={gl.domElement} pointerSpeed={planet ? 0 : 1} />
             <pointLight ref={lightRef} intensity={5.0} distance={150} color="white" decay={1} />
         </>
     );
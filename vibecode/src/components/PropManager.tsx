@@ -1,90 +1,79 @@
-import React, { useMemo } from 'react';
-import type { BiomeData, PropDefinition } from '../types/biome';
-import type { NoiseFunction2D } from 'simplex-noise';
-import { getTerrainHeight } from '../utils/terrainUtils';
-import { MeshyProp } from './MeshyProp';
+import React, { useMemo, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import type { BiomeData, PropDefinition } from '../types/biome';
+import type { Heightfield } from '../utils/heightfield';
+import { MeshyProp, type PropPlacement } from './MeshyProp';
+import { hashString, placeChunkProps, type PlacementChunk, type PlacementSurface } from '../utils/propPlacement';
+import { selectPropTier } from '../utils/propLod';
 
 interface PropManagerProps {
     biome: BiomeData;
-    noise2D: NoiseFunction2D;
+    heightfield: Heightfield;
     chunkX: number;
     chunkZ: number;
     chunkSize: number;
 }
 
-// Simple deterministic pseudo-random generator
-const seededRandom = (seed: number) => {
-    const x = Math.sin(seed++) * 10000;
-    return x - Math.floor(x);
-};
-
-export const PropManager: React.FC<PropManagerProps> = ({ biome, noise2D, chunkX, chunkZ, chunkSize }) => {
-
-    const spawnedProps = useMemo(() => {
-        const props: { prop: PropDefinition; pos: [number, number, number]; normal: [number, number, number]; seed: number; key: string }[] = [];
-
-        const startX = chunkX * chunkSize;
-        const startZ = chunkZ * chunkSize;
-
-        biome.props.forEach((prop, propIndex) => {
+export const PropManager: React.FC<PropManagerProps> = ({ biome, heightfield, chunkX, chunkZ, chunkSize }) => {
+    const [tier, setTier] = useState(0);
+
+    // Detail follows the distance to the nearest edge of the chunk, so the chunk underfoot stays at full detail
+    useFrame(({ camera }) => {
+        const half = chunkSize / 2;
+        const dx = Math.max(0, Math.abs(camera.position.x - chunkX * chunkSize) - half);
+        const dz = Math.max(0, Math.abs(camera.position.z - chunkZ * chunkSize) - half);
+        const next = selectPropTier(Math.hypot(dx, dz), tier);
+        if (next !== tier) setTier(next);
+    });
+
+    // One batch per prop definition, so each is drawn with instancing
+    const batches = useMemo(() => {
+        const batches = new Map<string, { prop: PropDefinition; placements: PropPlacement[] }>();
+
+        // The same inputs for any chunk, so neighbours can be placed too for spacing across borders
+        const chunkAt = (cx: number, cz: number): PlacementChunk => {
+            const startX = cx * chunkSize;
+            const startZ = cz * chunkSize;
+            const surface: PlacementSurface = {
+                waterLevel: biome.terrain.waterLevel,
+                getSite: (x, z) => {
+                    // With caves this is the first surface below the open sky, which may be a cave floor
+                    const height = heightfield.getGroundHeight(startX + x, startZ + z);
+                    const normal = heightfield.getSurfaceNormal(startX + x, height, startZ + z);
+                    return { height, normal, slope: THREE.MathUtils.radToDeg(Math.acos(THREE.MathUtils.clamp(normal[1], -1, 1))) };
+                },
+                getHeight: (x, z) => heightfield.getHeight(startX + x, startZ + z)
+            };
             // Multiply propIndex by a large number to prevent overlap in seed sequences between different prop types
-            let seedValue = hashString(biome.name) + (propIndex * 1000) + chunkX * 31 + chunkZ * 17;
-            const count = Math.floor(prop.density * 20);
+            return { seedFor: propIndex => hashString(biome.name) + (propIndex * 1000) + cx * 31 + cz * 17, surface };
+        };
 
-            for (let i = 0; i < count; i++) {
-                const innerSeed = seedValue++;
-                const lx = (seededRandom(innerSeed) - 0.5) * chunkSize;
-                const lz = (seededRandom(innerSeed + 100) - 0.5) * chunkSize;
+        const { seedFor, surface } = chunkAt(chunkX, chunkZ);
+        const placed = placeChunkProps(biome.props, seedFor, chunkSize, surface, (dx, dz) => chunkAt(chunkX + dx, chunkZ + dz));
 
-                const gx = startX + lx;
-                const gz = startZ + lz;
-
-                const gy = getTerrainHeight(gx, gz, biome.terrain.layers, noise2D);
-
-                // Central Difference Normal
-                const h = 0.2;
-                const hL = getTerrainHeight(gx - h, gz, biome.terrain.layers, noise2D);
-                const hR = getTerrainHeight(gx + h, gz, biome.terrain.layers, noise2D);
-                const hD = getTerrainHeight(gx, gz - h, biome.terrain.layers, noise2D);
-                const hU = getTerrainHeight(gx, gz + h, biome.terrain.layers, noise2D);
-
-                const normalVec = new THREE.Vector3(hL - hR, 2 * h, hD - hU).normalize();
-                const normal: [number, number, number] = [normalVec.x, normalVec.y, normalVec.z];
-
-                if (gy > biome.terrain.waterLevel) {
-                    props.push({
-                        prop,
-                        pos: [lx, gy, lz],
-                        normal,
-                        seed: innerSeed,
-                        key: `${prop.id}-${chunkX}-${chunkZ}-${innerSeed}`
-                    });
-                }
-            }
+        biome.props.forEach((prop, propIndex) => {
+            if (!batches.has(prop.id)) batches.set(prop.id, { prop, placements: [] });
+            batches.get(prop.id)!.placements.push(...placed[propIndex].map(p => ({
+                position: [p.x, p.site.height, p.z] as [number, number, number],
+                normal: p.site.normal,
+                seed: p.seed
+            })));
         });
 
-        if (chunkX === 0 && chunkZ === 0 && props.length > 0) {
-            console.log(`PropManager Debug [0,0]: First Prop sample at lx:${props[0].pos[0].toFixed(2)} lz:${props[0].pos[2].toFixed(2)} -> gy:${props[0].pos[1].toFixed(2)}`);
+        const first = [...batches.values()].find(b => b.placements.length > 0)?.placements[0];
+        if (chunkX === 0 && chunkZ === 0 && first) {
+            console.log(`PropManager Debug [0,0]: First Prop sample at lx:${first.position[0].toFixed(2)} lz:${first.position[2].toFixed(2)} -> gy:${first.position[1].toFixed(2)}`);
         }
 
-        return props;
-    }, [biome, noise2D, chunkX, chunkZ, chunkSize]);
+        return [...batches.values()];
+    }, [biome, heightfield, chunkX, chunkZ, chunkSize]);
 
     return (
         <group>
-            {spawnedProps.map(p => (
-                <MeshyProp key={p.key} prop={p.prop} position={p.pos} normal={p.normal} seed={p.seed} />
+            {batches.map(b => (
+                <MeshyProp key={b.prop.id} prop={b.prop} placements={b.placements} tier={tier} />
             ))}
         </group>
     );
 };
-
-function hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-        hash = (hash << 5) - hash + str.charCodeAt(i);
-        hash |= 0;
-    }
-    return Math.abs(hash);
-}
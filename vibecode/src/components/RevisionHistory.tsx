@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import {
+    deleteGalleryRevision, fetchGalleryRevisions, revertGalleryRevision, type GalleryRevision, type SavedBiome
+} from '../services/gallery';
+import { diffBiomes } from '../utils/biomePatch';
+import { BiomeDiffList } from './BiomeDiffList';
+
+interface RevisionHistoryProps {
+    entry: SavedBiome;
+    authorId: string | null; // Set for owners, who can revert and delete; reverts are credited to it
+    onLoad: (biome: SavedBiome) => void;
+    onClose: () => void;
+    onChanged: () => void; // The entry itself changed (revert, delete), so lists showing it are stale
+}
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+    background: 'none', border: `1px solid ${color}`, color, padding: '3px 10px', cursor: 'pointer',
+    fontFamily: 'inherit', fontSize: '0.7rem', textTransform: 'uppercase'
+});
+
+/**
+ * The saves of one gallery entry, newest first, each with its parameter changes against the
+ * one before. Owners can revert to a revision or delete it.
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entry, authorId, onLoad, onClose, onChanged }) => {
+    const [revisions, setRevisions] = useState<GalleryRevision[] | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    // Bumped to fetch the list again after a change
+    const [reloadCount, setReloadCount] = useState(0);
+    const galleryId = entry.firestoreId!;
+    const isOwner = authorId !== null;
+
+    useEffect(() => {
+        fetchGalleryRevisions(galleryId)
+            .then(setRevisions)
+            .catch(err => {
+                console.error("Failed to fetch revisions:", err);
+                setRevisions([]);
+            });
+    }, [galleryId, reloadCount]);
+
+    const run = async (action: () => Promise<void>, closes = false) => {
+        setBusy(true);
+        try {
+            await action();
+            onChanged();
+            if (closes) onClose();
+            else setReloadCount(count => count + 1);
+        } catch (err) {
+            console.error("Revision action failed:", err);
+            alert("Revision action failed: " + (err instanceof Error ? err.message : String(err)));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const revert = (revision: GalleryRevision) => {
+        if (authorId && confirm(`Make revision ${revision.number} current again? This adds a new revision.`)) {
+            run(() => revertGalleryRevision(galleryId, revision.revisionId, authorId));
+        }
+    };
+
+    const remove = (revision: GalleryRevision) => {
+        const isLast = revisions?.length === 1;
+        const message = isLast
+            ? `Revision ${revision.number} is the only one; deleting it deletes "${entry.name}" from the gallery.`
+            : `Delete revision ${revision.number}?`;
+        if (confirm(message)) run(() => deleteGalleryRevision(galleryId, revision.revisionId), isLast);
+    };
+
+    return (
+        <div style={{
+            position: 'absolute', top: 0, right: 0, width: 'min(520px, 100%)', height: '100%', boxSizing: 'border-box',
+            background: '#0b0b0b', borderLeft: '1px solid #00ffff', padding: '30px', overflowY: 'auto', zIndex: 1
+        }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+                <h2 style={{ margin: 0, color: '#00ffff', fontSize: '1.2rem' }}>{entry.name} · HISTORY</h2>
+                <button onClick={onClose} style={{ background: 'none', border: 'none', color: 'white', fontSize: '20px', cursor: 'pointer' }}>✕</button>
+            </div>
+
+            {revisions === null && <div>Retrieving Archive Logs...</div>}
+            {revisions?.length === 0 && (
+                <div style={{ opacity: 0.7 }}>This world was saved before revisions were kept; its next save starts the history.</div>
+            )}
+
+            {revisions?.map((revision, index) => {
+                const older = revisions[index + 1];
+                // Saves and reverts always add the newest revision, so that one is current
+                const isCurrent = index === 0;
+                const isExpanded = expandedId === revision.revisionId;
+                return (
+                    <div key={revision.revisionId} style={{ borderTop: '1px solid #333', padding: '10px 0', fontSize: '0.8rem' }}>
+                        <div style={{ display: 'flex', gap: '10px', cursor: 'pointer' }} onClick={() => setExpandedId(isExpanded ? null : revision.revisionId)}>
+                            <span style={{ color: isCurrent ? '#0f8' : '#00ffff' }}>#{revision.number}{isCurrent && ' (current)'}</span>
+                            <span style={{ flex: 1 }}>{revision.summary}</span>
+                            <span style={{ opacity: 0.6 }}>{isExpanded ? '▾' : '▸'}</span>
+                        </div>
+                        <div style={{ fontSize: '0.7rem', color: '#888', marginTop: '4px' }}>
+                            {new Date(revision.createdAt).toLocaleString()} · {revision.authorId || 'unknown'}
+                        </div>
+
+                        {isExpanded && (
+                            <div style={{ marginTop: '8px', fontFamily: 'monospace', fontSize: 11 }}>
+                                {older
+                                    ? <BiomeDiffList diff={diffBiomes(older.biome, revision.biome)} emptyText="No parameter changes." />
+                                    : <div style={{ opacity: 0.6 }}>First revision.</div>}
+                                <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+                                    <button style={buttonStyle('#00ffff')} onClick={() => onLoad(revision.biome)}>Load</button>
+                                    {isOwner && !isCurrent && <button style={buttonStyle('#ff00ff')} disabled={busy} onClick={() => revert(revision)}>Revert to this</button>}
+                                    {isOwner && <button style={buttonStyle('#ff5555')} disabled={busy} onClick={() => remove(revision)}>Delete</button>}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
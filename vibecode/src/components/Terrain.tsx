@@ -1,21 +1,27 @@
-import { useMemo, forwardRef, Suspense } from 'react';
+import { useState, useEffect, useMemo, forwardRef, Suspense } from 'react';
 import * as THREE from 'three';
 import { useTexture } from '@react-three/drei';
-import type { BiomeData } from '../types/biome';
-import type { NoiseFunction2D } from 'simplex-noise';
+import type { BiomeData, MaterialZone } from '../types/biome';
+import { LOD_SEGMENTS, createChunkGeometry, type PlanetChunkParams } from '../utils/chunkGeometry';
+import { EMPTY_ZONE_TEXTURES, MAX_MATERIAL_ZONES, getZoneTextureKey, loadZoneTextures, type ZoneTextureSet } from '../utils/materialZones';
+import { chunkWorkerPool, ChunkCancelledError } from '../workers/chunkWorkerPool';
 
 
 interface TerrainProps {
     data: BiomeData['terrain'] & { textureUrl?: string };
     chunkX?: number;
     chunkZ?: number;
-    noise2D: NoiseFunction2D;
+    lod?: number; // Index into LOD_SEGMENTS, 0 is the most detailed
+    planet?: PlanetChunkParams; // Spherical worlds: chunkX/chunkZ index the cell on this cube face
 }
 
 
 
 // Component that safely wraps the material to avoid hook rules issues if we were to toggle URL on/off dynamically in same instance without remount
-const MaterialWrapper = ({ data }: { data: TerrainProps['data'] }) => {
+const MaterialWrapper = ({ data, planetRadius = 0 }: { data: TerrainProps['data']; planetRadius?: number }) => {
+    if (data.materials && data.materials.length > 0) {
+        return <ZoneMaterial zones={data.materials} planetRadius={planetRadius} />;
+    }
     if (data.textureUrl) {
         return (
             <Suspense fallback={<meshStandardMaterial wireframe color="gray" />}>
@@ -83,80 +89,203 @@ const TerrainMaterialWithTexture = ({ url }: { url: string }) => {
     );
 }
 
-export const Terrain = forwardRef<THREE.Mesh, TerrainProps>(({ data, chunkX = 0, chunkZ = 0, noise2D }, ref) => {
-
-    const geometry = useMemo(() => {
-        const size = 100;
-        const segments = 64;
-        const geo = new THREE.PlaneGeometry(size, size, segments, segments);
-        const posAttribute = geo.attributes.position;
-        const count = posAttribute.count;
-
-        const colors = new Float32Array(count * 3);
-        const colorBase = new THREE.Color(data.baseColor);
-        const colorHigh = new THREE.Color(data.highColor);
-
-        // Calculate World Offset for Noise
-        const noiseOffsetX = chunkX * size;
-        const noiseOffsetY = chunkZ * size;
-
-        for (let i = 0; i < count; i++) {
-            const localX = posAttribute.getX(i);
-            const localY = posAttribute.getY(i);
-
-            const globalX = noiseOffsetX + localX;
-            // Plane was rotated -90deg on X.
-            // +LocalY points to World -Z.
-            const globalY = noiseOffsetY - localY;
-
-            // --- Multi-Layer Noise Calculation ---
-            let totalNoise = 0;
-
-            if (data.layers && data.layers.length > 0) {
-                for (const layer of data.layers) {
-                    let n = noise2D(
-                        (globalX + layer.offsetX) * layer.noiseScale,
-                        (globalY + layer.offsetZ) * layer.noiseScale
-                    );
-
-                    if (layer.roughness > 0) {
-                        n += 0.5 * layer.roughness * noise2D(
-                            (globalX + layer.offsetX) * layer.noiseScale * 2,
-                            (globalY + layer.offsetZ) * layer.noiseScale * 2
-                        );
-                    }
-
-                    totalNoise += n * layer.heightScale;
+// Per-pixel weights for every zone, then the four strongest are blended with triplanar lookups.
+// Vertex colours show through wherever the zones don't fully cover the ground.
+const ZONE_FRAGMENT = `
+    #include <color_fragment>
+    {
+        vec3 zoneNormal = normalize(vWorldNormal);
+        // On planets, height is above sea level and slope is measured against the local up
+        bool onPlanet = uPlanetRadius > 0.0;
+        vec3 zoneUp = onPlanet ? normalize(vWorldPos) : vec3(0.0, 1.0, 0.0);
+        float zoneHeight = onPlanet ? length(vWorldPos) - uPlanetRadius : vWorldPos.y;
+        // Overhangs and cave ceilings face downward; they count as vertical so they pick up the cliff zone
+        float zoneSlope = degrees(acos(clamp(dot(zoneNormal, zoneUp), 0.0, 1.0)));
+
+        float bestWeight[4] = float[4](0.0, 0.0, 0.0, 0.0);
+        int bestZone[4] = int[4](-1, -1, -1, -1);
+        for (int i = 0; i < ${MAX_MATERIAL_ZONES}; i++) {
+            if (i >= uZoneCount) break;
+            vec4 range = uZoneRange[i];
+            float b = max(uZoneBlend[i], 0.001);
+            float w = smoothstep(range.x - b, range.x + b, zoneHeight)
+                * (1.0 - smoothstep(range.y - b, range.y + b, zoneHeight))
+                * smoothstep(range.z - b, range.z + b, zoneSlope)
+                * (1.0 - smoothstep(range.w - b, range.w + b, zoneSlope));
+
+            // Insert into the top four; strictly greater keeps earlier zones ahead on ties
+            int zone = i;
+            for (int k = 0; k < 4; k++) {
+                if (w > bestWeight[k]) {
+                    float tw = bestWeight[k];
+                    int tz = bestZone[k];
+                    bestWeight[k] = w;
+                    bestZone[k] = zone;
+                    w = tw;
+                    zone = tz;
                 }
-            } else {
-                totalNoise = noise2D(globalX * 0.02, globalY * 0.02) * 5;
             }
+        }
 
-            // Apply Height
-            posAttribute.setZ(i, totalNoise);
+        vec3 tri = abs(zoneNormal);
+        tri /= (tri.x + tri.y + tri.z);
+        vec2 xUV = vWorldPos.yz * uZoneScale;
+        vec2 yUV = vWorldPos.xz * uZoneScale;
+        vec2 zUV = vWorldPos.xy * uZoneScale;
+        // Derivatives taken up front, since the lookups below sit in non-uniform control flow
+        vec2 xDx = dFdx(xUV); vec2 xDy = dFdy(xUV);
+        vec2 yDx = dFdx(yUV); vec2 yDy = dFdy(yUV);
+        vec2 zDx = dFdx(zUV); vec2 zDy = dFdy(zUV);
 
-            // Color
-            const alpha = (totalNoise / 20 + 0.5);
-            const clampedAlpha = Math.max(0, Math.min(1, alpha));
+        float zoneTotal = bestWeight[0] + bestWeight[1] + bestWeight[2] + bestWeight[3];
+        if (zoneTotal > 0.0) {
+            vec3 zoneColor = vec3(0.0);
+            for (int k = 0; k < 4; k++) {
+                if (bestZone[k] < 0) continue;
+                int zi = bestZone[k];
+                vec3 albedo = uZoneColor[zi];
+                float layer = uZoneLayer[zi];
+                if (layer >= 0.0) {
+                    albedo = textureGrad(uZoneMap, vec3(xUV, layer), xDx, xDy).rgb * tri.x
+                        + textureGrad(uZoneMap, vec3(yUV, layer), yDx, yDy).rgb * tri.y
+                        + textureGrad(uZoneMap, vec3(zUV, layer), zDx, zDy).rgb * tri.z;
+                }
+                zoneColor += albedo * bestWeight[k];
+            }
+            diffuseColor.rgb = mix(diffuseColor.rgb, zoneColor / zoneTotal, min(zoneTotal, 1.0));
+        }
+    }
+`;
 
-            const r = THREE.MathUtils.lerp(colorBase.r, colorHigh.r, clampedAlpha);
-            const g = THREE.MathUtils.lerp(colorBase.g, colorHigh.g, clampedAlpha);
-            const b = THREE.MathUtils.lerp(colorBase.b, colorHigh.b, clampedAlpha);
+const createZoneMaterial = (zones: MaterialZone[], textures: ZoneTextureSet, planetRadius: number) => {
+    const active = zones.slice(0, MAX_MATERIAL_ZONES);
+    const pad = <T,>(values: T[], fill: T) => [...values, ...Array(MAX_MATERIAL_ZONES - values.length).fill(fill)];
 
-            colors[i * 3] = r;
-            colors[i * 3 + 1] = g;
-            colors[i * 3 + 2] = b;
-        }
+    const uniforms = {
+        uZoneCount: { value: active.length },
+        // Slope bounds at 0 or 90 degrees are open, so their blend doesn't fade flat ground or cliffs
+        uZoneRange: {
+            value: pad(active.map(z => new THREE.Vector4(
+                z.minHeight,
+                z.maxHeight,
+                z.minSlope <= 0 ? -1e4 : z.minSlope,
+                z.maxSlope >= 90 ? 1e4 : z.maxSlope
+            )), new THREE.Vector4())
+        },
+        uZoneBlend: { value: pad(active.map(z => z.blend), 0) },
+        uZoneColor: { value: pad(active.map(z => new THREE.Color(z.color)), new THREE.Color()) },
+        uZoneLayer: { value: pad(active.map((_, i) => textures.layers[i] ?? -1), -1) },
+        uZoneMap: { value: textures.texture },
+        uZoneScale: { value: 0.08 },
+        uPlanetRadius: { value: planetRadius }
+    };
+
+    const material = new THREE.MeshStandardMaterial({
+        vertexColors: true,
+        roughness: 0.8,
+        metalness: 0.2,
+        side: THREE.DoubleSide
+    });
+
+    material.onBeforeCompile = (shader) => {
+        Object.assign(shader.uniforms, uniforms);
+
+        shader.vertexShader = `
+            varying vec3 vWorldPos;
+            varying vec3 vWorldNormal;
+            ${shader.vertexShader}
+        `.replace(
+            '#include <worldpos_vertex>',
+            `#include <worldpos_vertex>
+            vWorldPos = (modelMatrix * vec4(transformed, 1.0)).xyz;
+            vWorldNormal = normalize(modelMatrix * vec4(normal, 0.0)).xyz;`
+        );
+
+        shader.fragmentShader = `
+            varying vec3 vWorldPos;
+            varying vec3 vWorldNormal;
+            uniform int uZoneCount;
+            uniform vec4 uZoneRange[${MAX_MATERIAL_ZONES}];
+            uniform float uZoneBlend[${MAX_MATERIAL_ZONES}];
+            uniform vec3 uZoneColor[${MAX_MATERIAL_ZONES}];
+            uniform float uZoneLayer[${MAX_MATERIAL_ZONES}];
+            uniform sampler2DArray uZoneMap;
+            uniform float uZoneScale;
+            uniform float uPlanetRadius;
+            ${shader.fragmentShader}
+        `.replace('#include <color_fragment>', ZONE_FRAGMENT);
+    };
+
+    return material;
+};
+
+// Splats the biome's material zones. Colours show immediately; textures swap in once loaded.
+const ZoneMaterial = ({ zones, planetRadius }: { zones: MaterialZone[]; planetRadius: number }) => {
+    const [loaded, setLoaded] = useState<{ key: string; textures: ZoneTextureSet } | null>(null);
+    const key = getZoneTextureKey(zones);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadZoneTextures(zones)
+            .then(textures => {
+                if (!cancelled) setLoaded({ key, textures });
+            })
+            .catch(err => console.error('[Terrain] Zone textures failed:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [zones, key]);
+
+    // Ignore a texture set that belongs to the previous zone list
+    const textures = loaded?.key === key ? loaded.textures : EMPTY_ZONE_TEXTURES;
+    const material = useMemo(() => createZoneMaterial(zones, textures, planetRadius), [zones, textures, planetRadius]);
+
+    useEffect(() => {
+        return () => material.dispose();
+    }, [material]);
+
+    return <primitive object={material} attach="material" />;
+};
+
+export const Terrain = forwardRef<THREE.Mesh, TerrainProps>(({ data, chunkX = 0, chunkZ = 0, lod = 0, planet }, ref) => {
+    // Last geometry the worker delivered. Kept on screen until its replacement arrives,
+    // so a LOD change swaps meshes without a gap.
+    const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+    const { baseColor, highColor, layers, seed, erosion, carvers } = data;
+    const planetRadius = planet?.radius;
+    const planetFace = planet?.face;
+    const chunksPerFace = planet?.chunksPerFace;
+
+    useEffect(() => {
+        const segments = LOD_SEGMENTS[lod];
+        const planetParams = planetRadius !== undefined && planetFace !== undefined && chunksPerFace !== undefined
+            ? { radius: planetRadius, face: planetFace, chunksPerFace }
+            : undefined;
+        const build = chunkWorkerPool.request({ baseColor, highColor, layers, seed, erosion, carvers }, chunkX, chunkZ, segments, planetParams);
+
+        build.promise
+            .then(buffers => setGeometry(createChunkGeometry(buffers, segments)))
+            .catch(err => {
+                if (!(err instanceof ChunkCancelledError)) {
+                    console.error(`[Terrain] Chunk ${chunkX},${chunkZ} failed to build:`, err);
+                }
+            });
+
+        return () => build.cancel();
+    }, [baseColor, highColor, layers, seed, erosion, carvers, chunkX, chunkZ, lod, planetRadius, planetFace, chunksPerFace]);
 
-        geo.computeVertexNormals();
-        geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    // Free GPU buffers of the geometry being replaced
+    useEffect(() => {
+        return () => geometry?.dispose();
+    }, [geometry]);
 
-        return geo;
-    }, [data, noise2D, chunkX, chunkZ]);
+    if (!geometry) return null;
 
+    // Planet and volumetric chunks are built upright; flat grids lie in the XY plane and are rotated down
+    const upright = !!planet || !!carvers?.length;
     return (
-        <mesh ref={ref} geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} receiveShadow castShadow>
-            <MaterialWrapper data={data} />
+        <mesh ref={ref} geometry={geometry} rotation={upright ? [0, 0, 0] : [-Math.PI / 2, 0, 0]} receiveShadow castShadow>
+            <MaterialWrapper data={data} planetRadius={planetRadius} />
         </mesh>
     );
 });
@@ -0,0 +1,75 @@
+import { useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { LiquidParams } from '../types/biome';
+
+interface UnderwaterProps {
+    liquid: LiquidParams;
+    waterLevel: number;
+    fogColor: string;
+    planetRadius?: number; // Spherical worlds measure depth from the planet centre
+}
+
+const UNDERWATER_FOG_DENSITY = 0.06;
+const TINT_OPACITY = 0.3;
+
+/**
+ * Fog and colour tint while the camera is below waterLevel.
+ * Mounted after DynamicFog so its per-frame fog override wins.
+ */
+export const Underwater = ({ liquid, waterLevel, fogColor, planetRadius }: UnderwaterProps) => {
+    const tintRef = useRef<THREE.Mesh>(null);
+    const wasSubmerged = useRef(false);
+    const savedBackground = useRef<THREE.Scene['background']>(null);
+
+    const murkColor = useMemo(() => new THREE.Color(liquid.color).multiplyScalar(0.5), [liquid.color]);
+
+    useFrame(({ scene, camera }) => {
+        const submerged = planetRadius !== undefined
+            ? camera.position.length() < planetRadius + waterLevel
+            : camera.position.y < waterLevel;
+
+        if (scene.fog instanceof THREE.FogExp2) {
+            if (submerged) {
+                scene.fog.color.copy(murkColor);
+                scene.fog.density = Math.max(scene.fog.density, UNDERWATER_FOG_DENSITY);
+            } else if (wasSubmerged.current) {
+                scene.fog.color.set(fogColor);
+            }
+        }
+
+        // The sky shouldn't show through open water
+        if (submerged && !wasSubmerged.current) {
+            savedBackground.current = scene.background;
+            scene.background = murkColor;
+        } else if (!submerged && wasSubmerged.current) {
+            scene.background = savedBackground.current;
+            savedBackground.current = null;
+        }
+
+        if (tintRef.current) {
+            tintRef.current.visible = submerged;
+            if (submerged) {
+                tintRef.current.position.copy(camera.position);
+                tintRef.current.quaternion.copy(camera.quaternion);
+                tintRef.current.translateZ(-0.2);
+            }
+        }
+
+        wasSubmerged.current = submerged;
+    });
+
+    return (
+        <mesh ref={tintRef} visible={false} renderOrder={999} frustumCulled={false}>
+            <planeGeometry args={[2, 2]} />
+            <meshBasicMaterial
+                color={liquid.color}
+                transparent
+                opacity={TINT_OPACITY}
+                depthTest={false}
+                depthWrite={false}
+                fog={false}
+            />
+        </mesh>
+    );
+};
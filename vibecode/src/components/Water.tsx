@@ -0,0 +1,226 @@
+import React, { useMemo, useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { LiquidParams } from '../types/biome';
+import type { Heightfield } from '../utils/heightfield';
+import { CHUNK_SIZE } from '../utils/chunkGeometry';
+import { LIQUID_PROPERTIES } from '../utils/liquid';
+
+interface WaterProps {
+    liquid: LiquidParams;
+    waterLevel: number;
+    skyColor: string;
+    heightfield: Heightfield;
+    chunks: { key: string; x: number; z: number; ring: number }[];
+}
+
+// Same offset the directional light in Scene keeps from the camera
+const SUN_DIRECTION = new THREE.Vector3(40, 60, 20).normalize();
+const NEAR_SEGMENTS = 32;
+const FAR_SEGMENTS = 8;
+const NEAR_RING = 2;
+// Tiles whose lowest sampled ground is this far above the surface are skipped
+const DRY_MARGIN = 1;
+
+// Tileable wave normal map, built from integer-frequency sine waves so it wraps seamlessly
+const createWaveNormalMap = (size = 128): THREE.DataTexture => {
+    const waves = [
+        { kx: 1, ky: 2, amp: 1.0, phase: 0.3 },
+        { kx: 3, ky: -1, amp: 0.6, phase: 1.7 },
+        { kx: -2, ky: 5, amp: 0.35, phase: 4.1 },
+        { kx: 7, ky: 3, amp: 0.2, phase: 2.6 },
+        { kx: -9, ky: -6, amp: 0.12, phase: 5.3 }
+    ];
+    const data = new Uint8Array(size * size * 4);
+
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const u = x / size;
+            const v = y / size;
+            let dx = 0;
+            let dy = 0;
+            for (const w of waves) {
+                const c = Math.cos(2 * Math.PI * (w.kx * u + w.ky * v) + w.phase) * w.amp * 0.15;
+                dx += c * w.kx;
+                dy += c * w.ky;
+            }
+            const len = Math.hypot(dx, dy, 1);
+            const i = (y * size + x) * 4;
+            data[i] = ((-dx / len) * 0.5 + 0.5) * 255;
+            data[i + 1] = ((-dy / len) * 0.5 + 0.5) * 255;
+            data[i + 2] = ((1 / len) * 0.5 + 0.5) * 255;
+            data[i + 3] = 255;
+        }
+    }
+
+    const texture = new THREE.DataTexture(data, size, size, THREE.RGBAFormat);
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.generateMipmaps = true;
+    texture.needsUpdate = true;
+    return texture;
+};
+
+const vertexShader = `
+    attribute float depth;
+    varying float vDepth;
+    varying vec3 vWorldPos;
+    #include <fog_pars_vertex>
+
+    void main() {
+        vDepth = depth;
+        vec4 worldPos = modelMatrix * vec4(position, 1.0);
+        vWorldPos = worldPos.xyz;
+        vec4 mvPosition = viewMatrix * worldPos;
+        gl_Position = projectionMatrix * mvPosition;
+        #include <fog_vertex>
+    }
+`;
+
+const fragmentShader = `
+    uniform sampler2D uNormalMap;
+    uniform float uTime;
+    uniform vec3 uColor;
+    uniform vec3 uSkyColor;
+    uniform vec3 uSunDir;
+    uniform float uEmissive;
+    varying float vDepth;
+    varying vec3 vWorldPos;
+    #include <fog_pars_fragment>
+
+    void main() {
+        vec2 uv = vWorldPos.xz * 0.04;
+        vec3 n1 = texture2D(uNormalMap, uv + vec2(uTime * 0.02, uTime * 0.013)).xyz * 2.0 - 1.0;
+        vec3 n2 = texture2D(uNormalMap, uv * 1.7 - vec2(uTime * 0.017, -uTime * 0.021)).xyz * 2.0 - 1.0;
+        // Blend the two tangent-space normals, then swap into world space (tangent Z is world Y)
+        vec3 t = normalize(vec3(n1.xy + n2.xy, n1.z * n2.z));
+        vec3 n = normalize(vec3(t.x, t.z, t.y));
+
+        vec3 viewDir = normalize(cameraPosition - vWorldPos);
+        float fresnel = 0.02 + 0.98 * pow(1.0 - max(dot(n, viewDir), 0.0), 5.0);
+        float spec = pow(max(dot(reflect(-uSunDir, n), viewDir), 0.0), 80.0);
+
+        float depthFactor = clamp(vDepth / 6.0, 0.0, 1.0);
+        vec3 base = mix(uColor * 1.4, uColor * 0.35, depthFactor);
+        vec3 color = mix(base, uSkyColor, fresnel * 0.6) + vec3(spec);
+
+        // Shoreline foam: a band where the water gets shallow, broken up by the wave texture
+        float shore = 1.0 - smoothstep(0.0, 0.9, vDepth);
+        float breakup = texture2D(uNormalMap, uv * 5.0 + uTime * 0.05).r;
+        float foam = smoothstep(0.35, 0.6, shore * (0.55 + 0.45 * breakup));
+        color = mix(color, vec3(1.0), foam);
+        color += uColor * uEmissive;
+
+        float alpha = clamp(mix(0.45, 0.92, depthFactor) + foam * 0.5 + fresnel * 0.2, 0.0, 1.0);
+        gl_FragColor = vec4(color, alpha);
+
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+        #include <fog_fragment>
+    }
+`;
+
+const WaterTile = ({ x, z, segments, waterLevel, heightfield, material }: {
+    x: number;
+    z: number;
+    segments: number;
+    waterLevel: number;
+    heightfield: Heightfield;
+    material: THREE.ShaderMaterial;
+}) => {
+    const geometry = useMemo(() => {
+        const heights = heightfield.sampleGrid(x * CHUNK_SIZE, z * CHUNK_SIZE, CHUNK_SIZE, segments);
+        let lowest = Infinity;
+        for (let i = 0; i < heights.length; i++) lowest = Math.min(lowest, heights[i]);
+        if (lowest > waterLevel + DRY_MARGIN) return null;
+
+        const geo = new THREE.PlaneGeometry(CHUNK_SIZE, CHUNK_SIZE, segments, segments);
+        const depth = new Float32Array(heights.length);
+        for (let i = 0; i < heights.length; i++) depth[i] = waterLevel - heights[i];
+        geo.setAttribute('depth', new THREE.BufferAttribute(depth, 1));
+        return geo;
+    }, [x, z, segments, waterLevel, heightfield]);
+
+    useEffect(() => {
+        return () => geometry?.dispose();
+    }, [geometry]);
+
+    if (!geometry) return null;
+
+    return (
+        <mesh
+            geometry={geometry}
+            material={material}
+            position={[x * CHUNK_SIZE, waterLevel, z * CHUNK_SIZE]}
+            rotation={[-Math.PI / 2, 0, 0]}
+            renderOrder={1}
+        />
+    );
+};
+
+/**
+ * Liquid surface at waterLevel, tiled over the same chunk grid as the terrain.
+ * Each tile carries per-vertex water depth for the shoreline foam and colour falloff.
+ */
+export const Water: React.FC<WaterProps> = ({ liquid, waterLevel, skyColor, heightfield, chunks }) => {
+    const normalMap = useMemo(() => createWaveNormalMap(), []);
+
+    const material = useMemo(() => new THREE.ShaderMaterial({
+        uniforms: THREE.UniformsUtils.merge([
+            THREE.UniformsLib.fog,
+            {
+                uNormalMap: { value: null },
+                uTime: { value: 0 },
+                uColor: { value: new THREE.Color() },
+                uSkyColor: { value: new THREE.Color() },
+                uSunDir: { value: SUN_DIRECTION.clone() },
+                uEmissive: { value: 0 }
+            }
+        ]),
+        vertexShader,
+        fragmentShader,
+        transparent: true,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+        fog: true
+    }), []);
+    // Uniforms are updated through the ref; the memoised material itself is treated as immutable
+    const materialRef = useRef(material);
+
+    useEffect(() => {
+        const { uniforms } = materialRef.current;
+        uniforms.uNormalMap.value = normalMap;
+        uniforms.uColor.value.set(liquid.color);
+        uniforms.uSkyColor.value.set(skyColor);
+        uniforms.uEmissive.value = LIQUID_PROPERTIES[liquid.type].emissive;
+    }, [material, normalMap, liquid.color, liquid.type, skyColor]);
+
+    useEffect(() => {
+        return () => {
+            material.dispose();
+            normalMap.dispose();
+        };
+    }, [material, normalMap]);
+
+    useFrame((state) => {
+        materialRef.current.uniforms.uTime.value = state.clock.getElapsedTime();
+    });
+
+    return (
+        <group>
+            {chunks.map(chunk => (
+                <WaterTile
+                    key={chunk.key}
+                    x={chunk.x}
+                    z={chunk.z}
+                    segments={chunk.ring <= NEAR_RING ? NEAR_SEGMENTS : FAR_SEGMENTS}
+                    waterLevel={waterLevel}
+                    heightfield={heightfield}
+                    material={material}
+                />
+            ))}
+        </group>
+    );
+};
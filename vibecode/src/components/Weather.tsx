@@ -2,6 +2,7 @@ import { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import type { WeatherParams } from '../types/biome';
+import { updateWind } from '../utils/wind';
 
 // Helper to generate weather-specific textures
 const createWeatherTexture = (type: string) => {
@@ -53,8 +54,12 @@ const createWeatherTexture = (type: string) => {
     return texture;
 };
 
-export const Weather = ({ params, active }: { params: WeatherParams, active: boolean }) => {
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+// `radial` tilts the particle box so its Y axis follows the local up on spherical worlds
+export const Weather = ({ params, active, radial = false }: { params: WeatherParams, active: boolean, radial?: boolean }) => {
     const pointsRef = useRef<THREE.Points>(null);
+
     const particleCount = 7500;
     const boxSize = 100;
 
@@ -118,6 +123,9 @@ export const Weather = ({ params, active }: { params: WeatherParams, active: boo
             intensityValue.current = Math.max(targetIntensity, intensityValue.current - delta * transitionSpeed);
         }
 
+        // Vegetation sways with the same eased intensity the particles fade with
+        updateWind(intensityValue.current, params.speed, state.clock.getElapsedTime());
+
         if (intensityValue.current <= 0.01 && !active) {
             pointsRef.current.visible = false;
             return;
@@ -126,7 +134,14 @@ export const Weather = ({ params, active }: { params: WeatherParams, active: boo
         }
 
         const posAttr = pointsRef.current.geometry.attributes.position as THREE.BufferAttribute;
-        const playerPos = state.camera.position;
+        // Particles live in the box's frame, so wrap around the player's position in that frame
+        const points = pointsRef.current;
+        if (radial) {
+            points.quaternion.setFromUnitVectors(WORLD_UP, state.camera.position.clone().normalize());
+        } else {
+            points.quaternion.identity();
+        }
+        const playerPos = state.camera.position.clone().applyQuaternion(points.quaternion.clone().invert());
         const time = state.clock.getElapsedTime();
 
         for (let i = 0; i < particleCount; i++) {
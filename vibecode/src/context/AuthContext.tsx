@@ -9,6 +9,7 @@ interface AuthContextType {
     logout: () => Promise<void>;
     verifyPasscode: (code: string) => Promise<boolean>;
     isOwner: boolean;
+    authorId: string | null; // Who gallery saves are credited to; set whenever isOwner is
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -63,9 +64,11 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
     // Owner if Firebase user exists OR passcode verified
     const isOwner = !!user || isAuthenticated;
+    // The passcode identifies no one in particular, so its saves are marked as such
+    const authorId = user?.uid ?? (isAuthenticated ? "passcode" : null);
 
     return (
-        <AuthContext.Provider value={{ user, loading, login, logout, isOwner, verifyPasscode }}>
+        <AuthContext.Provider value={{ user, loading, login, logout, isOwner, authorId, verifyPasscode }}>
             {children}
         </AuthContext.Provider>
     );
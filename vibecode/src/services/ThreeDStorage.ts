@@ -1,6 +1,12 @@
 import { storage } from '../firebaseConfig';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 
+/**
+ * Whether a URL already points into our storage bucket, so saving can reuse it as is
+ */
+export const isStoredAsset = (url: string | null | undefined): url is string =>
+    Boolean(url && url.includes("firebasestorage.googleapis.com"));
+
 /**
  * Uploads a 3D model (GLB) to Firebase Storage
  * @param file The GLB file blob or file object
@@ -30,6 +36,8 @@ export const uploadModelFromUrl = async (url: string, biomeId: string, modelName
         return await getDownloadURL(snapshot.ref);
     } catch (e) {
         console.error("Failed to proxy upload model:", e);
+        // An object URL (from an imported package) is gone next session, so it's no fallback
+        if (url.startsWith("blob:")) throw e;
         return url;
     }
 }
@@ -38,7 +46,7 @@ export const uploadModelFromUrl = async (url: string, biomeId: string, modelName
  * Uploads a texture (PNG/JPG) to Firebase Storage
  * proxying it from a URL if needed (since OpenRouter URLs fade)
  */
-export const uploadTextureFromUrl = async (url: string, biomeId: string, type: "skybox" | "ground"): Promise<string> => {
+export const uploadTextureFromUrl = async (url: string, biomeId: string, type: "skybox" | "ground" | `material_${number}`): Promise<string> => {
     try {
         const response = await fetch(url);
         const blob = await response.blob();
@@ -51,6 +59,7 @@ export const uploadTextureFromUrl = async (url: string, biomeId: string, type: "
         return await getDownloadURL(snapshot.ref);
     } catch (e) {
         console.error("Failed to proxy upload texture:", e);
+        if (url.startsWith("blob:")) throw e; // See uploadModelFromUrl
         return url; // Fallback to original URL if upload fails
     }
 };
@@ -75,3 +84,28 @@ export const uploadAudio = async (base64Audio: string, biomeId: string): Promise
     const snapshot = await uploadBytes(storageRef, blob);
     return await getDownloadURL(snapshot.ref);
 };
+
+/**
+ * Uploads audio from a URL (an imported package's file, say) to Firebase Storage
+ */
+export const uploadAudioFromUrl = async (url: string, biomeId: string): Promise<string> => {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    const path = `biomes/${biomeId}/audio/ambience_${Date.now()}.mp3`;
+    const storageRef = ref(storage, path);
+
+    const snapshot = await uploadBytes(storageRef, blob, { contentType: blob.type || "audio/mpeg" });
+    return await getDownloadURL(snapshot.ref);
+};
+
+/**
+ * Uploads a gallery preview shot (WebP, or PNG where the browser can't encode WebP)
+ */
+export const uploadThumbnail = async (blob: Blob, biomeId: string, kind: "hero" | "overview" | "orbit"): Promise<string> => {
+    const ext = blob.type === "image/webp" ? "webp" : "png";
+    const path = `biomes/${biomeId}/thumbnails/${kind}_${Date.now()}.${ext}`;
+    const storageRef = ref(storage, path);
+
+    const snapshot = await uploadBytes(storageRef, blob, { contentType: blob.type });
+    return await getDownloadURL(snapshot.ref);
+};
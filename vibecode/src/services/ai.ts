@@ -1,20 +1,84 @@
-import type { BiomeData, BiomeParameters, WeatherParams } from '../types/biome';
+import type { BiomeData, BiomeParameters, DetailedDescription, MaterialZone } from '../types/biome';
+import { applyBiomePatch, biomeToEditable, diffBiomes, type BiomeDiffEntry, type BiomePatch } from '../utils/biomePatch';
+import { formatSchemaIssue, schemaErrors, validateBiomeData, validateBiomePatch, validateDetailedDescription, type SchemaIssue, type SchemaResult } from '../utils/biomeSchema';
 import { v4 as uuidv4 } from 'uuid';
+import { getImageProvider, getTextProvider, type JsonRequest } from './providers';
+
+// Strips the markdown code block some models wrap their JSON in
+const parseJsonReply = (reply: string): unknown => JSON.parse(reply.replace(/```json/g, '').replace(/```/g, ''));
+
+// Replies that don't parse or break the schema get sent back this many times with the errors
+const MAX_REPAIR_ATTEMPTS = 2;
+const MAX_VALIDATION_REPORTS = 20;
+
+/**
+ * What validation changed in one generated reply, kept for debugging.
+ */
+export interface ValidationReport {
+    kind: JsonRequest["kind"];
+    createdAt: number;
+    repairAttempts: number;
+    issues: SchemaIssue[]; // Left in the accepted reply, after any repairs
+}
+
+const validationReports: ValidationReport[] = [];
 
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
+/**
+ * Corrections made to recent AI replies, newest first.
+ */
+export const getValidationReports = (): ValidationReport[] => [...validationReports];
 
-// Helper to get key (assuming user defines VITE_OPENROUTER_GEMINI_KEY, but we check variances)
-const getApiKey = () => {
-    return import.meta.env.VITE_OPENROUTER_GEMINI_KEY || import.meta.env.OPENROUTER_GEMINI_KEY || "";
+const recordValidationReport = (report: ValidationReport) => {
+    validationReports.unshift(report);
+    validationReports.length = Math.min(validationReports.length, MAX_VALIDATION_REPORTS);
+    if (report.issues.length === 0) return;
+    console.groupCollapsed(`[AI] ${report.kind}: ${report.issues.length} correction(s) after ${report.repairAttempts} repair(s)`);
+    report.issues.forEach(issue => console.log(`${issue.severity === "error" ? "fixed" : "clamped"} ${formatSchemaIssue(issue)}`));
+    console.groupEnd();
 };
 
-interface OpenRouterResponse {
-    choices: {
-        message: {
-            content: string;
-        };
-    }[];
-}
+const repairPrompt = (request: JsonRequest, reply: string, errors: string[]) => `${request.prompt}
+
+    Your previous reply was:
+    ${reply}
+
+    It was rejected for these reasons:
+    ${errors.map(error => `- ${error}`).join("\n    ")}
+
+    Reply again with the complete corrected JSON, following the schema exactly. Return ONLY JSON.
+    `;
+
+/**
+ * Asks the text provider for JSON and validates it. A reply that doesn't parse or has schema
+ * errors is sent back with the errors for repair; after the last attempt the validated value is
+ * used as is, with defaults filling in whatever was still wrong. Aborting `signal` stops the
+ * request in flight and any repairs still to come.
+ */
+const generateValidated = async <T>(request: JsonRequest, validate: (raw: unknown) => SchemaResult<T>, signal?: AbortSignal): Promise<T> => {
+    const provider = getTextProvider();
+    let reply = await provider.generateJson(request, signal);
+
+    for (let attempt = 0; ; attempt++) {
+        let result: SchemaResult<T> | null = null;
+        let errors: string[];
+        try {
+            result = validate(parseJsonReply(reply));
+            errors = schemaErrors(result.issues).map(formatSchemaIssue);
+        } catch (err) {
+            errors = [`The reply is not valid JSON (${err instanceof Error ? err.message : String(err)})`];
+        }
+
+        if (errors.length === 0 || attempt >= MAX_REPAIR_ATTEMPTS) {
+            if (!result) throw new Error(`AI reply for ${request.kind} is not valid JSON after ${attempt} repair(s)`);
+            recordValidationReport({ kind: request.kind, createdAt: Date.now(), repairAttempts: attempt, issues: result.issues });
+            return result.value;
+        }
+
+        signal?.throwIfAborted();
+        console.warn(`[AI] ${request.kind} reply rejected, asking for a repair:`, errors);
+        reply = await provider.generateJson({ ...request, prompt: repairPrompt(request, reply, errors) }, signal);
+    }
+};
 
 // 1. Randomize "Scientific" Parameters
 export const generateRandomParameters = (): BiomeParameters => {
@@ -28,18 +92,8 @@ export const generateRandomParameters = (): BiomeParameters => {
     };
 };
 
-export interface DetailedDescription {
-    summary: string;
-    ground: string;
-    sky: string;
-    props: string[];
-}
-
-// 2. Call "Gemini Pro" (using OpenRouter ID) for Creative Description
-export const generateBiomeDescription = async (params: BiomeParameters): Promise<DetailedDescription> => {
-    const apiKey = getApiKey();
-    if (!apiKey) throw new Error("Missing API Key. Please set VITE_OPENROUTER_GEMINI_KEY in .env");
-
+// 2. Creative Description from the text provider (Gemini via OpenRouter by default)
+export const generateBiomeDescription = async (params: BiomeParameters, signal?: AbortSignal): Promise<DetailedDescription> => {
     const prompt = `
     You are a Xenobiologist. Describe an alien biome based on these parameters:
     - Temperature: ${params.temperature}°C
@@ -55,29 +109,11 @@ export const generateBiomeDescription = async (params: BiomeParameters): Promise
     Example: {"summary": "A frozen wasteland...", "ground": "blue ice", "sky": "black sky", "props": ["a jagged ice crystal", "a frozen blue fern"]}
     `;
 
-    const response = await fetch(OPENROUTER_API_URL, {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-            model: "google/gemini-3-flash-preview",
-            messages: [{ role: "user", content: prompt }]
-        })
-    });
-
-    if (!response.ok) throw new Error(`AI Request Failed: ${response.statusText}`);
-    const data: OpenRouterResponse = await response.json();
-    let content = data.choices[0].message.content;
-    content = content.replace(/```json/g, '').replace(/```/g, '');
-    return JSON.parse(content) as DetailedDescription;
+    return generateValidated({ kind: "biome-description", prompt, params }, validateDetailedDescription, signal);
 };
 
-// 3. Call "Gemini Flash" for Structured Data Generation
-export const generateBiomeData = async (desc: DetailedDescription, params: BiomeParameters): Promise<BiomeData> => {
-    const apiKey = getApiKey();
-
+// 3. Structured Data Generation from the text provider
+export const generateBiomeData = async (desc: DetailedDescription, params: BiomeParameters, signal?: AbortSignal): Promise<BiomeData> => {
     // We want JSON output.
     const prompt = `
     You are a Procedural Generation Engineer. Convert this alien biome description into structured JSON parameters for a terrain engine.
@@ -93,22 +129,65 @@ export const generateBiomeData = async (desc: DetailedDescription, params: Biome
             "baseColor": "hex",
             "highColor": "hex",
             "waterLevel": number (-10 to 10),
+            "liquid": {
+                "type": "water" | "acid" | "lava" | "methane" | "mercury",
+                "color": "hex"
+            },
+            "erosion": {
+                "iterations": number (0 to 20000),
+                "rainAmount": number (0.2 to 2),
+                "sedimentCapacity": number (1 to 8),
+                "talusAngle": number (25 to 50)
+            } | null,
+            "carvers": [
+                {
+                    "type": "cavern" | "tunnel",
+                    "noiseScale": number (0.005 to 0.02),
+                    "threshold": number (cavern: 0.3 to 0.7, tunnel: 0.15 to 0.35),
+                    "strength": number (5 to 30),
+                    "minHeight": number,
+                    "maxHeight": number
+                }
+            ] | null,
+            "materials": [
+                {
+                    "name": "Zone Name (e.g. Beach Sand, Cliff Rock, Peak Ice)",
+                    "minHeight": number,
+                    "maxHeight": number,
+                    "minSlope": number (0 to 90, degrees),
+                    "maxSlope": number (0 to 90, degrees),
+                    "blend": number (0.5 to 5),
+                    "color": "hex",
+                    "texturePrompt": "Short description of the raw ground material for this zone"
+                }
+            ],
             "layers": [
                 {
                     "name": "Base Layer (Large features)",
+                    "type": "fbm" | "ridged" | "billow" | "terraced" | "domain-warp",
+                    "blend": "add",
                     "noiseScale": number (0.002 to 0.01),
                     "heightScale": number (5 to 40),
-                    "roughness": number (0 to 0.5),
+                    "octaves": integer (1 to 6),
+                    "lacunarity": number (1.8 to 2.5),
+                    "gain": number (0 to 0.6),
+                    "roughness": 0,
                     "offsetX": 0,
                     "offsetZ": 0
                 },
                 {
                     "name": "Detail Layer (Small bumps)",
+                    "type": "fbm" | "ridged" | "billow" | "terraced" | "domain-warp",
+                    "blend": "add" | "multiply" | "max",
                     "noiseScale": number (0.02 to 0.05),
                     "heightScale": number (1 to 5),
-                    "roughness": number (0 to 1),
+                    "octaves": integer (1 to 6),
+                    "lacunarity": number (1.8 to 2.5),
+                    "gain": number (0 to 0.6),
+                    "roughness": 0,
                     "offsetX": 0,
-                    "offsetZ": 0
+                    "offsetZ": 0,
+                    "mask": { "layer": number (index of an earlier layer), "threshold": number (-1 to 1), "softness": number (0.05 to 0.5), "invert": boolean } | null
                 }
             ]
         },
@@ -124,7 +203,18 @@ export const generateBiomeData = async (desc: DetailedDescription, params: Biome
                 "name": "Object Name",
                 "prompt": "Detailed 3D generation prompt for Meshy AI",
                 "density": number (0.01 to 0.5),
-                "baseScale": number (1 to 10)
+                "baseScale": number (1 to 10),
+                "rigidity": number (0 to 1),
+                "collidable": boolean,
+                "placement": {
+                    "minHeight": number | null,
+                    "maxHeight": number | null,
+                    "maxSlope": number (0 to 90, degrees) | null,
+                    "waterDistance": number (0 to 60) | null,
+                    "clusterSize": integer (1 to 12) | null,
+                    "clusterRadius": number (2 to 20) | null,
+                    "spacing": number (0 to 10) | null
+                } | null
             }
         ],
         "weather": {
@@ -132,173 +222,110 @@ export const generateBiomeData = async (desc: DetailedDescription, params: Biome
             "intensity": number (0 to 3),
             "color": "hex, consider using a color that is significantly different from white",
             "speed": number (0.5 to 5.0)
-        }
+        },
+        "world": { "shape": "plane" | "sphere", "radius": number (150 to 600) } or null
     }
     
     CRITICAL PHYSICS RULES:
     1. TRAVERSABILITY: The terrain MUST be walkable. Avoid combinations of high noiseScale (>0.02) and high heightScale (>10) which create impenetrable spikes.
     2. COHERENCE: If you want big mountains, use low noiseScale (<0.005). If you want rocky detail, use low heightScale (<3).
     3. WEATHER: Match weather to environment (Snow for cold, Sandstorm for dry/hot, Spores for thick atmosphere).
-    4. Return ONLY JSON. No formatting blocks.
+    4. LIQUID: Everything below waterLevel is flooded with the liquid. Match it to temperature (Lava for very hot, Methane for very cold, Water otherwise unless the description says otherwise).
+    5. EROSION: Weathered worlds (old, wet, windy) get erosion: more iterations and rain for deeply carved valleys, a lower talusAngle for crumbling slopes. Use null for young, volcanic or airless terrain.
+    6. LAYERS: "ridged" makes sharp mountain crests, "billow" puffy rounded hills, "terraced" mesas and stepped cliffs (set "terraceSteps", 3 to 12), "domain-warp" swirling eroded shapes (set "warpStrength", 0.5 to 2). "multiply" scales the layers above it by 0 to heightScale (use heightScale around 1-2), "max" only raises terrain. Use a mask so a layer (e.g. mountains) appears only where the masked layer's value passes the threshold.
+    7. MATERIALS: 2 to 4 zones, ordered by priority. Typical set: sand or mud just around waterLevel, the main ground material on gentle slopes, rock on slopes steeper than ~35 degrees, and snow/ice/crystal on the highest peaks. Use -1000 and 1000 for open height bounds.
+    8. CAVES: Add carvers only when the description mentions caves, arches, overhangs, hollow or honeycombed ground; otherwise null. "tunnel" makes winding passages, "cavern" large hollow chambers. strength is how deep below the surface they reach; let maxHeight rise above the terrain for arches and open cave mouths, keep it below for hidden caverns.
+    9. WORLD: Use null (an endless plane) for most biomes. Use "sphere" only for small worlds the description calls a moon, asteroid or planetoid; smaller radius means a tighter curve.
+    10. PROPS: Use placement to put each prop where it belongs, e.g. crystals only on peaks (minHeight near the top of the terrain), reeds by the shore (waterDistance 0 to 5), trees off cliffs (maxSlope around 30). clusterSize above 1 grows props in clumps (groves, boulder fields). spacing keeps other props away, e.g. rocks listed before trees with spacing 3 so trees don't spawn inside them. Leave a field null when it doesn't matter. rigidity is how much the prop resists wind: 0 to 0.3 for grass, fronds and leafy plants, around 0.6 for trees, 1 for rocks, crystals, bones and anything solid. collidable is false only for small things the player should walk through (grass, moss, small flowers, pebbles); trees, rocks and crystals are true.
+    11. Return ONLY JSON. No formatting blocks.
     `;
 
-    const response = await fetch(OPENROUTER_API_URL, {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-            model: "google/gemini-3-flash-preview",
-            messages: [{ role: "user", content: prompt }]
-        })
-    });
-
-    const data: OpenRouterResponse = await response.json();
-    let jsonStr = data.choices[0].message.content;
-
-    // Clean markdown code blocks if present
-    jsonStr = jsonStr.replace(/```json/g, '').replace(/```/g, '');
-
-    const parsedContext = JSON.parse(jsonStr);
-
-    return {
+    const base = {
         id: uuidv4(),
-        name: parsedContext.name,
         description: desc.summary,
         parameters: params,
-        terrain: {
-            ...parsedContext.terrain,
-            seed: Math.floor(Math.random() * 100000)
-        },
-        atmosphere: parsedContext.atmosphere,
-        musicPrompt: parsedContext.musicPrompt,
-        props: (parsedContext.props || []).map((p: any) => ({
-            id: uuidv4(),
-            name: p.name || 'Alien Object',
-            prompt: p.prompt || 'Alien vegetation',
-            density: p.density ?? 0.1,
-            baseScale: p.baseScale ?? 5
-        })),
-        weather: {
-            type: parsedContext.weather?.type || 'none',
-            intensity: parsedContext.weather?.intensity ?? 0,
-            color: parsedContext.weather?.color || '#ffffff',
-            speed: parsedContext.weather?.speed ?? 1.0
-        } as WeatherParams
+        seed: Math.floor(Math.random() * 100000)
     };
+    return generateValidated({ kind: "biome-data", prompt, description: desc, params }, raw => validateBiomeData(raw, base), signal);
 };
-// 4. Generate Texture using "Nano Banana" (Gemini 2.5 Flash Image via OpenRouter)
-export const generateBiomeTexture = async (description: string): Promise<string> => {
-    const apiKey = getApiKey();
-    const model = "google/gemini-2.5-flash-image";
-    const isGemini = model.includes("gemini");
-    const prompt = `Seamless repeatable top-down texture of ${description}. NO PLANTS, NO TREES, NO GRASS. Only raw ground material (e.g. ${description}). High resolution, detailed, photorealistic, PBR style.`;
-
-    // Updated based on OpenRouter Docs: Use /chat/completions for multimodal generation
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": "http://localhost:5173",
-            "X-Title": "Vibecode"
-        },
-        body: JSON.stringify({
-            model: model,
-            messages: [{ role: "user", content: prompt }],
-            // Gemini requires explicit modalities. Others (like Flux) might strict fail if "text" is requested but not supported.
-            ...(isGemini ? { modalities: ["image", "text"] } : {}),
-        })
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        console.warn("Texture Generation Failed:", response.status, errorText);
-        return "";
-    }
-
-    const data = await response.json();
 
-    // Detailed logging for debugging
-    console.log("[AI] Texture Gen Response Choices:", JSON.stringify(data.choices, null, 2));
+/**
+ * An edit drafted from an instruction, ready to preview: the patch, the biome it produces and
+ * what changes between the two.
+ */
+export interface BiomeEdit {
+    instruction: string;
+    patch: BiomePatch;
+    after: BiomeData;
+    diff: BiomeDiffEntry[];
+    issues: SchemaIssue[]; // Corrections made while applying the patch
+}
 
-    const message = data.choices?.[0]?.message;
+// 3b. Natural-language edit of an existing biome, returned as a patch
+export const generateBiomePatch = async (biome: BiomeData, instruction: string, signal?: AbortSignal): Promise<BiomeEdit> => {
+    const prompt = `
+    You are a Procedural Generation Engineer editing an existing alien biome for a terrain engine.
 
-    if (message) {
-        // 1. Try OpenRouter/OpenAI "images" array (non-standard but possible)
-        if (message.images && message.images.length > 0) {
-            const imgObj = message.images[0];
-            const url = imgObj.image_url?.url || imgObj.url || "";
-            console.log("[AI] Found URL in message.images:", url);
-            return url;
-        }
+    Current biome JSON:
+    ${JSON.stringify(biomeToEditable(biome))}
 
-        // 2. Try parsing Markdown image from content: ![alt](url)
-        if (message.content) {
-            const mdMatch = message.content.match(/!\[.*?\]\((.*?)\)/);
-            if (mdMatch) {
-                console.log("[AI] Found URL in message.content (Markdown):", mdMatch[1]);
-                return mdMatch[1];
-            }
+    Edit request: "${instruction}"
 
-            // 3. Try finding a raw URL in the content
-            // We ignore parentheses at the end to avoid matching markdown closing parens if regex failed
-            const urlMatch = message.content.match(/https?:\/\/[^\s)]+/);
-            if (urlMatch) {
-                console.log("[AI] Found URL in message.content (Raw):", urlMatch[0]);
-                return urlMatch[0];
-            }
-        }
+    Output MUST be valid JSON in this format:
+    {
+        "summary": "One short sentence describing the edit",
+        "set": [ { "path": "terrain.layers[0].heightScale", "value": 25 } ],
+        "removeProps": ["Exact Name Of A Prop To Remove"],
+        "addProps": [ { "name", "prompt", "density", "baseScale", "rigidity", "collidable", "placement" exactly as in the props of the current biome } ]
     }
 
-    console.warn("Texture Generation: No image found in response", data);
-    return "";
-};
-
-// 5. Generate Skybox using Flux
-export const generateSkyboxTexture = async (description: string): Promise<string> => {
-    const apiKey = getApiKey();
-    const model = "google/gemini-2.5-flash-image";
-    const isGemini = model.includes("gemini");
-    // To minimize seams, we explicitly ask for equirectangular 360 panorama and mention no foreground objects.
-    const prompt = `Seamless 360-degree equirectangular panoramic skybox of ${description}. SKY ONLY. Panoramic view, no ground, no plants, no foreground objects. Perfect horizontal tiling. High resolution, cosmic, realistic.`;
+    RULES:
+    1. Change ONLY what the request asks for; leave everything else out of the patch.
+    2. Paths use dots for fields and [index] for array items, relative to the current biome JSON. A value may be a whole object or array.
+    3. Keep values within the ranges the engine accepts: waterLevel -10 to 10, fogDensity 0.001 to 0.05, sunIntensity 0.1 to 2, base layer heightScale 5 to 40, weather intensity 0 to 3. Colors are hex strings.
+    4. TRAVERSABILITY still applies: no layer may have both noiseScale above 0.02 and heightScale above 10.
+    5. To replace a prop, remove it by name and add the new one. To change how an existing prop looks, set its "prompt"; its 3D model is regenerated.
+    6. "parameters.groundDescription" drives the ground texture, "parameters.skyDescription" the skybox, each material's "texturePrompt" its zone texture and "musicPrompt" the music. Change them only when the look or sound they describe should change; each change regenerates that asset.
+    7. Use empty arrays for parts of the format you don't need. Return ONLY JSON. No formatting blocks.
+    `;
 
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-            "Authorization": `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-            "HTTP-Referer": "http://localhost:5173",
-            "X-Title": "Vibecode"
-        },
-        body: JSON.stringify({
-            model: model,
-            messages: [{ role: "user", content: prompt }],
-            ...(isGemini ? { modalities: ["image", "text"] } : {}),
-        })
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        console.warn("Skybox Generation Failed:", response.status, errorText);
-        return "";
-    }
+    return generateValidated({ kind: "biome-patch", prompt, biome, instruction }, raw => {
+        const patch = validateBiomePatch(raw);
+        const applied = applyBiomePatch(biome, patch.value);
+        return {
+            value: { instruction, patch: patch.value, after: applied.value, diff: diffBiomes(biome, applied.value), issues: applied.issues },
+            issues: [...patch.issues, ...applied.issues]
+        };
+    }, signal);
+};
 
-    const data = await response.json();
-    const message = data.choices?.[0]?.message;
+// 4. Generate Texture with the image provider ("Nano Banana" via OpenRouter by default)
+export const generateBiomeTexture = async (description: string, signal?: AbortSignal): Promise<string> => {
+    const prompt = `Seamless repeatable top-down texture of ${description}. NO PLANTS, NO TREES, NO GRASS. Only raw ground material (e.g. ${description}). High resolution, detailed, photorealistic, PBR style.`;
+    return getImageProvider().generateImage(prompt, "texture", signal);
+};
 
-    if (message) {
-        if (message.images && message.images.length > 0) {
-            return message.images[0].image_url?.url || message.images[0].url || "";
+/**
+ * Generates one ground texture per material zone, in parallel.
+ * Zones whose texture fails keep their flat colour; aborting `signal` fails them all.
+ */
+export const generateZoneTextures = async (zones: MaterialZone[], signal?: AbortSignal): Promise<MaterialZone[]> => {
+    return Promise.all(zones.map(async zone => {
+        if (zone.textureUrl || !zone.texturePrompt) return zone;
+        try {
+            const textureUrl = await generateBiomeTexture(zone.texturePrompt, signal);
+            return textureUrl ? { ...zone, textureUrl } : zone;
+        } catch (err) {
+            if (signal?.aborted) throw err;
+            console.warn(`Zone texture gen failed for ${zone.name}`, err);
+            return zone;
         }
-        if (message.content) {
-            const mdMatch = message.content.match(/!\[.*?\]\((.*?)\)/);
-            if (mdMatch) return mdMatch[1];
-            const urlMatch = message.content.match(/https?:\/\/[^\s)]+/);
-            if (urlMatch) return urlMatch[0];
-        }
-    }
+    }));
+};
 
-    return "";
+// 5. Generate Skybox with the image provider
+export const generateSkyboxTexture = async (description: string, signal?: AbortSignal): Promise<string> => {
+    // To minimize seams, we explicitly ask for equirectangular 360 panorama and mention no foreground objects.
+    const prompt = `Seamless 360-degree equirectangular panoramic skybox of ${description}. SKY ONLY. Panoramic view, no ground, no plants, no foreground objects. Perfect horizontal tiling. High resolution, cosmic, realistic.`;
+    return getImageProvider().generateImage(prompt, "skybox", signal);
 };
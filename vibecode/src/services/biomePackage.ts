@@ -0,0 +1,174 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'three/examples/jsm/libs/fflate.module.js';
+import { v4 as uuidv4 } from 'uuid';
+import type { BiomeData } from '../types/biome';
+import { BIOME_SCHEMA_VERSION, fromBiomeRecord, toBiomeRecord } from '../utils/biomeRecord';
+
+// A .biome.zip holds one world, for archiving it, moving it between Firebase projects or playing
+// it offline: manifest.json, the biome record as biome.json, and every asset as a file under
+// assets/. biome.json refers to packaged assets by their path in the zip instead of a URL.
+
+export const BIOME_PACKAGE_EXTENSION = ".biome.zip";
+const PACKAGE_FORMAT = "new-horizons-biome";
+const MANIFEST_PATH = "manifest.json";
+const BIOME_PATH = "biome.json";
+
+export type BiomePackageRole = "biome" | "ground" | "skybox" | "zone" | "model" | "audio";
+
+export interface BiomePackageFile {
+    path: string;
+    role: BiomePackageRole;
+    contentType: string;
+    size: number;
+    sha256: string; // Hex digest of the file's bytes
+}
+
+export interface BiomePackageManifest {
+    format: typeof PACKAGE_FORMAT;
+    schemaVersion: number; // Of biome.json
+    name: string;
+    exportedAt: number;
+    files: BiomePackageFile[]; // biome.json first, then the assets by path
+}
+
+export interface BiomePackageExport {
+    blob: Blob;
+    fileName: string;
+    missing: string[]; // Assets that couldn't be fetched; biome.json keeps their original URL
+}
+
+export interface ImportedBiomePackage {
+    manifest: BiomePackageManifest;
+    biome: BiomeData; // Packaged assets are object URLs, valid for this session
+}
+
+const EXTENSIONS: Record<string, string> = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/webp": "webp",
+    "model/gltf-binary": "glb",
+    "audio/mpeg": "mp3",
+    "audio/wav": "wav",
+    "audio/ogg": "ogg"
+};
+
+const sha256 = async (bytes: Uint8Array) => {
+    const digest = await crypto.subtle.digest("SHA-256", bytes as Uint8Array<ArrayBuffer>);
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const fileNameFor = (name: string) => (name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "biome") + BIOME_PACKAGE_EXTENSION;
+
+/**
+ * Packs a biome and every asset it points at into a .biome.zip. Prop URLs and
+ * `audioOverrideUrl` are what gets packed, so fill them in from the session's caches first.
+ */
+export async function exportBiomePackage(biome: BiomeData): Promise<BiomePackageExport> {
+    const zippable: Zippable = {};
+    const files: BiomePackageFile[] = [];
+    const missing: string[] = [];
+
+    // Fetches one asset into the package and returns its path there, or the URL again if it can't be fetched
+    const pack = async (url: string | undefined, name: string, role: BiomePackageRole, fallbackExtension: string) => {
+        if (!url) return url;
+        try {
+            const response = await fetch(url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const blob = await response.blob();
+            const path = `assets/${name}.${EXTENSIONS[blob.type] ?? fallbackExtension}`;
+            const bytes = new Uint8Array(await blob.arrayBuffer());
+            // Images, models and audio are compressed already
+            zippable[path] = [bytes, { level: 0 }];
+            files.push({ path, role, contentType: blob.type || "application/octet-stream", size: bytes.length, sha256: await sha256(bytes) });
+            return path;
+        } catch (err) {
+            console.warn(`Package: could not fetch ${name}`, err);
+            missing.push(name);
+            return url;
+        }
+    };
+
+    const [textureUrl, skyboxUrl, materials, props] = await Promise.all([
+        pack(biome.terrain.textureUrl, "ground", "ground", "png"),
+        pack(biome.atmosphere.skyboxUrl, "skybox", "skybox", "jpg"),
+        Promise.all((biome.terrain.materials ?? []).map(async (zone, i) => ({
+            ...zone, textureUrl: await pack(zone.textureUrl, `zones/zone_${i}`, "zone", "png")
+        }))),
+        Promise.all(biome.props.map(async (prop, i) => ({
+            ...prop, url: await pack(prop.url, `models/${i}_${prop.name.replace(/[^\w-]+/g, "_")}`, "model", "glb")
+        }))),
+        // Music isn't part of the record; the manifest's "audio" file is the ambience
+        pack(biome.audioOverrideUrl, "ambience", "audio", "mp3")
+    ]);
+
+    const record = toBiomeRecord({
+        ...biome,
+        terrain: { ...biome.terrain, textureUrl, materials },
+        atmosphere: { ...biome.atmosphere, skyboxUrl },
+        props
+    });
+    const biomeJson = strToU8(JSON.stringify(record, null, 2));
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    files.unshift({ path: BIOME_PATH, role: "biome", contentType: "application/json", size: biomeJson.length, sha256: await sha256(biomeJson) });
+
+    const manifest: BiomePackageManifest = {
+        format: PACKAGE_FORMAT,
+        schemaVersion: BIOME_SCHEMA_VERSION,
+        name: String(record.name),
+        exportedAt: Date.now(),
+        files
+    };
+    const zipped = zipSync({ [MANIFEST_PATH]: strToU8(JSON.stringify(manifest, null, 2)), [BIOME_PATH]: biomeJson, ...zippable });
+    return { blob: new Blob([zipped as Uint8Array<ArrayBuffer>], { type: "application/zip" }), fileName: fileNameFor(String(record.name)), missing };
+}
+
+/**
+ * Reads a .biome.zip back into a biome. Every file is checked against the manifest's checksums
+ * first; a package that doesn't match is rejected rather than half loaded.
+ */
+export async function importBiomePackage(file: Blob): Promise<ImportedBiomePackage> {
+    let entries: Record<string, Uint8Array>;
+    try {
+        entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    } catch {
+        throw new Error("Not a zip file");
+    }
+    if (!entries[MANIFEST_PATH]) throw new Error("Not a biome package: manifest.json is missing");
+    const manifest = JSON.parse(strFromU8(entries[MANIFEST_PATH])) as BiomePackageManifest;
+    if (manifest.format !== PACKAGE_FORMAT || !Array.isArray(manifest.files)) {
+        throw new Error(`Not a biome package: unknown format "${manifest.format}"`);
+    }
+    if (!manifest.files.some(entry => entry.path === BIOME_PATH)) throw new Error("Damaged biome package: biome.json isn't listed");
+
+    const problems = (await Promise.all(manifest.files.map(async entry => {
+        const bytes = entries[entry.path];
+        if (!bytes) return `${entry.path} is missing`;
+        return await sha256(bytes) === entry.sha256 ? null : `${entry.path} doesn't match its checksum`;
+    }))).filter(Boolean);
+    if (problems.length > 0) throw new Error(`Damaged biome package: ${problems.join("; ")}`);
+
+    const biome = fromBiomeRecord(JSON.parse(strFromU8(entries[BIOME_PATH])));
+
+    // Packaged paths become object URLs; anything else is an external URL and stays as it is
+    const urls = new Map(manifest.files.filter(entry => entry.role !== "biome").map(entry => [
+        entry.path,
+        URL.createObjectURL(new Blob([entries[entry.path] as Uint8Array<ArrayBuffer>], { type: entry.contentType }))
+    ]));
+    const resolve = (url: string | undefined) => (url && urls.get(url)) || url;
+    const audio = manifest.files.find(entry => entry.role === "audio");
+
+    return {
+        manifest,
+        biome: {
+            ...biome,
+            id: biome.id || uuidv4(),
+            terrain: {
+                ...biome.terrain,
+                textureUrl: resolve(biome.terrain.textureUrl),
+                materials: biome.terrain.materials?.map(zone => ({ ...zone, textureUrl: resolve(zone.textureUrl) }))
+            },
+            atmosphere: { ...biome.atmosphere, skyboxUrl: resolve(biome.atmosphere.skyboxUrl) },
+            props: biome.props.map(prop => ({ ...prop, url: resolve(prop.url) })),
+            audioOverrideUrl: audio && urls.get(audio.path)
+        }
+    };
+}
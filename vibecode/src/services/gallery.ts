@@ -1,11 +1,25 @@
 import { db } from '../firebaseConfig';
-import { collection, addDoc, getDocs, doc, getDoc, query, orderBy, limit } from 'firebase/firestore';
+import {
+    collection, getDocs, doc, getDoc, query, orderBy, limit, where, startAfter, updateDoc, increment, runTransaction, writeBatch,
+    type DocumentData, type QueryConstraint, type QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { v4 as uuidv4 } from 'uuid';
 import type { BiomeData } from '../types/biome';
+import { isStoredAsset, uploadTextureFromUrl } from './ThreeDStorage';
+import { fromBiomeRecord, toBiomeRecord } from '../utils/biomeRecord';
+import { gallerySearchTerms, gallerySearchWords, type GalleryFilters } from '../utils/galleryQuery';
+import { diffBiomes } from '../utils/biomePatch';
 
 export interface SavedBiome extends BiomeData {
     firestoreId?: string; // ID of the document itself
+    schemaVersion?: number; // Of the biome record (utils/biomeRecord); missing on saves from before versioning
     authorId: string;
     timestamp: number;
+    searchTerms?: string[]; // Word prefixes of the name and description, for search
+    loadCount?: number; // Times it was opened from the gallery, for sorting by popularity
+    updatedAt?: number; // Last save or revert; `timestamp` stays the first save
+    revisionCount?: number; // Revisions ever made; numbers aren't reused after a delete
+    currentRevisionId?: string; // The revision the entry shows
     // We override specific fields with permanent URLs
     assets: {
         skyboxUrl: string;
@@ -15,185 +29,394 @@ export interface SavedBiome extends BiomeData {
             type: string;
             url: string;
         }[];
+        // Preview shots for the gallery card; missing on biomes saved before they existed
+        thumbnails?: {
+            hero: string;
+            overview: string;
+            orbit?: string; // Animated WebP, played on hover
+        };
     };
 }
 
 const COLLECTION_NAME = "biomes";
+const REVISIONS = "revisions";
+const PAGE_SIZE = 20;
+// Filters Firestore can't apply alongside the others are checked here, scanning at most this
+// many pages' worth of documents per request
+const MAX_SCAN_BATCHES = 5;
+// Most entries read for one family tree
+const MAX_LINEAGE_SIZE = 200;
 
-export const saveBiomeToGallery = async (biome: BiomeData, assets: SavedBiome['assets'], authorId: string = "owner") => {
-    // STRICT SANITIZATION
-    // Firestore rejects nested arrays (arrays inside arrays) and custom prototypes.
-    // We manually reconstruct the object to guarantee it's a plain JSON structure matching our schema.
-
-    const safeLayers = (biome.terrain.layers || []).map(l => ({
-        name: String(l.name || "Layer"),
-        noiseScale: Number(l.noiseScale) || 0.01,
-        heightScale: Number(l.heightScale) || 1,
-        roughness: Number(l.roughness) || 0.5,
-        offsetX: Number(l.offsetX) || 0,
-        offsetZ: Number(l.offsetZ) || 0
-    }));
+/**
+ * One save of a gallery entry, kept in its "revisions" subcollection.
+ */
+export interface GalleryRevision {
+    revisionId: string;
+    number: number;
+    biome: SavedBiome; // The full snapshot, as the entry looked after this save
+    authorId: string;
+    summary: string;
+    createdAt: number;
+}
 
-    const safeTerrain = {
-        baseColor: String(biome.terrain.baseColor || "#000000"),
-        highColor: String(biome.terrain.highColor || "#ffffff"),
-        waterLevel: Number(biome.terrain.waterLevel) || 0,
-        // WORKAROUND: Firestore is flagging "invalid nested entity" in terrain.
-        // We serialize layers to a string to guarantee no nested array issues.
-        layers: JSON.stringify(safeLayers),
-        seed: Number(biome.terrain.seed) || 0,
-        // CRITICAL FIX: Prefer the uploaded asset URL. The original biome.terrain.textureUrl
-        // might be a massive Base64 string that exceeds Firestore's 1MB limit.
-        textureUrl: assets.groundTextureUrl || (biome.terrain.textureUrl ? String(biome.terrain.textureUrl).substring(0, 500) : null)
-    };
+// The fields of an entry that make up the world; a revision stores exactly these
+const SNAPSHOT_FIELDS = ["schemaVersion", "id", "name", "description", "musicPrompt", "parameters", "terrain", "props", "atmosphere", "weather", "world", "lineage", "assets"];
 
-    const safeAtmosphere = {
-        skyColor: String(biome.atmosphere.skyColor || "#000000"),
-        fogColor: String(biome.atmosphere.fogColor || "#000000"),
-        fogDensity: Number(biome.atmosphere.fogDensity) || 0.01,
-        sunIntensity: Number(biome.atmosphere.sunIntensity) || 1.0,
-        // CRITICAL FIX: Prefer the uploaded asset URL.
-        skyboxUrl: assets.skyboxUrl || (biome.atmosphere.skyboxUrl ? String(biome.atmosphere.skyboxUrl).substring(0, 500) : null)
-    };
+const pickSnapshot = (data: DocumentData): DocumentData =>
+    Object.fromEntries(SNAPSHOT_FIELDS.filter(field => data[field] !== undefined).map(field => [field, data[field]]));
 
-    const safeWeather = {
-        type: String(biome.weather.type || 'none'),
-        intensity: Number(biome.weather.intensity) || 0,
-        color: String(biome.weather.color || '#ffffff'),
-        speed: Number(biome.weather.speed) || 1
-    };
+// "Changed terrain.waterLevel, atmosphere.fogColor and 3 more" from the parameters that differ
+const describeChanges = (galleryId: string, before: DocumentData, after: DocumentData) => {
+    const paths = diffBiomes(parseSavedBiome(galleryId, before), parseSavedBiome(galleryId, after)).map(entry => entry.path);
+    if (paths.length === 0) return "No parameter changes";
+    const shown = paths.slice(0, 3).join(", ");
+    return paths.length > 3 ? `Changed ${shown} and ${paths.length - 3} more` : `Changed ${shown}`;
+};
 
-    const safeParams = {
-        temperature: Number(biome.parameters.temperature) || 0,
-        gravity: Number(biome.parameters.gravity) || 1,
-        atmosphereDensity: String(biome.parameters.atmosphereDensity || "Standard"),
-        description: String(biome.parameters.description || ""),
-        groundDescription: String(biome.parameters.groundDescription || ""),
-        skyDescription: String(biome.parameters.skyDescription || "")
-    };
+// Firestore holds URLs, not Base64 (it would blow the 1MB document limit), and caps their length.
+// Object URLs (an imported package's assets) die with the session, so they aren't kept either.
+const firestoreUrl = (url: unknown) =>
+    typeof url === "string" && url && !url.startsWith("data:") && !url.startsWith("blob:") ? url.substring(0, 500) : null;
 
-    const safeProps = (biome.props || []).map(p => ({
-        id: String(p.id),
-        name: String(p.name),
-        prompt: String(p.prompt),
-        density: Number(p.density) || 0,
-        baseScale: Number(p.baseScale) || 1,
-        url: p.url ? String(p.url) : null
+// The biome's record in the stored document shape; zone textures are uploaded on the way
+const toGalleryPayload = async (biome: BiomeData, assets: SavedBiome['assets']) => {
+    // Zone textures usually come back from the generator as temporary URLs or Base64,
+    // so each one is uploaded unless it already lives in our storage bucket
+    const biomeId = biome.id || "unknown_biome";
+    const materials = await Promise.all((biome.terrain.materials || []).map(async (z, index) => {
+        let textureUrl = z.textureUrl;
+        if (textureUrl && !isStoredAsset(textureUrl)) {
+            textureUrl = await uploadTextureFromUrl(textureUrl, biomeId, `material_${index}`);
+        }
+        return { ...z, textureUrl };
     }));
 
-    const cleanBiome = {
-        id: biome.id,
-        name: String(biome.name || "Unnamed Biome"),
-        description: String(biome.description || ""),
-        musicPrompt: biome.musicPrompt ? String(biome.musicPrompt) : null,
-        parameters: safeParams,
-        terrain: JSON.stringify(safeTerrain),
-        props: JSON.stringify(safeProps),
-        atmosphere: safeAtmosphere,
-        weather: safeWeather,
-        assets: JSON.parse(JSON.stringify(assets)),
-        authorId: String(authorId),
-        timestamp: Date.now()
+    const record = toBiomeRecord({
+        ...biome,
+        // Prefer the uploaded asset URLs; the generated ones may be Base64 or expire
+        terrain: { ...biome.terrain, materials, textureUrl: assets.groundTextureUrl || biome.terrain.textureUrl },
+        atmosphere: { ...biome.atmosphere, skyboxUrl: assets.skyboxUrl || biome.atmosphere.skyboxUrl }
+    });
+    const terrain = record.terrain as DocumentData;
+    const atmosphere = record.atmosphere as DocumentData;
+
+    // WORKAROUND: Firestore rejects nested arrays (arrays inside arrays), flagging "invalid nested
+    // entity" in terrain, so terrain and props are stored as JSON strings
+    return {
+        ...record,
+        terrain: JSON.stringify({
+            ...terrain,
+            textureUrl: firestoreUrl(terrain.textureUrl),
+            materials: (terrain.materials as DocumentData[]).map(z => ({ ...z, textureUrl: firestoreUrl(z.textureUrl) }))
+        }),
+        props: JSON.stringify((record.props as DocumentData[]).map(p => ({ ...p, url: firestoreUrl(p.url) }))),
+        atmosphere: { ...atmosphere, skyboxUrl: firestoreUrl(atmosphere.skyboxUrl) },
+        assets: JSON.parse(JSON.stringify(assets))
+    } as DocumentData;
+};
+
+/**
+ * Saves a biome as a new revision of its gallery entry, creating the entry on the first save.
+ * The entry is `biome.galleryId` when it came from the gallery, otherwise the biome's own id.
+ * Resolves to the entry's id.
+ */
+export const saveBiomeToGallery = async (
+    biome: BiomeData,
+    assets: SavedBiome['assets'],
+    { authorId, summary = "" }: { authorId: string; summary?: string }
+): Promise<string> => {
+    const payload = await toGalleryPayload(biome, assets);
+    const entryId = biome.galleryId || biome.id;
+    const entryRef = entryId ? doc(db, COLLECTION_NAME, entryId) : doc(collection(db, COLLECTION_NAME));
+    const revisions = collection(entryRef, REVISIONS);
+
+    console.log("Saving Biome to Firestore:", payload);
+
+    await runTransaction(db, async transaction => {
+        const existing = await transaction.get(entryRef);
+        const previous = existing.exists() ? existing.data() : null;
+        const now = Date.now();
+        let count = previous?.revisionCount ?? 0;
+
+        // Entries saved before revisions existed get their current state kept as revision 1
+        if (previous && previous.revisionCount === undefined) {
+            count = 1;
+            transaction.set(doc(revisions), {
+                number: 1, snapshot: pickSnapshot(previous), authorId: String(previous.authorId || authorId),
+                summary: "Original save", createdAt: Number(previous.timestamp) || now
+            });
+        }
+
+        const revisionRef = doc(revisions);
+        transaction.set(revisionRef, {
+            number: count + 1,
+            snapshot: payload,
+            authorId: String(authorId),
+            summary: summary.trim() || (previous ? describeChanges(entryRef.id, previous, payload) : "First save"),
+            createdAt: now
+        });
+        transaction.set(entryRef, {
+            ...payload,
+            authorId: String(authorId),
+            timestamp: previous?.timestamp ?? now,
+            updatedAt: now,
+            searchTerms: gallerySearchTerms(String(payload.name), String(payload.description)),
+            loadCount: Number(previous?.loadCount) || 0,
+            revisionCount: count + 1,
+            currentRevisionId: revisionRef.id
+        });
+    });
+    return entryRef.id;
+};
+
+// Terrain and props are stored as JSON strings (see toGalleryPayload); the record handles the
+// shapes of older saves
+const parseSavedBiome = (firestoreId: string, data: DocumentData): SavedBiome => {
+    const decode = (value: unknown, field: string) => {
+        if (typeof value !== "string") return value;
+        try {
+            return JSON.parse(value);
+        } catch (e) {
+            console.error(`Error parsing ${field}:`, e);
+            return field === "props" ? [] : {};
+        }
     };
+    const biome = fromBiomeRecord({ ...data, terrain: decode(data.terrain, "terrain"), props: decode(data.props, "props") });
 
-    console.log("Saving Biome to Firestore:", cleanBiome);
+    return {
+        ...data,
+        ...biome,
+        id: biome.id || firestoreId,
+        props: biome.props || [],
+        lineage: biome.lineage || undefined,
+        firestoreId,
+        galleryId: firestoreId
+    } as SavedBiome;
+};
 
-    // Remove nulls if Firestore complains (though null is usually fine, undefined is not)
-    // JSON stringify/parse is a final safety net for prototypes
-    const finalPayload = JSON.parse(JSON.stringify(cleanBiome));
+// Biomes saved before search and popularity existed lack their fields, which keeps them out of
+// searches and the popularity order; they're filled in the first time such a biome is listed
+const backfillGalleryFields = (snapshot: QueryDocumentSnapshot, biome: SavedBiome) => {
+    if (biome.searchTerms && biome.loadCount !== undefined) return;
+    updateDoc(snapshot.ref, {
+        searchTerms: gallerySearchTerms(String(biome.name || ""), String(biome.description || "")),
+        loadCount: increment(0)
+    }).catch(err => console.warn(`Gallery: could not backfill ${snapshot.id}`, err));
+};
 
-    const docRef = await addDoc(collection(db, COLLECTION_NAME), finalPayload);
-    return docRef.id;
+const SORT_ORDER: Record<GalleryFilters["sort"], QueryConstraint> = {
+    date: orderBy("timestamp", "desc"),
+    name: orderBy("name", "asc"),
+    popularity: orderBy("loadCount", "desc")
 };
 
-export const fetchGalleryBiomes = async (): Promise<SavedBiome[]> => {
-    const q = query(collection(db, COLLECTION_NAME), orderBy("timestamp", "desc"), limit(20));
-    const snapshot = await getDocs(q);
+const inRange = (value: number, min?: number, max?: number) =>
+    (min === undefined || value >= min) && (max === undefined || value <= max);
 
-    return snapshot.docs.map((doc: any) => {
-        const data = doc.data();
-        let parsedTerrain = data.terrain;
+/**
+ * Whether a biome passes the filters Firestore doesn't apply: the temperature and gravity ranges
+ * and every search word after the first.
+ */
+const matchesLocalFilters = (biome: SavedBiome, filters: GalleryFilters, searchWords: string[]) => {
+    const terms = new Set(biome.searchTerms ?? gallerySearchTerms(String(biome.name || ""), String(biome.description || "")));
+    return searchWords.every(word => terms.has(word))
+        && inRange(Number(biome.parameters?.temperature), filters.minTemperature, filters.maxTemperature)
+        && inRange(Number(biome.parameters?.gravity), filters.minGravity, filters.maxGravity);
+};
 
-        // NUCLEAR OPTION: Handle stringified terrain
-        if (typeof parsedTerrain === 'string') {
-            try {
-                parsedTerrain = JSON.parse(parsedTerrain);
-                // Handle double-encoded layers if present from previous attempts
-                if (typeof parsedTerrain.layers === 'string') {
-                    parsedTerrain.layers = JSON.parse(parsedTerrain.layers);
-                }
-            } catch (e) {
-                console.error("Error parsing terrain:", e);
-                parsedTerrain = { ...data.terrain };
-            }
-        }
-        // Handle legacy "stringified layers only"
-        else if (data.terrain && typeof data.terrain.layers === 'string') {
-            try {
-                parsedTerrain = {
-                    ...data.terrain,
-                    layers: JSON.parse(data.terrain.layers)
-                };
-            } catch (e) { }
-        }
+/**
+ * Where the next page starts: the last document the previous page looked at.
+ */
+export type GalleryCursor = QueryDocumentSnapshot;
 
-        let parsedProps = data.props;
-        if (typeof parsedProps === 'string') {
-            try {
-                parsedProps = JSON.parse(parsedProps);
-            } catch (e) {
-                console.error("Error parsing props:", e);
-                parsedProps = [];
-            }
-        }
+export interface GalleryPage {
+    biomes: SavedBiome[];
+    cursor: GalleryCursor | null;
+    hasMore: boolean;
+}
 
-        return {
-            ...data,
-            id: data.id || doc.id,
-            terrain: parsedTerrain || data.terrain,
-            props: parsedProps || [],
-            firestoreId: doc.id
-        } as SavedBiome;
-    });
+/**
+ * One page of the gallery. Equality filters, the first search word and the order run in
+ * Firestore, which merges the per-filter indexes in firestore.indexes.json for combinations;
+ * ranges and further search words are checked on the fetched documents, reading on until a
+ * page is full.
+ */
+export const fetchGalleryPage = async (filters: GalleryFilters, cursor: GalleryCursor | null = null): Promise<GalleryPage> => {
+    const searchWords = gallerySearchWords(filters.search);
+    const constraints: QueryConstraint[] = [];
+    if (searchWords.length > 0) constraints.push(where("searchTerms", "array-contains", searchWords[0]));
+    if (filters.weather) constraints.push(where("weather.type", "==", filters.weather));
+    if (filters.atmosphere) constraints.push(where("parameters.atmosphereDensity", "==", filters.atmosphere));
+    constraints.push(SORT_ORDER[filters.sort]);
+
+    const biomes: SavedBiome[] = [];
+    let last = cursor;
+    for (let batch = 0; batch < MAX_SCAN_BATCHES; batch++) {
+        const snapshot = await getDocs(query(collection(db, COLLECTION_NAME), ...constraints, ...(last ? [startAfter(last)] : []), limit(PAGE_SIZE)));
+        snapshot.docs.forEach(docSnap => {
+            const biome = parseSavedBiome(docSnap.id, docSnap.data());
+            backfillGalleryFields(docSnap, biome);
+            if (matchesLocalFilters(biome, filters, searchWords)) biomes.push(biome);
+        });
+        if (snapshot.docs.length < PAGE_SIZE) return { biomes, cursor: null, hasMore: false };
+        last = snapshot.docs[snapshot.docs.length - 1];
+        if (biomes.length >= PAGE_SIZE) break;
+    }
+    return { biomes, cursor: last, hasMore: true };
+};
+
+/**
+ * Counts an opening of a saved biome towards its popularity.
+ */
+export const recordGalleryLoad = async (firestoreId: string) => {
+    await updateDoc(doc(db, COLLECTION_NAME, firestoreId), { loadCount: increment(1) });
 };
 
 export const loadBiomeById = async (id: string): Promise<SavedBiome | null> => {
     const docRef = doc(db, COLLECTION_NAME, id);
     const snap = await getDoc(docRef);
-    if (snap.exists()) {
-        const data = snap.data();
-        let parsedTerrain = data.terrain;
-
-        if (typeof parsedTerrain === 'string') {
-            try {
-                parsedTerrain = JSON.parse(parsedTerrain);
-                if (typeof parsedTerrain.layers === 'string') {
-                    parsedTerrain.layers = JSON.parse(parsedTerrain.layers);
-                }
-            } catch (e) { }
-        } else if (data.terrain && typeof data.terrain.layers === 'string') {
-            try {
-                parsedTerrain = {
-                    ...data.terrain,
-                    layers: JSON.parse(data.terrain.layers)
-                };
-            } catch (e) { }
-        }
+    return snap.exists() ? parseSavedBiome(snap.id, snap.data()) : null;
+};
 
-        let parsedProps = data.props;
-        if (typeof parsedProps === 'string') {
-            try {
-                parsedProps = JSON.parse(parsedProps);
-            } catch (e) { }
-        }
+// --- Forks ---
 
+/**
+ * A new, unsaved biome copied from a gallery entry. It points at the entry's uploaded assets
+ * instead of copying them, so saving it only uploads what has changed since.
+ */
+export const forkGalleryBiome = (parent: SavedBiome): BiomeData => {
+    const parentId = parent.firestoreId!;
+    return {
+        id: uuidv4(),
+        name: parent.name,
+        description: parent.description,
+        parameters: structuredClone(parent.parameters),
+        terrain: { ...structuredClone(parent.terrain), textureUrl: parent.assets?.groundTextureUrl || parent.terrain.textureUrl },
+        atmosphere: { ...parent.atmosphere, skyboxUrl: parent.assets?.skyboxUrl || parent.atmosphere.skyboxUrl },
+        musicPrompt: parent.musicPrompt ?? undefined,
+        audioOverrideUrl: parent.assets?.audioUrl || undefined,
+        props: structuredClone(parent.props),
+        weather: { ...parent.weather },
+        world: parent.world ?? undefined,
+        lineage: { parentId, rootId: parent.lineage?.rootId ?? parentId, depth: (parent.lineage?.depth ?? 0) + 1 }
+    };
+};
+
+export interface GalleryLineageNode {
+    biome: SavedBiome;
+    children: GalleryLineageNode[]; // Direct forks, oldest first
+}
+
+/**
+ * The family tree an entry belongs to: the original and every fork of it, oldest first. Forks
+ * whose parent was deleted show up as roots of their own.
+ */
+export const fetchGalleryLineage = async (entry: SavedBiome): Promise<GalleryLineageNode[]> => {
+    const rootId = entry.lineage?.rootId ?? entry.firestoreId!;
+    const [root, forks] = await Promise.all([
+        loadBiomeById(rootId),
+        getDocs(query(collection(db, COLLECTION_NAME), where("lineage.rootId", "==", rootId), limit(MAX_LINEAGE_SIZE)))
+    ]);
+    const biomes = [...(root ? [root] : []), ...forks.docs.map(docSnap => parseSavedBiome(docSnap.id, docSnap.data()))]
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    const nodes = new Map(biomes.map(biome => [biome.firestoreId!, { biome, children: [] as GalleryLineageNode[] }]));
+    const roots: GalleryLineageNode[] = [];
+    nodes.forEach(node => {
+        const parent = node.biome.lineage && nodes.get(node.biome.lineage.parentId);
+        if (parent) parent.children.push(node);
+        else roots.push(node);
+    });
+    return roots;
+};
+
+// --- Revisions ---
+
+/**
+ * Every revision of an entry, newest first.
+ */
+export const fetchGalleryRevisions = async (galleryId: string): Promise<GalleryRevision[]> => {
+    const snapshot = await getDocs(query(collection(db, COLLECTION_NAME, galleryId, REVISIONS), orderBy("number", "desc")));
+    return snapshot.docs.map(docSnap => {
+        const data = docSnap.data();
         return {
-            ...data,
-            id: data.id || snap.id,
-            terrain: parsedTerrain || data.terrain,
-            props: parsedProps || [],
-            firestoreId: snap.id
-        } as SavedBiome;
+            revisionId: docSnap.id,
+            number: Number(data.number),
+            biome: parseSavedBiome(galleryId, data.snapshot ?? {}),
+            authorId: String(data.authorId ?? ""),
+            summary: String(data.summary ?? ""),
+            createdAt: Number(data.createdAt) || 0
+        };
+    });
+};
+
+/**
+ * Makes an old revision current again, as a new revision on top, so the history stays intact.
+ */
+export const revertGalleryRevision = async (galleryId: string, revisionId: string, authorId: string) => {
+    const entryRef = doc(db, COLLECTION_NAME, galleryId);
+    const targetRef = doc(entryRef, REVISIONS, revisionId);
+
+    await runTransaction(db, async transaction => {
+        const [entry, target] = [await transaction.get(entryRef), await transaction.get(targetRef)];
+        if (!entry.exists() || !target.exists()) throw new Error("Revision not found");
+        const snapshot = target.data().snapshot as DocumentData;
+        const number = (Number(entry.data().revisionCount) || 0) + 1;
+        const now = Date.now();
+
+        const revisionRef = doc(collection(entryRef, REVISIONS));
+        transaction.set(revisionRef, {
+            number, snapshot, authorId: String(authorId), summary: `Reverted to revision ${target.data().number}`, createdAt: now
+        });
+        transaction.update(entryRef, {
+            ...snapshot,
+            // Snapshots from before versioning have none, and mustn't inherit the entry's
+            schemaVersion: Number(snapshot.schemaVersion) || 0,
+            authorId: String(authorId),
+            updatedAt: now,
+            searchTerms: gallerySearchTerms(String(snapshot.name ?? ""), String(snapshot.description ?? "")),
+            revisionCount: number,
+            currentRevisionId: revisionRef.id
+        });
+    });
+};
+
+/**
+ * Deletes an entry with all its revisions.
+ */
+export const deleteGalleryBiome = async (galleryId: string) => {
+    const entryRef = doc(db, COLLECTION_NAME, galleryId);
+    const revisions = await getDocs(collection(entryRef, REVISIONS));
+    const batch = writeBatch(db);
+    revisions.docs.forEach(revision => batch.delete(revision.ref));
+    batch.delete(entryRef);
+    await batch.commit();
+};
+
+/**
+ * Deletes one revision. Deleting the current one rolls the entry back to the newest remaining
+ * revision; deleting the last one deletes the entry.
+ */
+export const deleteGalleryRevision = async (galleryId: string, revisionId: string) => {
+    const entryRef = doc(db, COLLECTION_NAME, galleryId);
+    const [entry, newest] = await Promise.all([
+        getDoc(entryRef),
+        getDocs(query(collection(entryRef, REVISIONS), orderBy("number", "desc"), limit(2)))
+    ]);
+    const remaining = newest.docs.filter(revision => revision.id !== revisionId);
+    if (remaining.length === 0) return deleteGalleryBiome(galleryId);
+
+    const batch = writeBatch(db);
+    batch.delete(doc(entryRef, REVISIONS, revisionId));
+    if (entry.data()?.currentRevisionId === revisionId) {
+        const fallback = remaining[0].data();
+        batch.update(entryRef, {
+            ...fallback.snapshot,
+            schemaVersion: Number(fallback.snapshot?.schemaVersion) || 0,
+            updatedAt: Date.now(),
+            searchTerms: gallerySearchTerms(String(fallback.snapshot?.name ?? ""), String(fallback.snapshot?.description ?? "")),
+            currentRevisionId: remaining[0].id
+        });
     }
-    return null;
+    await batch.commit();
 };
@@ -0,0 +1,124 @@
+// Registry of the AI operations a biome generation runs (except Meshy models, which have their own
+// persistent queue), so the dashboard can list, cancel and retry them.
+
+export type GenerationTaskStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface GenerationTask {
+    id: string;
+    label: string;
+    status: GenerationTaskStatus;
+    startedAt: number;
+    finishedAt?: number;
+    error?: string;
+    canRetry: boolean;
+}
+
+/**
+ * Rejection for work the user cancelled; callers treat it like a failure they don't report.
+ */
+export class TaskCancelledError extends Error {
+    constructor(label: string) {
+        super(`${label} was cancelled`);
+        this.name = "TaskCancelledError";
+    }
+}
+
+interface TaskControl {
+    abort: AbortController;
+    reject: (error: Error) => void;
+    retry?: () => void;
+}
+
+const tasks = new Map<string, GenerationTask>();
+const controls = new Map<string, TaskControl>();
+const listeners = new Set<(tasks: GenerationTask[]) => void>();
+let nextId = 0;
+
+const notify = () => {
+    const snapshot = getGenerationTasks();
+    listeners.forEach(listener => listener(snapshot));
+};
+
+const finish = (id: string, changes: Partial<GenerationTask>) => {
+    const task = tasks.get(id);
+    if (!task || task.status !== "running") return;
+    tasks.set(id, { ...task, ...changes, finishedAt: Date.now() });
+    controls.get(id)?.abort.abort();
+    notify();
+};
+
+/**
+ * Runs `run` as a tracked task. The signal fires on cancel, so work that polls can stop; the
+ * returned promise rejects with TaskCancelledError straight away either way.
+ * `retry` is what the dashboard's retry button does once the task has failed or been cancelled.
+ */
+export function runGenerationTask<T>(label: string, run: (signal: AbortSignal) => Promise<T>, retry?: () => void): Promise<T> {
+    const id = `task-${nextId++}`;
+    const abort = new AbortController();
+    tasks.set(id, { id, label, status: "running", startedAt: Date.now(), canRetry: !!retry });
+    notify();
+
+    return new Promise<T>((resolve, reject) => {
+        controls.set(id, { abort, reject, retry });
+        run(abort.signal).then(
+            result => {
+                if (tasks.get(id)?.status !== "running") return;
+                finish(id, { status: "succeeded" });
+                resolve(result);
+            },
+            (error: unknown) => {
+                if (tasks.get(id)?.status !== "running") return;
+                const err = error instanceof Error ? error : new Error(String(error));
+                finish(id, { status: "failed", error: err.message });
+                reject(err);
+            }
+        );
+    });
+}
+
+export const getGenerationTasks = (): GenerationTask[] => [...tasks.values()].sort((a, b) => b.startedAt - a.startedAt);
+
+export const subscribeToGenerationTasks = (listener: (tasks: GenerationTask[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const cancelGenerationTask = (id: string) => {
+    const task = tasks.get(id);
+    if (!task || task.status !== "running") return;
+    finish(id, { status: "cancelled" });
+    controls.get(id)?.reject(new TaskCancelledError(task.label));
+};
+
+/**
+ * Runs the task's retry action; the new attempt shows up as a task of its own.
+ */
+export const retryGenerationTask = (id: string) => {
+    const task = tasks.get(id);
+    if (!task || task.status === "running") return;
+    const retry = controls.get(id)?.retry;
+    tasks.delete(id);
+    controls.delete(id);
+    notify();
+    retry?.();
+};
+
+/**
+ * Drops finished tasks from the list; failed ones stay until retried or dismissed.
+ */
+export const clearFinishedGenerationTasks = () => {
+    [...tasks.values()].forEach(task => {
+        if (task.status === "succeeded" || task.status === "cancelled") {
+            tasks.delete(task.id);
+            controls.delete(task.id);
+        }
+    });
+    notify();
+};
+
+export const dismissGenerationTask = (id: string) => {
+    if (tasks.get(id)?.status === "running") return;
+    tasks.delete(id);
+    controls.delete(id);
+    notify();
+};
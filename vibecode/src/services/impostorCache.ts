@@ -0,0 +1,49 @@
+const DB_NAME = 'VibecodeImpostors';
+const STORE_NAME = 'impostors';
+// Bump when the atlas layout changes so stale captures are rebuilt
+const IMPOSTOR_VERSION = 1;
+
+export interface ImpostorRecord {
+    width: number;
+    height: number;
+    pixels: Uint8Array; // RGBA, rows bottom-up
+}
+
+const openDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const cacheKey = (modelUrl: string) => `v${IMPOSTOR_VERSION}:${modelUrl}`;
+
+/**
+ * Impostor atlas previously captured for a model, or null if it has never been rendered.
+ */
+export const getCachedImpostor = async (modelUrl: string): Promise<ImpostorRecord | null> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readonly');
+        const request = transaction.objectStore(STORE_NAME).get(cacheKey(modelUrl));
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const saveCachedImpostor = async (modelUrl: string, record: ImpostorRecord): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const request = transaction.objectStore(STORE_NAME).put(record, cacheKey(modelUrl));
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+    });
+};
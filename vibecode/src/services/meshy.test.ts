@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, expect, it, vi } from 'vitest';
+import { sleep } from '../utils/sleep';
+import type { ModelProvider } from './providers';
+
+// Like a create stuck in Meshy's 429 backoff: hangs until aborted, then takes a moment to unwind
+const hang = async (signal?: AbortSignal) => {
+    try {
+        await sleep(60000, signal);
+    } finally {
+        await sleep(50);
+    }
+};
+
+const hangingProvider = (calls: string[]): ModelProvider => ({
+    name: 'hanging',
+    async createPreviewTask(prompt, signal) {
+        calls.push(`preview:${prompt}`);
+        await hang(signal);
+        return `preview-${prompt}`;
+    },
+    async createRefineTask(previewTaskId, signal) {
+        calls.push(`refine:${previewTaskId}`);
+        await hang(signal);
+        return `refine-${previewTaskId}`;
+    },
+    async getTaskStatus() {
+        return { status: 'succeeded', progress: 100, glbUrl: 'model.glb' };
+    }
+});
+
+// Fresh queue and job store for every test
+const loadQueue = async (provider: ModelProvider) => {
+    vi.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+    const { setProviders } = await import('./providers');
+    setProviders({ model: provider });
+    const meshy = await import('./meshy');
+    meshy.setMeshyConcurrency(1);
+    return meshy;
+};
+
+const settled = () => sleep(100);
+
+describe('Meshy job queue', () => {
+    it('aborts a task request in flight on cancel and keeps the slot until it settles', async () => {
+        const calls: string[] = [];
+        const meshy = await loadQueue(hangingProvider(calls));
+
+        const first = meshy.generate3DModel('rock').catch((err: Error) => err.message);
+        const second = meshy.generate3DModel('tree').catch((err: Error) => err.message);
+        await settled();
+        expect(calls).toEqual(['preview:rock']);
+
+        await meshy.cancelMeshyJob('rock');
+        expect(await first).toBe('Cancelled');
+        // The next job waits for the cancelled request to unwind
+        await sleep(20);
+        expect(calls).toEqual(['preview:rock']);
+        await settled();
+        expect(meshy.getMeshyJobs().find(job => job.prompt === 'rock')?.previewTaskId).toBeUndefined();
+        expect(calls).toEqual(['preview:rock', 'preview:tree']);
+
+        await meshy.cancelMeshyJob('tree');
+        expect(await second).toBe('Cancelled');
+    });
+
+    it('keeps a finished preview when cancelled during the refine', async () => {
+        const calls: string[] = [];
+        const provider = hangingProvider(calls);
+        const meshy = await loadQueue({ ...provider, createPreviewTask: async prompt => `preview-${prompt}` });
+
+        const result = meshy.generate3DModel('rock').catch((err: Error) => err.message);
+        await settled();
+        expect(calls).toEqual(['refine:preview-rock']);
+
+        await meshy.cancelMeshyJob('rock');
+        expect(await result).toBe('Cancelled');
+        const job = meshy.getMeshyJobs().find(j => j.prompt === 'rock');
+        expect(job?.stage).toBe('cancelled');
+        expect(job?.previewTaskId).toBe('preview-rock');
+        expect(job?.refineTaskId).toBeUndefined();
+
+        // A retry goes straight back to the refine rather than paying for a new preview
+        await settled();
+        meshy.retryMeshyJob('rock');
+        await settled();
+        expect(calls).toEqual(['refine:preview-rock', 'refine:preview-rock']);
+        await meshy.cancelMeshyJob('rock');
+    });
+});
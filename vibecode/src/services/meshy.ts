@@ -1,207 +1,329 @@
-const MESHY_BASE_URL = "https://api.meshy.ai/openapi/v2";
-
-const getApiKey = () => {
-    return import.meta.env.VITE_MESHY_API_KEY || "";
-};
-
-export interface MeshyTaskResponse {
-    result: string; // Task ID
-}
-
-export interface MeshyStatusResponse {
-    status: "PENDING" | "IN_PROGRESS" | "SUCCEEDED" | "FAILED";
-    progress: number;
-    model_urls?: {
-        glb: string;
-        fbx?: string;
-        obj?: string;
-    };
-    error?: {
-        message: string;
-    };
-}
+import { sleep } from "../utils/sleep";
+import { getModelProvider } from "./providers";
 
 /**
- * Creates a Text-to-3D task on Meshy
- * @param prompt The description of the object to generate
- * @param negativePrompt What to exclude from the generation
- * @returns The Task ID
+ * Utility to poll a task until it completes, or until `signal` aborts
  */
-export const createTextTo3DTask = async (prompt: string, negativePrompt = "low quality, low resolution, low poly, ugly"): Promise<string> => {
-    const apiKey = getApiKey();
-    if (!apiKey) throw new Error("Missing Meshy API Key. Please set VITE_MESHY_API_KEY in .env");
-
-    const maxRetries = 5;
-    let retryDelay = 2000;
-
-    for (let i = 0; i < maxRetries; i++) {
-        const response = await fetch(`${MESHY_BASE_URL}/text-to-3d`, {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                mode: "preview",
-                prompt: prompt,
-                negative_prompt: negativePrompt,
-                should_remesh: true,
-                ai_model: "meshy-5"
-            })
-        });
-
-        if (response.status === 429) {
-            console.warn(`Meshy: Queue full (Rate Limit). Retrying in ${retryDelay}ms...`);
-            await new Promise(r => setTimeout(r, retryDelay));
-            retryDelay *= 2;
-            continue;
+async function pollTask(taskId: string, onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<string> {
+    const pollInterval = 5000;
+    const maxAttempts = 120;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        if (signal?.aborted) throw new Error("Cancelled");
+        const statusData = await getModelProvider().getTaskStatus(taskId);
+        if (onProgress) onProgress(statusData.progress);
+
+        if (statusData.status === "succeeded") {
+            if (statusData.glbUrl) return statusData.glbUrl;
+            throw new Error("Succeeded but no GLB URL found");
         }
 
-        if (!response.ok) {
-            const err = await response.text();
-            throw new Error(`Meshy API Error ${response.status}: ${err}`);
+        if (statusData.status === "failed") {
+            throw new Error(statusData.error || "Generation failed");
         }
 
-        const data: MeshyTaskResponse = await response.json();
-        console.log("Meshy: Preview Task created", data.result);
-        return data.result;
+        await sleep(pollInterval, signal);
     }
+    throw new Error("Timed out waiting for Meshy task.");
+}
+
+// --- Job Queue ---
+// Every generation is a job persisted in IndexedDB, keyed by prompt. Task IDs are saved as soon as
+// the model provider (Meshy unless configured otherwise) hands them out, so a reload resumes
+// polling the paid tasks instead of starting new ones.
+
+export type MeshyJobStage = "queued" | "preview" | "refine" | "succeeded" | "failed" | "cancelled";
+
+export interface MeshyJob {
+    prompt: string;
+    stage: MeshyJobStage;
+    progress: number; // 0-100 across both stages
+    previewTaskId?: string;
+    refineTaskId?: string;
+    resultUrl?: string;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+const DB_NAME = "VibecodeMeshyJobs";
+const STORE_NAME = "jobs";
+// Meshy's asset links are signed and expire, so older results are generated again
+const RESULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+let maxConcurrentJobs = Number(import.meta.env.VITE_MESHY_MAX_CONCURRENT) || 2;
+
+const jobs = new Map<string, MeshyJob>();
+// Jobs being worked on, with the controller that stops their polling
+const running = new Map<string, AbortController>();
+const waiters = new Map<string, { resolve: (url: string) => void; reject: (error: Error) => void }[]>();
+const progressListeners = new Map<string, Set<(progress: number) => void>>();
+const listeners = new Set<(jobs: MeshyJob[]) => void>();
+
+// One shared connection, so saves land in the order they were made
+let dbConnection: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+    dbConnection ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME, { keyPath: "prompt" });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return dbConnection;
+};
+
+const loadJobsFromDB = async (): Promise<MeshyJob[]> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const saveJobToDB = async (job: MeshyJob): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).put(job);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const deleteJobFromDB = async (prompt: string): Promise<void> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).delete(prompt);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+    });
+};
+
+let persistenceWarned = false;
 
-    throw new Error("Meshy: Max retries exceeded due to rate limits/concurrency.");
+const persistJob = (job: MeshyJob): Promise<void> => saveJobToDB(job).catch(e => {
+    // Private browsing can refuse IndexedDB; jobs still run, they just won't survive a reload
+    if (!persistenceWarned) console.warn("Meshy: Failed to persist job", e);
+    persistenceWarned = true;
+});
+
+const notify = () => {
+    const snapshot = getMeshyJobs();
+    listeners.forEach(listener => listener(snapshot));
+};
+
+/**
+ * Applies a change to a job and persists it. Persisting is awaited so a task ID is on disk
+ * before the next request goes out.
+ */
+const updateJob = async (prompt: string, changes: Partial<MeshyJob>): Promise<MeshyJob> => {
+    const job = { ...jobs.get(prompt)!, ...changes, updatedAt: Date.now() };
+    jobs.set(prompt, job);
+    notify();
+    if (changes.progress !== undefined) progressListeners.get(prompt)?.forEach(listener => listener(job.progress));
+    await persistJob(job);
+    return job;
+};
+
+const settle = (prompt: string, result: { url: string } | { error: Error }) => {
+    waiters.get(prompt)?.forEach(waiter => "url" in result ? waiter.resolve(result.url) : waiter.reject(result.error));
+    waiters.delete(prompt);
+    progressListeners.delete(prompt);
 };
 
 /**
- * Creates a text-to-3d "refine" task based on a preview task.
- * This adds high-quality textures and geometry.
+ * Runs a job from whatever stage it reached. A failure clears the task ID that failed, so
+ * retrying only repeats that stage. A cancel aborts the polling or task request in flight, and
+ * the run winds down leaving the job as cancelMeshyJob recorded it.
  */
-export const createTextTo3DRefineTask = async (previewTaskId: string): Promise<string> => {
-    const apiKey = getApiKey();
-    if (!apiKey) throw new Error("Missing Meshy API Key. Please set VITE_MESHY_API_KEY in .env");
-
-    const maxRetries = 5;
-    let retryDelay = 2000;
-
-    for (let i = 0; i < maxRetries; i++) {
-        const response = await fetch(`${MESHY_BASE_URL}/text-to-3d`, {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${apiKey}`,
-                "Content-Type": "application/json"
-            },
-            body: JSON.stringify({
-                mode: "refine",
-                preview_task_id: previewTaskId,
-                texture_richness: "high"
-            })
-        });
-
-        if (response.status === 429) {
-            console.warn(`Meshy: Queue full (Rate Limit). Retrying in ${retryDelay}ms...`);
-            await new Promise(r => setTimeout(r, retryDelay));
-            retryDelay *= 2;
-            continue;
+const runJob = async (prompt: string) => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    running.set(prompt, controller);
+
+    const update = (changes: Partial<MeshyJob>) => signal.aborted ? Promise.reject(new Error("Cancelled")) : updateJob(prompt, changes);
+    const report = (progress: number) => { if (!signal.aborted) updateJob(prompt, { progress }); };
+
+    let job = jobs.get(prompt)!;
+    try {
+        // 1. Preview Stage (0-50%)
+        if (!job.previewTaskId) {
+            job = await update({ stage: "preview", progress: 0, error: undefined });
+            job = await update({ previewTaskId: await getModelProvider().createPreviewTask(prompt, signal) });
+        } else if (job.stage !== "refine") {
+            job = await update({ stage: "preview", error: undefined });
+        }
+        if (job.stage === "preview") {
+            try {
+                await pollTask(job.previewTaskId!, (p) => report(Math.floor(p * 0.5)), signal);
+            } catch (error) {
+                await update({ previewTaskId: undefined });
+                throw error;
+            }
+            job = await update({ stage: "refine", progress: 50 });
         }
 
-        if (!response.ok) {
-            const err = await response.text();
-            throw new Error(`Meshy Refine Error ${response.status}: ${err}`);
+        // 2. Refine Stage (50-100%)
+        if (!job.refineTaskId) {
+            job = await update({ refineTaskId: await getModelProvider().createRefineTask(job.previewTaskId!, signal) });
+        }
+        let finalUrl: string;
+        try {
+            finalUrl = await pollTask(job.refineTaskId!, (p) => report(Math.floor(50 + p * 0.5)), signal);
+        } catch (error) {
+            await update({ refineTaskId: undefined });
+            throw error;
         }
 
-        const data: MeshyTaskResponse = await response.json();
-        console.log("Meshy: Refine Task created", data.result);
-        return data.result;
+        await update({ stage: "succeeded", progress: 100, resultUrl: finalUrl });
+        settle(prompt, { url: finalUrl });
+    } catch (error) {
+        if (signal.aborted) return;
+        const err = error instanceof Error ? error : new Error(String(error));
+        await updateJob(prompt, { stage: "failed", error: err.message });
+        settle(prompt, { error: err });
+    } finally {
+        // Cancelled runs keep their slot until here, so a retry or the next job waits for this one
+        if (running.get(prompt) === controller) running.delete(prompt);
+        pump();
     }
-
-    throw new Error("Meshy Refine: Max retries exceeded.");
 };
 
 /**
- * Polls the status of a specific task
- * @param taskId The ID returned from createTextTo3DTask
- * @returns The status and results (if ready)
+ * Starts waiting jobs, oldest first, until the concurrency limit is reached.
  */
-export const getTaskStatus = async (taskId: string): Promise<MeshyStatusResponse> => {
-    const apiKey = getApiKey();
-    const response = await fetch(`${MESHY_BASE_URL}/text-to-3d/${taskId}`, {
-        headers: {
-            "Authorization": `Bearer ${apiKey}`
-        }
-    });
-
-    if (!response.ok) {
-        const err = await response.text();
-        throw new Error(`Meshy Status Error ${response.status}: ${err}`);
+const pump = () => {
+    const waiting = [...jobs.values()]
+        .filter(job => !running.has(job.prompt) && (job.stage === "queued" || job.stage === "preview" || job.stage === "refine"))
+        .sort((a, b) => a.createdAt - b.createdAt);
+    for (const job of waiting) {
+        if (running.size >= maxConcurrentJobs) break;
+        runJob(job.prompt);
     }
-
-    return await response.json();
 };
 
+// Jobs from the previous session, resumed as soon as the module loads
+const ready: Promise<void> = (typeof indexedDB === "undefined" ? Promise.resolve([]) : loadJobsFromDB())
+    .catch(e => {
+        console.warn("Meshy: Job store unavailable, jobs won't survive a reload", e);
+        return [] as MeshyJob[];
+    })
+    .then(saved => {
+        saved.forEach(job => jobs.set(job.prompt, job));
+        notify();
+        pump();
+    });
+
 /**
- * High-level wrapper that creates a task and polls until success
- * @param prompt Prompt for model generation
- * @param onProgress Optional callback for progress updates
- * @returns The GLB URL of the generated model
+ * Snapshot of every known job, newest first.
  */
+export const getMeshyJobs = (): MeshyJob[] => [...jobs.values()].sort((a, b) => b.createdAt - a.createdAt);
+
 /**
- * Utility to poll a task until it completes
+ * Calls `listener` with a fresh snapshot whenever a job changes. Returns the unsubscribe function.
  */
-async function pollTask(taskId: string, onProgress?: (progress: number) => void): Promise<string> {
-    const pollInterval = 5000;
-    const maxAttempts = 120;
+export const subscribeToMeshyJobs = (listener: (jobs: MeshyJob[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        const statusData = await getTaskStatus(taskId);
-        if (onProgress) onProgress(statusData.progress);
+/**
+ * Changes how many jobs may run at once. Raising it starts waiting jobs immediately.
+ */
+export const setMeshyConcurrency = (limit: number) => {
+    maxConcurrentJobs = Math.max(1, Math.floor(limit));
+    pump();
+};
 
-        if (statusData.status === "SUCCEEDED") {
-            if (statusData.model_urls?.glb) return statusData.model_urls.glb;
-            throw new Error("Succeeded but no GLB URL found");
-        }
+/**
+ * Stops a queued or running job: polling and any task request in flight end, anyone waiting on it
+ * gets an error, and the prompt is free to be generated again. Meshy keeps working on a task it
+ * already accepted, but the ID of the stage that was running is dropped so a retry starts that
+ * stage over; a finished preview is kept. The job holds its slot until its run has wound down,
+ * so the next job doesn't start alongside a request that is still settling.
+ */
+export const cancelMeshyJob = async (prompt: string) => {
+    const job = jobs.get(prompt);
+    if (!job || job.stage === "succeeded" || job.stage === "failed" || job.stage === "cancelled") return;
+    running.get(prompt)?.abort();
+    // Only the stage that was running loses its task; a queued job has none running
+    const dropped: Partial<MeshyJob> = job.stage === "refine" ? { refineTaskId: undefined }
+        : job.stage === "preview" ? { previewTaskId: undefined, refineTaskId: undefined } : {};
+    await updateJob(prompt, { ...dropped, stage: "cancelled", progress: 0, error: "Cancelled" });
+    settle(prompt, { error: new Error("Cancelled") });
+};
 
-        if (statusData.status === "FAILED") {
-            throw new Error(statusData.error?.message || "Generation failed on Meshy");
-        }
+// Puts a failed or cancelled job back in the queue, keeping a finished preview
+const requeueJob = (job: MeshyJob) => {
+    const queued: MeshyJob = { ...job, stage: "queued", error: undefined, updatedAt: Date.now() };
+    jobs.set(job.prompt, queued);
+    notify();
+    persistJob(queued);
+    pump();
+};
 
-        await new Promise(r => setTimeout(r, pollInterval));
-    }
-    throw new Error("Timed out waiting for Meshy task.");
-}
+/**
+ * Runs a failed or cancelled job again. Callers of generate3DModel already got its error;
+ * subscribe to the job list to pick up the result.
+ */
+export const retryMeshyJob = (prompt: string) => {
+    const job = jobs.get(prompt);
+    if (job && (job.stage === "failed" || job.stage === "cancelled")) requeueJob(job);
+};
 
-// Global registry to ensure we don't start the same task multiple times simultaneously.
-const pendingRequests: Record<string, Promise<string>> = {};
+/**
+ * Forgets a finished or failed job so its prompt is generated from scratch next time.
+ */
+export const removeMeshyJob = async (prompt: string) => {
+    if (running.has(prompt)) return;
+    jobs.delete(prompt);
+    notify();
+    await deleteJobFromDB(prompt);
+};
 
 /**
  * High-level wrapper that creates a preview, waits, then creates a refine, waits.
  * This ensures high-quality textured models.
+ * Requests for a prompt that already has a job join it, including jobs resumed after a reload.
  * @param prompt Prompt for model generation
  * @param onProgress Optional callback for progress updates
  * @returns The final GLB URL of the textured model
  */
 export const generate3DModel = async (prompt: string, onProgress?: (progress: number) => void): Promise<string> => {
-    // If a request for this exact prompt is already in progress, return the existing promise
-    if (prompt in pendingRequests) {
-        console.log(`Meshy: Prompt [${prompt.substring(0, 20)}...] already in progress, joining task.`);
-        return pendingRequests[prompt]!;
-    }
+    await ready;
 
-    const task = (async () => {
-        try {
-            // 1. Preview Stage (0-50%)
-            const previewTaskId = await createTextTo3DTask(prompt);
-            await pollTask(previewTaskId, (p) => onProgress?.(Math.floor(p * 0.5)));
+    const existing = jobs.get(prompt);
+    if (existing?.stage === "succeeded" && existing.resultUrl && Date.now() - existing.updatedAt < RESULT_TTL_MS) {
+        return existing.resultUrl;
+    }
 
-            // 2. Refine Stage (50-100%)
-            const refineTaskId = await createTextTo3DRefineTask(previewTaskId);
-            const finalUrl = await pollTask(refineTaskId, (p) => onProgress?.(Math.floor(50 + p * 0.5)));
+    const result = new Promise<string>((resolve, reject) => {
+        waiters.set(prompt, [...(waiters.get(prompt) || []), { resolve, reject }]);
+    });
+    if (onProgress) {
+        if (!progressListeners.has(prompt)) progressListeners.set(prompt, new Set());
+        progressListeners.get(prompt)!.add(onProgress);
+    }
 
-            return finalUrl;
-        } catch (error) {
-            // If it fails, remove from pending so it can be retried later
-            delete pendingRequests[prompt];
-            throw error;
-        }
-    })();
+    if (existing?.stage === "failed" || existing?.stage === "cancelled") {
+        requeueJob(existing);
+    } else if (existing && existing.stage !== "succeeded") {
+        console.log(`Meshy: Prompt [${prompt.substring(0, 20)}...] already in progress, joining task.`);
+    } else {
+        // New prompt, or a result whose links have expired
+        const now = Date.now();
+        const job: MeshyJob = { prompt, stage: "queued", progress: 0, createdAt: now, updatedAt: now };
+        jobs.set(prompt, job);
+        notify();
+        persistJob(job);
+        pump();
+    }
 
-    pendingRequests[prompt] = task;
-    return task;
+    return result;
 };
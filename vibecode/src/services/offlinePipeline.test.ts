@@ -0,0 +1,89 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRandom } from '../utils/heightfield';
+
+// The whole generation flow on the offline providers, the way App runs it: parameters, description,
+// biome data (validated), textures, models and music. The services keep caches and job queues at
+// module level, so every run loads them fresh with an empty IndexedDB.
+
+const runPipeline = async (seed: number) => {
+    vi.resetModules();
+    globalThis.indexedDB = new IDBFactory();
+    const { setOfflineProviders } = await import('./providers');
+    const ai = await import('./ai');
+    const { generate3DModel } = await import('./meshy');
+    const { getAlienAmbienceV13, getStoredV13Audio } = await import('./elevenLabsV13');
+    setOfflineProviders();
+    // The random parameters and the terrain seed come from Math.random; seeded after the imports,
+    // since loading the modules draws from it too
+    vi.spyOn(Math, 'random').mockImplementation(createRandom(seed));
+
+    const params = ai.generateRandomParameters();
+    const description = await ai.generateBiomeDescription(params);
+    params.description = description.summary;
+    params.groundDescription = description.ground;
+    params.skyDescription = description.sky;
+
+    const biome = await ai.generateBiomeData(description, params);
+    biome.terrain.textureUrl = await ai.generateBiomeTexture(description.ground);
+    biome.terrain.materials = await ai.generateZoneTextures(biome.terrain.materials ?? []);
+    biome.atmosphere.skyboxUrl = await ai.generateSkyboxTexture(description.sky);
+
+    const models = await Promise.all(biome.props.map(prop => generate3DModel(prop.prompt)));
+    await getAlienAmbienceV13(biome.id!, biome.musicPrompt!);
+    const audio = await getStoredV13Audio(biome.id!);
+
+    // Ids are fresh UUIDs every time; everything else should only depend on the seed
+    return {
+        ids: [biome.id, ...biome.props.map(prop => prop.id)],
+        biome: { ...biome, id: undefined, props: biome.props.map(prop => ({ ...prop, id: undefined })) },
+        models,
+        audio,
+        reports: ai.getValidationReports()
+    };
+};
+
+describe('offline generation pipeline', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('produces a complete, valid biome with every asset', async () => {
+        const { ids, biome, models, audio, reports } = await runPipeline(20261019);
+
+        ids.forEach(id => expect(id).toBeTruthy());
+        expect(biome.props.length).toBeGreaterThan(0);
+        expect(biome.terrain.textureUrl).toMatch(/^data:image\//);
+        expect(biome.atmosphere.skyboxUrl).toMatch(/^data:image\//);
+        biome.terrain.materials?.forEach(zone => expect(zone.textureUrl).toMatch(/^data:image\//));
+        expect(models).toHaveLength(biome.props.length);
+        models.forEach(url => expect(url).toMatch(/^data:model\/gltf-binary;base64,/));
+        expect(audio).toMatch(/^data:audio\//);
+
+        // The offline replies follow the schema, so validation accepts them without repairs
+        expect(reports.map(report => report.kind).sort()).toEqual(['biome-data', 'biome-description']);
+        reports.forEach(report => {
+            expect(report.repairAttempts).toBe(0);
+            expect(report.issues.filter(issue => issue.severity === 'error')).toEqual([]);
+        });
+    });
+
+    it('gives the same biome and assets for the same seed', async () => {
+        const first = await runPipeline(42);
+        const second = await runPipeline(42);
+
+        expect(second.ids).not.toEqual(first.ids);
+        expect(second.biome).toEqual(first.biome);
+        expect(second.models).toEqual(first.models);
+        expect(second.audio).toBe(first.audio);
+    });
+
+    it('gives a different biome for another seed', async () => {
+        const first = await runPipeline(42);
+        const other = await runPipeline(43);
+
+        expect(other.biome.terrain.seed).not.toBe(first.biome.terrain.seed);
+        expect(other.biome.parameters).not.toEqual(first.biome.parameters);
+    });
+});
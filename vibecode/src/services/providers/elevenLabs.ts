@@ -0,0 +1,99 @@
+import type { MusicProvider } from "./types";
+
+const ELEVENLABS_BASE_URL = "https://api.elevenlabs.io/v1";
+
+const getApiKey = () => {
+    return import.meta.env.VITE_ELEVENLABS_API_KEY || "";
+};
+
+interface MusicStatusResponse {
+    status: "queued" | "processing" | "completed" | "failed";
+    audio_url?: string;
+    result?: {
+        audio_url?: string;
+    };
+    error?: string;
+}
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+export const elevenLabsMusic: MusicProvider = {
+    name: "elevenlabs",
+
+    async generateMusic(prompt: string, durationInMs: number, signal?: AbortSignal) {
+        const apiKey = getApiKey();
+        if (!apiKey) throw new Error("Missing ElevenLabs API Key");
+
+        const endpoint = `${ELEVENLABS_BASE_URL}/music`;
+        // CRITICAL: Parameter is 'music_length_ms' - confirmed via search.
+        console.log(`elevenLabs: Requesting ${durationInMs}ms generation via /v1/music...`);
+
+        const createResponse = await fetch(endpoint, {
+            method: "POST",
+            headers: {
+                "xi-api-key": apiKey,
+                "Content-Type": "application/json"
+            },
+            body: JSON.stringify({
+                prompt: prompt,
+                music_length_ms: durationInMs
+            }),
+            signal
+        });
+
+        if (!createResponse.ok) {
+            const err = await createResponse.text();
+            console.error("elevenLabs: POST Error:", createResponse.status, err);
+            throw new Error(`API Error ${createResponse.status}: ${err}`);
+        }
+
+        const contentType = createResponse.headers.get("Content-Type") || "";
+
+        // Case 1: Direct Binary
+        if (contentType.includes("audio/") || contentType.includes("application/octet-stream")) {
+            console.log("elevenLabs: Binary audio received.");
+            const blob = await createResponse.blob();
+            return await blobToBase64(blob);
+        }
+
+        // Case 2: Async task
+        const data = await createResponse.json();
+        const task_id = data.task_id;
+        if (!task_id) throw new Error("Invalid API Response");
+
+        console.log("elevenLabs: Async Task ID:", task_id);
+
+        for (let attempt = 0; attempt < 40; attempt++) {
+            await new Promise(r => setTimeout(r, 3000));
+            // Cancelling stops the polling; the fetch below also aborts if it's in flight
+            if (signal?.aborted) throw new Error("Cancelled");
+            const statusResponse = await fetch(`${ELEVENLABS_BASE_URL}/audio-tasks/${task_id}`, {
+                headers: { "xi-api-key": apiKey },
+                signal
+            });
+            if (!statusResponse.ok) continue;
+
+            const pollData = await statusResponse.json() as MusicStatusResponse;
+            console.log(`elevenLabs: Status [${attempt}]`, pollData.status);
+
+            if (pollData.status === "completed") {
+                const url = pollData.result?.audio_url || pollData.audio_url;
+                if (url) {
+                    const audioRes = await fetch(url);
+                    const blob = await audioRes.blob();
+                    return await blobToBase64(blob);
+                }
+            }
+            if (pollData.status === "failed") throw new Error(pollData.error || "Generation failed");
+        }
+
+        throw new Error("Timed out waiting for production.");
+    }
+};
@@ -0,0 +1,65 @@
+import { elevenLabsMusic } from "./elevenLabs";
+import { meshyModels } from "./meshy";
+import { offlineImages, offlineModels, offlineMusic, offlineText } from "./offline";
+import { openRouterImage, openRouterText } from "./openRouter";
+import type { ImageProvider, ModelProvider, MusicProvider, TextProvider } from "./types";
+
+export type { ImageKind, ImageProvider, JsonRequest, ModelProvider, ModelTaskStatus, MusicProvider, TextProvider } from "./types";
+
+interface Providers {
+    text: TextProvider;
+    image: ImageProvider;
+    model: ModelProvider;
+    music: MusicProvider;
+}
+
+const REGISTRY: { [K in keyof Providers]: Providers[K][] } = {
+    text: [openRouterText, offlineText],
+    image: [openRouterImage, offlineImages],
+    model: [meshyModels, offlineModels],
+    music: [elevenLabsMusic, offlineMusic]
+};
+
+/**
+ * Provider for a capability by name, from its own env variable, then VITE_AI_PROVIDER, then the
+ * first (vendor) entry. VITE_AI_PROVIDER=offline runs everything without network or keys.
+ */
+const configured = <K extends keyof Providers>(capability: K, name: string | undefined): Providers[K] => {
+    const wanted = name || import.meta.env.VITE_AI_PROVIDER || "";
+    const options = REGISTRY[capability];
+    const match = options.find(provider => provider.name === wanted);
+    if (wanted && !match) {
+        console.warn(`Unknown ${capability} provider "${wanted}", using ${options[0].name}. Options: ${options.map(p => p.name).join(", ")}`);
+    }
+    return match ?? options[0];
+};
+
+const active: Providers = {
+    text: configured("text", import.meta.env.VITE_TEXT_PROVIDER),
+    image: configured("image", import.meta.env.VITE_IMAGE_PROVIDER),
+    model: configured("model", import.meta.env.VITE_MODEL_PROVIDER),
+    music: configured("music", import.meta.env.VITE_MUSIC_PROVIDER)
+};
+
+export const getTextProvider = () => active.text;
+export const getImageProvider = () => active.image;
+export const getModelProvider = () => active.model;
+export const getMusicProvider = () => active.music;
+
+/**
+ * Replaces providers at runtime, e.g. to run the generation flow in tests with a fake.
+ * Task IDs of queued 3D jobs belong to the provider that created them.
+ */
+export const setProviders = (overrides: Partial<Providers>) => {
+    Object.assign(active, overrides);
+};
+
+/**
+ * Switches every capability to the deterministic offline providers.
+ */
+export const setOfflineProviders = () => setProviders({
+    text: offlineText,
+    image: offlineImages,
+    model: offlineModels,
+    music: offlineMusic
+});
@@ -0,0 +1,119 @@
+import { sleep } from "../../utils/sleep";
+import type { ModelProvider, ModelTaskStatus } from "./types";
+
+const MESHY_BASE_URL = "https://api.meshy.ai/openapi/v2";
+
+const getApiKey = () => {
+    return import.meta.env.VITE_MESHY_API_KEY || "";
+};
+
+interface MeshyTaskResponse {
+    result: string; // Task ID
+}
+
+interface MeshyStatusResponse {
+    status: "PENDING" | "IN_PROGRESS" | "SUCCEEDED" | "FAILED";
+    progress: number;
+    model_urls?: {
+        glb: string;
+        fbx?: string;
+        obj?: string;
+    };
+    error?: {
+        message: string;
+    };
+}
+
+const STATUS_MAP: Record<MeshyStatusResponse["status"], ModelTaskStatus["status"]> = {
+    PENDING: "pending",
+    IN_PROGRESS: "running",
+    SUCCEEDED: "succeeded",
+    FAILED: "failed"
+};
+
+/**
+ * Creates a text-to-3d task, backing off while Meshy's queue is full. Aborting `signal` stops
+ * the request and the backoff, so no task is created after a cancel.
+ */
+const createTask = async (body: object, label: string, signal?: AbortSignal): Promise<string> => {
+    const apiKey = getApiKey();
+    if (!apiKey) throw new Error("Missing Meshy API Key. Please set VITE_MESHY_API_KEY in .env");
+
+    const maxRetries = 5;
+    let retryDelay = 2000;
+
+    for (let i = 0; i < maxRetries; i++) {
+        const response = await fetch(`${MESHY_BASE_URL}/text-to-3d`, {
+            method: "POST",
+            headers: {
+                "Authorization": `Bearer ${apiKey}`,
+                "Content-Type": "application/json"
+            },
+            body: JSON.stringify(body),
+            signal
+        });
+
+        if (response.status === 429) {
+            console.warn(`Meshy: Queue full (Rate Limit). Retrying in ${retryDelay}ms...`);
+            await sleep(retryDelay, signal);
+            retryDelay *= 2;
+            continue;
+        }
+
+        if (!response.ok) {
+            const err = await response.text();
+            throw new Error(`Meshy ${label} Error ${response.status}: ${err}`);
+        }
+
+        const data: MeshyTaskResponse = await response.json();
+        console.log(`Meshy: ${label} Task created`, data.result);
+        return data.result;
+    }
+
+    throw new Error(`Meshy ${label}: Max retries exceeded due to rate limits/concurrency.`);
+};
+
+export const meshyModels: ModelProvider = {
+    name: "meshy",
+
+    createPreviewTask(prompt: string, signal?: AbortSignal) {
+        return createTask({
+            mode: "preview",
+            prompt: prompt,
+            negative_prompt: "low quality, low resolution, low poly, ugly",
+            should_remesh: true,
+            ai_model: "meshy-5"
+        }, "Preview", signal);
+    },
+
+    // Adds high-quality textures and geometry to a preview
+    createRefineTask(previewTaskId: string, signal?: AbortSignal) {
+        return createTask({
+            mode: "refine",
+            preview_task_id: previewTaskId,
+            texture_richness: "high"
+        }, "Refine", signal);
+    },
+
+    async getTaskStatus(taskId: string) {
+        const apiKey = getApiKey();
+        const response = await fetch(`${MESHY_BASE_URL}/text-to-3d/${taskId}`, {
+            headers: {
+                "Authorization": `Bearer ${apiKey}`
+            }
+        });
+
+        if (!response.ok) {
+            const err = await response.text();
+            throw new Error(`Meshy Status Error ${response.status}: ${err}`);
+        }
+
+        const data: MeshyStatusResponse = await response.json();
+        return {
+            status: STATUS_MAP[data.status] ?? "pending",
+            progress: data.progress,
+            glbUrl: data.model_urls?.glb,
+            error: data.error?.message
+        };
+    }
+};
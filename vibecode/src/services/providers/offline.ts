@@ -0,0 +1,304 @@
+import type { BiomeData, BiomeParameters, DetailedDescription } from "../../types/biome";
+import { createRandom } from "../../utils/heightfield";
+import { createDroneAudio, createNoiseTexture, createPrimitiveModel, createSkyboxTexture, hashString } from "./offlineAssets";
+import type { ImageProvider, JsonRequest, ModelProvider, ModelTaskStatus, MusicProvider, TextProvider } from "./types";
+
+// Deterministic stand-ins for every generator, for development without network access or keys.
+// Replies are built from the request's inputs and seeded from its prompt, so the same request
+// always produces the same biome and assets.
+
+interface OfflineTheme {
+    maxTemperature: number; // Themes are picked by the first one the temperature fits under
+    names: string[];
+    summary: string;
+    ground: string;
+    sky: string;
+    props: string[];
+    colors: { base: string; high: string; sky: string; fog: string };
+    liquid: { type: "water" | "acid" | "lava" | "methane"; color: string };
+    weather: { type: "rain" | "snow" | "sandstorm" | "spores"; color: string };
+    mood: string;
+}
+
+const THEMES: OfflineTheme[] = [
+    {
+        maxTemperature: -10,
+        names: ["Rime", "Frostveil", "Glacis", "Hoarfell"],
+        summary: "a frozen shelf of blue ice and frost-split slate, silent under a violet sky",
+        ground: "blue glacial ice over frost-cracked slate",
+        sky: "pale violet sky with two small moons and a thin ice haze",
+        props: ["a jagged blue ice crystal", "a frost-covered boulder", "a brittle frozen fern", "a cluster of frozen spore pods"],
+        colors: { base: "#8aa6c1", high: "#eef6ff", sky: "#6a6f9e", fog: "#aabbdd" },
+        liquid: { type: "methane", color: "#5a7fa0" },
+        weather: { type: "snow", color: "#dde8ff" },
+        mood: "cold, glassy and still"
+    },
+    {
+        maxTemperature: 30,
+        names: ["Verdance", "Mossreach", "Loamhold", "Sporefall"],
+        summary: "rolling hills of damp moss and grey stone where glowing fungi tower over the valleys",
+        ground: "damp mossy loam and grey stone",
+        sky: "hazy teal sky with a ringed gas giant low on the horizon",
+        props: ["a tall bioluminescent fungus tree", "a mossy stone boulder", "a curling alien fern", "a cluster of glowing reeds"],
+        colors: { base: "#2d4c1e", high: "#8a9a6a", sky: "#6fb3b8", fog: "#86b8b0" },
+        liquid: { type: "water", color: "#2a7f8f" },
+        weather: { type: "spores", color: "#ffaa44" },
+        mood: "warm, humid and alive"
+    },
+    {
+        maxTemperature: 70,
+        names: ["Ochre Drift", "Dunemere", "Sear", "Kiln Flats"],
+        summary: "wind-carved dunes and red mesas baking under a swollen sun",
+        ground: "wind-rippled ochre sand over red rock",
+        sky: "dusty orange sky with a huge pale sun",
+        props: ["a weathered sandstone spire", "a spiny desert shrub", "a bleached alien rib bone", "a cracked red boulder"],
+        colors: { base: "#b07a45", high: "#e0b57a", sky: "#d9925a", fog: "#c9a070" },
+        liquid: { type: "acid", color: "#9fcf3a" },
+        weather: { type: "sandstorm", color: "#d9a066" },
+        mood: "dry, vast and shimmering"
+    },
+    {
+        maxTemperature: Infinity,
+        names: ["Cinder", "Emberfall", "Basalt Maw", "Pyre"],
+        summary: "a cracked basalt crust split by rivers of lava under a choking crimson sky",
+        ground: "black basalt crust with glowing lava cracks",
+        sky: "smoky crimson sky lit by distant eruptions",
+        props: ["a jagged obsidian crystal spire", "a smoking basalt boulder", "a heat-resistant ember fungus", "a charred petrified tree"],
+        colors: { base: "#1c1414", high: "#4a3a36", sky: "#5a1e14", fog: "#3a2420" },
+        liquid: { type: "lava", color: "#ff5a1a" },
+        weather: { type: "spores", color: "#5a4a48" },
+        mood: "dark, rumbling and ominous"
+    }
+];
+
+const themeFor = (params: BiomeParameters) => THEMES.find(theme => params.temperature <= theme.maxTemperature)!;
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+const range = (min: number, max: number, random: () => number) => min + (max - min) * random();
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+const describeBiome = (params: BiomeParameters, random: () => number): DetailedDescription => {
+    const theme = themeFor(params);
+    const gravityNote = params.gravity < 0.6
+        ? " Low gravity lets loose stones drift in long arcs."
+        : params.gravity > 1.5 ? " Crushing gravity keeps everything squat and low." : "";
+    return {
+        summary: `${theme.summary.charAt(0).toUpperCase()}${theme.summary.slice(1)}.${gravityNote}`,
+        ground: theme.ground,
+        sky: theme.sky,
+        props: theme.props.slice(0, 3 + Math.floor(random() * 2))
+    };
+};
+
+// Prop traits by keyword: how stiff it is, whether it blocks the player, and where it grows
+const propTraits = (description: string, random: () => number) => {
+    const text = description.toLowerCase();
+    if (/crystal|spire|shard|obelisk/.test(text)) {
+        return { rigidity: 1, collidable: true, baseScale: range(3, 6, random), placement: { minHeight: 4, clusterSize: 3, clusterRadius: 6 } };
+    }
+    if (/boulder|rock|stone|bone/.test(text)) {
+        return { rigidity: 1, collidable: true, baseScale: range(2, 5, random), placement: { clusterSize: 4, clusterRadius: 10, spacing: 2 } };
+    }
+    if (/tree/.test(text)) {
+        return { rigidity: 0.6, collidable: true, baseScale: range(5, 9, random), placement: { maxSlope: 30, spacing: 3 } };
+    }
+    if (/reed|grass/.test(text)) {
+        return { rigidity: 0.2, collidable: false, baseScale: range(1, 2, random), placement: { waterDistance: 4, clusterSize: 8, clusterRadius: 5 } };
+    }
+    return { rigidity: 0.3, collidable: false, baseScale: range(1, 3, random), placement: { maxSlope: 35 } };
+};
+
+const titleCase = (text: string) => text.replace(/^(a|an|the)\s+/i, "").replace(/\b\w/g, c => c.toUpperCase());
+
+// A reply in the shape the biome-data prompt asks for, so it goes through the same parsing
+const biomeDataReply = (description: DetailedDescription, params: BiomeParameters, random: () => number) => {
+    const theme = themeFor(params);
+    const waterLevel = round(range(-6, 2, random), 1);
+    const baseHeight = round(range(12, 30, random), 1);
+    return {
+        name: `${pick(theme.names, random)} ${pick(["Expanse", "Reach", "Basin", "Highlands"], random)}`,
+        terrain: {
+            baseColor: theme.colors.base,
+            highColor: theme.colors.high,
+            waterLevel,
+            liquid: theme.liquid,
+            erosion: theme.liquid.type === "water" || random() < 0.3
+                ? { iterations: Math.round(range(4000, 12000, random)), rainAmount: round(range(0.5, 1.5, random), 2), sedimentCapacity: round(range(2, 5, random), 2), talusAngle: round(range(30, 45, random), 1) }
+                : null,
+            carvers: null,
+            materials: [
+                { name: "Shore", minHeight: -1000, maxHeight: waterLevel + 1.5, minSlope: 0, maxSlope: 30, blend: 1, color: theme.colors.high, texturePrompt: `wet ${description.ground} at the shoreline` },
+                { name: "Ground", minHeight: -1000, maxHeight: 1000, minSlope: 0, maxSlope: 35, blend: 2, color: theme.colors.base, texturePrompt: description.ground },
+                { name: "Cliff Rock", minHeight: -1000, maxHeight: 1000, minSlope: 35, maxSlope: 90, blend: 3, color: "#5a5550", texturePrompt: "bare fractured cliff rock" }
+            ],
+            layers: [
+                {
+                    name: "Base Layer", type: pick(["fbm", "ridged", "billow"], random), blend: "add",
+                    noiseScale: round(range(0.003, 0.007, random), 4), heightScale: baseHeight,
+                    octaves: 5, lacunarity: 2, gain: 0.5, roughness: 0, offsetX: 0, offsetZ: 0
+                },
+                {
+                    name: "Detail Layer", type: "fbm", blend: "add",
+                    noiseScale: round(range(0.02, 0.04, random), 4), heightScale: round(range(1, 3, random), 1),
+                    octaves: 3, lacunarity: 2, gain: 0.5, roughness: 0, offsetX: 0, offsetZ: 0, mask: null
+                }
+            ]
+        },
+        atmosphere: {
+            skyColor: theme.colors.sky,
+            fogColor: theme.colors.fog,
+            fogDensity: round(params.atmosphereDensity === "Soupy" ? 0.03 : params.atmosphereDensity === "Thin" ? 0.004 : 0.012, 4),
+            sunIntensity: round(range(0.7, 1.4, random), 2)
+        },
+        musicPrompt: `A slow ambient drone for an alien world that feels ${theme.mood}; no vocals.`,
+        props: description.props.map(prop => ({
+            name: titleCase(prop),
+            prompt: prop,
+            density: round(range(0.05, 0.2, random), 3),
+            ...propTraits(prop, random)
+        })),
+        weather: {
+            type: theme.weather.type,
+            intensity: round(range(0.5, 2, random), 2),
+            color: theme.weather.color,
+            speed: round(range(0.8, 2.5, random), 2)
+        },
+        world: params.gravity < 0.3 ? { shape: "sphere", radius: Math.round(range(200, 400, random)) } : null
+    };
+};
+
+const COLOR_WORDS: Record<string, string> = {
+    red: "#a8322a", orange: "#d9772b", yellow: "#d8c040", green: "#3f8a3a", teal: "#2f8f8a", blue: "#3a62b0",
+    purple: "#6a3fa0", violet: "#7a4fb8", pink: "#d77aa8", white: "#eeeeee", grey: "#808080", gray: "#808080", black: "#151515"
+};
+const WEATHER_WORDS = { rain: "rain", snow: "snow", sand: "sandstorm", spore: "spores" } as const;
+
+// Words long enough to identify a prop by, e.g. "fungus trees" -> ["fungus", "trees"]
+const keywords = (text: string) => text.toLowerCase().split(/[^a-z]+/).filter(word => word.length > 3).map(word => word.replace(/e?s$/, ""));
+
+const findProp = (biome: BiomeData, text: string) => {
+    const words = keywords(text);
+    return biome.props.find(prop => words.some(word => prop.name.toLowerCase().includes(word)));
+};
+
+// A patch in the shape the edit prompt asks for, from simple keyword clauses like
+// "make the mountains taller and add glowing reeds"
+const biomePatchReply = (biome: BiomeData, instruction: string, random: () => number) => {
+    const set: { path: string; value: unknown }[] = [];
+    const removeProps: string[] = [];
+    const addProps: Record<string, unknown>[] = [];
+    const newProp = (description: string) => {
+        const prompt = description.trim().replace(/^(some|more|a few)\s+/i, "");
+        addProps.push({ name: titleCase(prompt), prompt, density: round(range(0.05, 0.2, random), 3), ...propTraits(prompt, random) });
+    };
+
+    instruction.split(/,|;|\.|\band\b|\bthen\b/i).map(clause => clause.trim()).filter(Boolean).forEach(clause => {
+        const text = clause.toLowerCase();
+        const color = Object.keys(COLOR_WORDS).find(word => new RegExp(`\\b${word}\\b`).test(text));
+        const replace = clause.match(/(?:replace|swap)\s+(?:the\s+)?(.+?)\s+(?:with|for)\s+(.+)/i);
+        const add = clause.match(/^(?:add|grow|plant|scatter)\s+(.+)/i);
+        const remove = clause.match(/^(?:remove|delete|get rid of|no more)\s+(?:the\s+)?(.+)/i);
+
+        if (replace) {
+            const prop = findProp(biome, replace[1]);
+            if (prop) removeProps.push(prop.name);
+            newProp(replace[2]);
+        } else if (remove) {
+            const prop = findProp(biome, remove[1]);
+            if (prop) removeProps.push(prop.name);
+        } else if (add) {
+            const existing = findProp(biome, add[1]);
+            if (existing && /\bmore\b/.test(text)) {
+                set.push({ path: `props[${biome.props.indexOf(existing)}].density`, value: round(Math.min(0.5, existing.density * 1.5), 3) });
+            } else newProp(add[1]);
+        } else if (/music|soundtrack|song/.test(text)) {
+            set.push({ path: "musicPrompt", value: `An ambient space song for the biome (${clause}); no vocals.` });
+        } else if (/fog|haze|mist/.test(text)) {
+            if (color) set.push({ path: "atmosphere.fogColor", value: COLOR_WORDS[color] });
+            const density = biome.atmosphere.fogDensity;
+            if (/thick|dense|more|heav/.test(text)) set.push({ path: "atmosphere.fogDensity", value: round(Math.min(0.05, density * 2), 4) });
+            else if (/thin|less|clear|light|no /.test(text)) set.push({ path: "atmosphere.fogDensity", value: round(Math.max(0.001, density / 2), 4) });
+        } else if (/\bsky\b/.test(text)) {
+            if (color) {
+                set.push({ path: "atmosphere.skyColor", value: COLOR_WORDS[color] });
+                set.push({ path: "parameters.skyDescription", value: `${color} ${biome.parameters.skyDescription || "alien sky"}` });
+            }
+        } else if (/water|sea|lake|ocean|flood|lava|acid/.test(text)) {
+            const up = /rais|high|more|flood|deep/.test(text);
+            set.push({ path: "terrain.waterLevel", value: round(Math.min(10, Math.max(-10, (biome.terrain.waterLevel ?? 0) + (up ? 3 : -3))), 1) });
+        } else if (/taller|higher|steeper|bigger|mountainous/.test(text)) {
+            set.push({ path: "terrain.layers[0].heightScale", value: round(Math.min(40, (biome.terrain.layers?.[0]?.heightScale ?? 15) * 1.5), 1) });
+        } else if (/flatter|lower|gentler|smoother|smaller/.test(text)) {
+            set.push({ path: "terrain.layers[0].heightScale", value: round(Math.max(5, (biome.terrain.layers?.[0]?.heightScale ?? 15) * 0.6), 1) });
+        } else {
+            const weather = (Object.keys(WEATHER_WORDS) as (keyof typeof WEATHER_WORDS)[]).find(word => text.includes(word));
+            if (weather) set.push({ path: "weather.type", value: WEATHER_WORDS[weather] });
+            if (/stop|calm|no weather|clear/.test(text)) set.push({ path: "weather.intensity", value: 0 });
+            else if (/storm|heav|more/.test(text)) set.push({ path: "weather.intensity", value: round(Math.min(3, biome.weather.intensity * 1.5 + 0.5), 2) });
+        }
+    });
+
+    return { summary: instruction.trim(), set, removeProps, addProps };
+};
+
+export const offlineText: TextProvider = {
+    name: "offline",
+
+    async generateJson(request: JsonRequest) {
+        const random = createRandom(hashString(request.prompt));
+        switch (request.kind) {
+            case "biome-description": return JSON.stringify(describeBiome(request.params, random));
+            case "biome-data": return JSON.stringify(biomeDataReply(request.description, request.params, random));
+            case "biome-patch": return JSON.stringify(biomePatchReply(request.biome, request.instruction, random));
+        }
+    }
+};
+
+export const offlineImages: ImageProvider = {
+    name: "offline",
+
+    async generateImage(prompt, kind) {
+        return kind === "skybox" ? createSkyboxTexture(prompt) : createNoiseTexture(prompt);
+    }
+};
+
+// Task IDs carry the prompt, so a job resumed after a reload can still be answered
+const PREVIEW_PREFIX = "offline-preview:";
+const REFINE_PREFIX = "offline-refine:";
+const modelUrls = new Map<string, string>();
+
+const modelFor = (prompt: string, textured: boolean) => {
+    const key = `${textured}:${prompt}`;
+    if (!modelUrls.has(key)) modelUrls.set(key, createPrimitiveModel(prompt, textured));
+    return modelUrls.get(key)!;
+};
+
+export const offlineModels: ModelProvider = {
+    name: "offline",
+
+    async createPreviewTask(prompt) {
+        return PREVIEW_PREFIX + encodeURIComponent(prompt);
+    },
+
+    async createRefineTask(previewTaskId) {
+        if (!previewTaskId.startsWith(PREVIEW_PREFIX)) throw new Error(`Not an offline preview task: ${previewTaskId}`);
+        return REFINE_PREFIX + previewTaskId.slice(PREVIEW_PREFIX.length);
+    },
+
+    async getTaskStatus(taskId): Promise<ModelTaskStatus> {
+        const refine = taskId.startsWith(REFINE_PREFIX);
+        if (!refine && !taskId.startsWith(PREVIEW_PREFIX)) {
+            return { status: "failed", progress: 0, error: `Unknown task ${taskId}; it was created by another model provider` };
+        }
+        const prompt = decodeURIComponent(taskId.slice(refine ? REFINE_PREFIX.length : PREVIEW_PREFIX.length));
+        return { status: "succeeded", progress: 100, glbUrl: modelFor(prompt, refine) };
+    }
+};
+
+export const offlineMusic: MusicProvider = {
+    name: "offline",
+
+    async generateMusic(prompt, durationMs) {
+        return createDroneAudio(prompt, durationMs);
+    }
+};
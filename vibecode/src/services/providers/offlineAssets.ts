@@ -0,0 +1,368 @@
+import * as THREE from "three";
+import { createNoise3D, createNoise4D } from "simplex-noise";
+import { createRandom } from "../../utils/heightfield";
+
+// Procedural stand-ins for generated assets, encoded as data URLs so they flow through the same
+// loaders, caches and uploads as real ones. Everything is seeded from the prompt text.
+
+/**
+ * FNV-1a hash of a string, used as the seed for everything generated from a prompt.
+ */
+export const hashString = (text: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mime: string): string => {
+    // btoa takes a binary string; build it in slices to stay under the argument limit
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mime};base64,${btoa(binary)}`;
+};
+
+type RGB = [number, number, number];
+
+// Keyword palettes: the first match in the prompt picks the dark and light colours
+const PALETTES: [RegExp, RGB, RGB][] = [
+    [/lava|magma|volcan|ember|molten/, [40, 12, 8], [230, 90, 30]],
+    [/ice|frost|snow|glacia|frozen/, [120, 150, 185], [235, 245, 255]],
+    [/sand|dune|desert|dust/, [150, 110, 65], [225, 190, 130]],
+    [/crystal|quartz|amethyst|gem/, [70, 40, 110], [190, 150, 240]],
+    [/moss|grass|jungle|fern|lichen/, [30, 60, 25], [110, 160, 70]],
+    [/mud|swamp|bog|clay/, [45, 35, 25], [110, 90, 60]],
+    [/ash|basalt|obsidian|coal/, [20, 20, 24], [85, 85, 95]],
+    [/rock|stone|cliff|gravel/, [70, 65, 60], [150, 145, 135]],
+    [/rust|iron|red/, [80, 30, 20], [190, 90, 50]]
+];
+
+const hslToRgb = (h: number, s: number, l: number): RGB => {
+    const color = new THREE.Color().setHSL(h, s, l);
+    return [color.r * 255, color.g * 255, color.b * 255];
+};
+
+const paletteFor = (prompt: string): [RGB, RGB] => {
+    const text = prompt.toLowerCase();
+    const match = PALETTES.find(([pattern]) => pattern.test(text));
+    if (match) return [match[1], match[2]];
+    const hue = (hashString(prompt) % 360) / 360;
+    return [hslToRgb(hue, 0.4, 0.2), hslToRgb(hue, 0.5, 0.65)];
+};
+
+const mix = (a: RGB, b: RGB, t: number): RGB => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+/**
+ * Encodes RGB pixels (rows top-down, 0-255) as a 24-bit BMP; every browser decodes it and it
+ * needs no compression.
+ */
+const encodeBmp = (width: number, height: number, pixel: (x: number, y: number) => RGB): Uint8Array => {
+    const rowSize = Math.ceil(width * 3 / 4) * 4;
+    const bytes = new Uint8Array(54 + rowSize * height);
+    const view = new DataView(bytes.buffer);
+    bytes[0] = 0x42; bytes[1] = 0x4d; // "BM"
+    view.setUint32(2, bytes.length, true);
+    view.setUint32(10, 54, true);
+    view.setUint32(14, 40, true);
+    view.setInt32(18, width, true);
+    view.setInt32(22, -height, true); // Negative height: rows stored top-down
+    view.setUint16(26, 1, true);
+    view.setUint16(28, 24, true);
+    view.setUint32(34, rowSize * height, true);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const [r, g, b] = pixel(x, y);
+            const i = 54 + y * rowSize + x * 3;
+            bytes[i] = Math.max(0, Math.min(255, Math.round(b)));
+            bytes[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
+            bytes[i + 2] = Math.max(0, Math.min(255, Math.round(r)));
+        }
+    }
+    return bytes;
+};
+
+const TEXTURE_SIZE = 256;
+const SKYBOX_WIDTH = 1024;
+const SKYBOX_HEIGHT = 512;
+
+/**
+ * Seamless ground texture: fractal noise sampled on a 4D torus, so both axes wrap.
+ */
+export const createNoiseTexture = (prompt: string): string => {
+    const noise = createNoise4D(createRandom(hashString(prompt)));
+    const [dark, light] = paletteFor(prompt);
+    const radius = 1.2;
+
+    const bytes = encodeBmp(TEXTURE_SIZE, TEXTURE_SIZE, (x, y) => {
+        const u = x / TEXTURE_SIZE * Math.PI * 2;
+        const v = y / TEXTURE_SIZE * Math.PI * 2;
+        let value = 0, amplitude = 0.5, frequency = 1;
+        for (let octave = 0; octave < 5; octave++) {
+            value += amplitude * noise(
+                Math.cos(u) * radius * frequency, Math.sin(u) * radius * frequency,
+                Math.cos(v) * radius * frequency, Math.sin(v) * radius * frequency
+            );
+            amplitude *= 0.5;
+            frequency *= 2;
+        }
+        const t = Math.max(0, Math.min(1, value * 0.8 + 0.5));
+        return mix(dark, light, t);
+    });
+    return bytesToDataUrl(bytes, "image/bmp");
+};
+
+/**
+ * Equirectangular sky: a zenith-to-horizon gradient with stars above and drifting cloud bands,
+ * wrapping seamlessly around the horizon.
+ */
+export const createSkyboxTexture = (prompt: string): string => {
+    const seed = hashString(prompt);
+    const random = createRandom(seed);
+    const noise = createNoise3D(random);
+    const [dark, light] = paletteFor(prompt);
+    const zenith = mix([2, 2, 8], dark, 0.4);
+    const horizon = mix(dark, light, 0.7);
+
+    const bytes = encodeBmp(SKYBOX_WIDTH, SKYBOX_HEIGHT, (x, y) => {
+        const longitude = x / SKYBOX_WIDTH * Math.PI * 2;
+        const elevation = 1 - y / SKYBOX_HEIGHT * 2; // 1 at the zenith, -1 at the nadir
+        const up = Math.max(0, elevation);
+        let color = mix(horizon, zenith, Math.pow(up, 0.6));
+
+        // Clouds on a cylinder around the viewer, fading out toward the zenith
+        const cx = Math.cos(longitude) * 2, cz = Math.sin(longitude) * 2;
+        const cloud = noise(cx, elevation * 6, cz) * 0.6 + noise(cx * 2, elevation * 12, cz * 2) * 0.4;
+        const cover = Math.max(0, cloud - 0.1) * (1 - up) * 1.4;
+        color = mix(color, light, Math.min(0.8, cover));
+
+        // Stars from a per-pixel hash, only in the darker upper sky
+        const star = ((Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ seed) >>> 0) % 1000;
+        if (star < 2 && up > 0.25 && cover < 0.1) color = mix(color, [255, 255, 255], 0.9);
+        return elevation < 0 ? mix(color, dark, Math.min(1, -elevation * 3)) : color;
+    });
+    return bytesToDataUrl(bytes, "image/bmp");
+};
+
+// --- Models ---
+
+interface ModelPart {
+    geometry: THREE.BufferGeometry;
+    color: RGB;
+}
+
+const partColor = (color: RGB, textured: boolean): RGB => textured ? color : [180, 180, 180];
+
+/**
+ * Primitive stand-in for a prop, chosen by keywords: trees and plants get a stem and a crown,
+ * crystals a cluster of spikes, anything else a lumpy boulder. Base sits at y = 0.
+ */
+const buildModelParts = (prompt: string, textured: boolean): ModelPart[] => {
+    const text = prompt.toLowerCase();
+    const random = createRandom(hashString(prompt));
+    const [dark, light] = paletteFor(prompt);
+
+    if (/tree|mushroom|fung|palm|plant|fern|flower|stalk|shrub|bush|reed/.test(text)) {
+        const height = 1.5 + random() * 1.5;
+        const stem = new THREE.CylinderGeometry(0.08, 0.15, height, 8).translate(0, height / 2, 0);
+        const rounded = /mushroom|fung|bush|shrub|flower/.test(text);
+        const crown = rounded
+            ? new THREE.SphereGeometry(0.6 + random() * 0.4, 12, 8).scale(1, 0.6, 1).translate(0, height, 0)
+            : new THREE.ConeGeometry(0.7 + random() * 0.3, height, 10).translate(0, height * 1.1, 0);
+        return [
+            { geometry: stem, color: partColor(mix(dark, [90, 60, 40], 0.5), textured) },
+            { geometry: crown, color: partColor(light, textured) }
+        ];
+    }
+
+    if (/crystal|shard|spire|spike|gem|obelisk/.test(text)) {
+        const count = 3 + Math.floor(random() * 3);
+        return Array.from({ length: count }, (_, i) => {
+            const height = 0.8 + random() * 1.6;
+            const spike = new THREE.ConeGeometry(0.2 + random() * 0.15, height, 6).translate(0, height / 2, 0);
+            spike.rotateZ((random() - 0.5) * 0.8).rotateY(i / count * Math.PI * 2);
+            return { geometry: spike, color: partColor(mix(dark, light, random()), textured) };
+        });
+    }
+
+    const boulder = new THREE.IcosahedronGeometry(0.8, 2);
+    const position = boulder.getAttribute("position");
+    const vertex = new THREE.Vector3();
+    const phase = random() * Math.PI * 2;
+    // Icosahedron vertices are duplicated per face, so the bumps depend on position alone to keep it closed
+    for (let i = 0; i < position.count; i++) {
+        vertex.fromBufferAttribute(position, i);
+        const bump = 1 + 0.25 * Math.sin(vertex.x * 5 + phase) * Math.cos(vertex.z * 4 + phase);
+        position.setXYZ(i, vertex.x * bump, Math.max(vertex.y * bump * 0.7, -0.3), vertex.z * bump);
+    }
+    boulder.translate(0, 0.3, 0);
+    boulder.computeVertexNormals();
+    return [{ geometry: boulder, color: partColor(mix(dark, light, 0.5), textured) }];
+};
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+/**
+ * Minimal binary glTF writer: one node per part, positions, normals and indices, and a plain
+ * coloured material each.
+ */
+const encodeGlb = (parts: ModelPart[]): Uint8Array => {
+    const buffers: Uint8Array[] = [];
+    let byteLength = 0;
+    const bufferViews: object[] = [];
+    const accessors: object[] = [];
+
+    const addView = (data: ArrayBufferView, target: number) => {
+        const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        const padding = (4 - byteLength % 4) % 4;
+        if (padding) buffers.push(new Uint8Array(padding));
+        byteLength += padding;
+        bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.length, target });
+        buffers.push(bytes);
+        byteLength += bytes.length;
+        return bufferViews.length - 1;
+    };
+    const addAccessor = (accessor: object) => {
+        accessors.push(accessor);
+        return accessors.length - 1;
+    };
+
+    const meshes = parts.map(({ geometry }, index) => {
+        const position = geometry.getAttribute("position");
+        const normal = geometry.getAttribute("normal");
+        geometry.computeBoundingBox();
+        const box = geometry.boundingBox!;
+        const attributes = {
+            POSITION: addAccessor({
+                bufferView: addView(new Float32Array(position.array), 34962),
+                componentType: 5126, count: position.count, type: "VEC3",
+                min: box.min.toArray(), max: box.max.toArray()
+            }),
+            NORMAL: addAccessor({
+                bufferView: addView(new Float32Array(normal.array), 34962),
+                componentType: 5126, count: normal.count, type: "VEC3"
+            })
+        };
+        const primitive: Record<string, unknown> = { attributes, material: index };
+        const indexAttribute = geometry.getIndex();
+        if (indexAttribute) {
+            primitive.indices = addAccessor({
+                bufferView: addView(new Uint32Array(indexAttribute.array), 34963),
+                componentType: 5125, count: indexAttribute.count, type: "SCALAR"
+            });
+        }
+        return { primitives: [primitive] };
+    });
+
+    const json = {
+        asset: { version: "2.0", generator: "vibecode offline provider" },
+        scene: 0,
+        scenes: [{ nodes: parts.map((_, i) => i) }],
+        nodes: parts.map((_, i) => ({ mesh: i })),
+        meshes,
+        materials: parts.map(({ color }) => ({
+            pbrMetallicRoughness: {
+                baseColorFactor: [color[0] / 255, color[1] / 255, color[2] / 255, 1],
+                metallicFactor: 0,
+                roughnessFactor: 0.85
+            }
+        })),
+        accessors,
+        bufferViews,
+        buffers: [{ byteLength }]
+    };
+
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+    const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+    const binLength = Math.ceil(byteLength / 4) * 4;
+    const glb = new Uint8Array(12 + 8 + jsonLength + 8 + binLength);
+    const view = new DataView(glb.buffer);
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, glb.length, true);
+
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, CHUNK_JSON, true);
+    glb.fill(0x20, 20, 20 + jsonLength); // JSON chunk is padded with spaces
+    glb.set(jsonBytes, 20);
+
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, CHUNK_BIN, true);
+    let offset = binStart + 8;
+    buffers.forEach(bytes => {
+        glb.set(bytes, offset);
+        offset += bytes.length;
+    });
+    return glb;
+};
+
+/**
+ * GLB data URL for a prop; `textured` false gives the grey look of an unrefined preview.
+ */
+export const createPrimitiveModel = (prompt: string, textured: boolean): string => {
+    const parts = buildModelParts(prompt, textured);
+    const url = bytesToDataUrl(encodeGlb(parts), "model/gltf-binary");
+    parts.forEach(part => part.geometry.dispose());
+    return url;
+};
+
+// --- Music ---
+
+const SAMPLE_RATE = 22050;
+
+/**
+ * A slowly breathing drone: a chord of sine partials with their own swells. Every frequency
+ * completes a whole number of cycles over the clip, so it loops without a click.
+ */
+export const createDroneAudio = (prompt: string, durationMs: number): string => {
+    const random = createRandom(hashString(prompt));
+    const seconds = Math.max(1, Math.round(durationMs / 1000));
+    const sampleCount = seconds * SAMPLE_RATE;
+    const loopable = (frequency: number) => Math.max(1, Math.round(frequency * seconds)) / seconds;
+
+    const root = 45 + random() * 40;
+    // Minor or major flavour, with an octave and a fifth on top
+    const third = /dark|eerie|ominous|cold|frozen|toxic|void/.test(prompt.toLowerCase()) ? 1.2 : 1.25;
+    const partials = [1, 1.5, 2, 2 * third, 3, 4 * third].map((ratio, i) => ({
+        frequency: loopable(root * ratio * (1 + (random() - 0.5) * 0.004)),
+        swell: loopable(0.02 + random() * 0.08),
+        phase: random() * Math.PI * 2,
+        gain: 0.5 / (i + 1)
+    }));
+    const peak = partials.reduce((sum, p) => sum + p.gain, 0);
+
+    const bytes = new Uint8Array(44 + sampleCount * 2);
+    const view = new DataView(bytes.buffer);
+    const writeTag = (offset: number, tag: string) => [...tag].forEach((c, i) => { bytes[offset + i] = c.charCodeAt(0); });
+    writeTag(0, "RIFF");
+    view.setUint32(4, 36 + sampleCount * 2, true);
+    writeTag(8, "WAVE");
+    writeTag(12, "fmt ");
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // Mono
+    view.setUint32(24, SAMPLE_RATE, true);
+    view.setUint32(28, SAMPLE_RATE * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeTag(36, "data");
+    view.setUint32(40, sampleCount * 2, true);
+
+    for (let i = 0; i < sampleCount; i++) {
+        const t = i / SAMPLE_RATE;
+        let sample = 0;
+        for (const p of partials) {
+            const swell = 0.5 + 0.5 * Math.sin(t * p.swell * Math.PI * 2 + p.phase);
+            sample += Math.sin(t * p.frequency * Math.PI * 2 + p.phase) * p.gain * swell;
+        }
+        view.setInt16(44 + i * 2, Math.round(sample / peak * 0.6 * 32767), true);
+    }
+    return bytesToDataUrl(bytes, "audio/wav");
+};
@@ -0,0 +1,117 @@
+import type { ImageKind, ImageProvider, JsonRequest, TextProvider } from "./types";
+
+const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
+const TEXT_MODEL = "google/gemini-3-flash-preview";
+// "Nano Banana" (Gemini 2.5 Flash Image)
+const IMAGE_MODEL = "google/gemini-2.5-flash-image";
+
+// Helper to get key (assuming user defines VITE_OPENROUTER_GEMINI_KEY, but we check variances)
+const getApiKey = () => {
+    return import.meta.env.VITE_OPENROUTER_GEMINI_KEY || import.meta.env.OPENROUTER_GEMINI_KEY || "";
+};
+
+interface OpenRouterResponse {
+    choices: {
+        message: {
+            content: string;
+        };
+    }[];
+}
+
+interface OpenRouterImage {
+    image_url?: { url?: string };
+    url?: string;
+}
+
+interface OpenRouterImageResponse {
+    choices?: {
+        message?: {
+            content?: string;
+            images?: OpenRouterImage[];
+        };
+    }[];
+}
+
+export const openRouterText: TextProvider = {
+    name: "openrouter",
+
+    async generateJson(request: JsonRequest, signal?: AbortSignal) {
+        const apiKey = getApiKey();
+        if (!apiKey) throw new Error("Missing API Key. Please set VITE_OPENROUTER_GEMINI_KEY in .env");
+
+        const response = await fetch(OPENROUTER_API_URL, {
+            method: "POST",
+            headers: {
+                "Authorization": `Bearer ${apiKey}`,
+                "Content-Type": "application/json"
+            },
+            body: JSON.stringify({
+                model: TEXT_MODEL,
+                messages: [{ role: "user", content: request.prompt }]
+            }),
+            signal
+        });
+
+        if (!response.ok) throw new Error(`AI Request Failed: ${response.statusText}`);
+        const data: OpenRouterResponse = await response.json();
+        return data.choices[0].message.content;
+    }
+};
+
+export const openRouterImage: ImageProvider = {
+    name: "openrouter",
+
+    async generateImage(prompt: string, kind: ImageKind, signal?: AbortSignal) {
+        const apiKey = getApiKey();
+        const isGemini = IMAGE_MODEL.includes("gemini");
+
+        // Updated based on OpenRouter Docs: Use /chat/completions for multimodal generation
+        const response = await fetch(OPENROUTER_API_URL, {
+            method: "POST",
+            headers: {
+                "Authorization": `Bearer ${apiKey}`,
+                "Content-Type": "application/json",
+                "HTTP-Referer": "http://localhost:5173",
+                "X-Title": "Vibecode"
+            },
+            body: JSON.stringify({
+                model: IMAGE_MODEL,
+                messages: [{ role: "user", content: prompt }],
+                // Gemini requires explicit modalities. Others (like Flux) might strict fail if "text" is requested but not supported.
+                ...(isGemini ? { modalities: ["image", "text"] } : {}),
+            }),
+            signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.warn(`OpenRouter ${kind} generation failed:`, response.status, errorText);
+            return "";
+        }
+
+        const data: OpenRouterImageResponse = await response.json();
+        const message = data.choices?.[0]?.message;
+
+        if (message) {
+            // 1. Try OpenRouter/OpenAI "images" array (non-standard but possible)
+            if (message.images && message.images.length > 0) {
+                const imgObj = message.images[0];
+                return imgObj.image_url?.url || imgObj.url || "";
+            }
+
+            // 2. Try parsing Markdown image from content: ![alt](url)
+            if (message.content) {
+                const mdMatch = message.content.match(/!\[.*?\]\((.*?)\)/);
+                if (mdMatch) return mdMatch[1];
+
+                // 3. Try finding a raw URL in the content
+                // We ignore parentheses at the end to avoid matching markdown closing parens if regex failed
+                const urlMatch = message.content.match(/https?:\/\/[^\s)]+/);
+                if (urlMatch) return urlMatch[0];
+            }
+        }
+
+        console.warn(`OpenRouter ${kind} generation: No image found in response`, data);
+        return "";
+    }
+};
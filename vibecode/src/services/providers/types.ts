@@ -0,0 +1,51 @@
+import type { BiomeData, BiomeParameters, DetailedDescription } from "../../types/biome";
+
+// One interface per generative capability. The services in ../ build the prompts and own caching,
+// queueing and validation; providers only talk to a vendor (or fake one) and normalise its reply.
+
+/**
+ * A structured-output request. `prompt` is the full instruction for an LLM; the other fields carry
+ * the same inputs as data for providers that don't read prompts (the offline one).
+ */
+export type JsonRequest =
+    | { kind: "biome-description"; prompt: string; params: BiomeParameters }
+    | { kind: "biome-data"; prompt: string; description: DetailedDescription; params: BiomeParameters }
+    | { kind: "biome-patch"; prompt: string; biome: BiomeData; instruction: string };
+
+export interface TextProvider {
+    name: string;
+    /** Resolves to the reply as JSON text, possibly wrapped in a markdown code block. */
+    generateJson(request: JsonRequest, signal?: AbortSignal): Promise<string>;
+}
+
+export type ImageKind = "texture" | "skybox";
+
+export interface ImageProvider {
+    name: string;
+    /** Resolves to an image URL (remote or data:), or "" when the provider produced no image. */
+    generateImage(prompt: string, kind: ImageKind, signal?: AbortSignal): Promise<string>;
+}
+
+export interface ModelTaskStatus {
+    status: "pending" | "running" | "succeeded" | "failed";
+    progress: number; // 0-100 within the task
+    glbUrl?: string;
+    error?: string;
+}
+
+/**
+ * Text-to-3D is task based, so a generation can be resumed from its task IDs after a reload:
+ * a quick untextured preview, then a refine pass on top of it.
+ */
+export interface ModelProvider {
+    name: string;
+    createPreviewTask(prompt: string, signal?: AbortSignal): Promise<string>;
+    createRefineTask(previewTaskId: string, signal?: AbortSignal): Promise<string>;
+    getTaskStatus(taskId: string): Promise<ModelTaskStatus>;
+}
+
+export interface MusicProvider {
+    name: string;
+    /** Resolves to the audio as a base64 data URL. */
+    generateMusic(prompt: string, durationMs: number, signal?: AbortSignal): Promise<string>;
+}
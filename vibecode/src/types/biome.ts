@@ -1,10 +1,68 @@
+export type NoiseLayerType = 'fbm' | 'ridged' | 'billow' | 'terraced' | 'domain-warp';
+
+export type LayerBlendMode = 'add' | 'multiply' | 'max';
+
+export interface LayerMask {
+  layer: number; // Index of the layer whose shape gates this one
+  threshold: number; // Mask value (-1 to 1) where this layer reaches half strength
+  softness: number; // Width of the fade either side of the threshold
+  invert?: boolean;
+}
+
 export interface TerrainLayer {
   name: string;
   noiseScale: number; // Frequency
   heightScale: number; // Amplitude
-  roughness: number; // Detail / Octaves contribution
+  roughness: number; // Legacy detail knob; gain defaults to 0.5 * roughness
   offsetX: number;
   offsetZ: number;
+  // Missing fields fall back to the original two-octave fbm, so older layers look the same
+  type?: NoiseLayerType; // Default 'fbm'
+  octaves?: number; // Default 2
+  lacunarity?: number; // Frequency multiplier per octave, default 2
+  gain?: number; // Amplitude multiplier per octave
+  blend?: LayerBlendMode; // How this layer combines with the ones above it, default 'add'
+  mask?: LayerMask;
+  terraceSteps?: number; // 'terraced' only, default 6
+  warpStrength?: number; // 'domain-warp' only, default 1
+}
+
+export type LiquidType = 'water' | 'acid' | 'lava' | 'methane' | 'mercury';
+
+export interface LiquidParams {
+  type: LiquidType;
+  color: string;
+}
+
+export interface ErosionParams {
+  iterations: number; // Rain droplets simulated per chunk
+  rainAmount: number; // Water each droplet starts with
+  sedimentCapacity: number; // How much soil moving water can carry
+  talusAngle: number; // Degrees; steeper slopes shed material (thermal erosion)
+}
+
+export type CarverType = 'cavern' | 'tunnel';
+
+// 3D noise that hollows out the ground. Any carver switches flat terrain to volumetric chunks.
+export interface TerrainCarver {
+  type: CarverType; // 'cavern' opens blobs where the noise is high, 'tunnel' winding tubes where it crosses zero
+  noiseScale: number; // Frequency
+  threshold: number; // Cavern: noise level (0 to 1) above which rock is removed. Tunnel: half-width of the hollow band
+  strength: number; // Depth of rock removed at full effect, in world units; also how far below the surface it reaches
+  minHeight: number; // World Y band the carver works in; it fades out at both ends
+  maxHeight: number;
+}
+
+export interface MaterialZone {
+  name: string;
+  minHeight: number; // World units; use a large negative number for no lower bound
+  maxHeight: number;
+  minSlope: number; // Degrees from horizontal (0 = flat, 90 = vertical)
+  maxSlope: number;
+  blend: number; // Fade width at each edge, in world units for height and degrees for slope
+  color: string; // Used when there is no texture, and while it loads
+  textureUrl?: string;
+  texturePrompt?: string; // Ground material description used to generate the texture
 }
 
 export interface TerrainRules {
@@ -12,6 +70,10 @@ export interface TerrainRules {
   highColor: string;
   layers: TerrainLayer[];
   waterLevel: number;
+  liquid?: LiquidParams; // What fills everything below waterLevel
+  erosion?: ErosionParams; // Weathering pass applied on top of the noise layers
+  materials?: MaterialZone[]; // Surface materials by height and slope; earlier zones win ties
+  carvers?: TerrainCarver[]; // Caves, arches and overhangs; flat worlds only
   textureUrl?: string;
   seed: number;
 }
@@ -34,12 +96,35 @@ export interface BiomeParameters {
   skyDescription: string; // Specific for skybox
 }
 
+// First-pass description of a biome, expanded into BiomeData afterwards
+export interface DetailedDescription {
+  summary: string;
+  ground: string; // Ground texture prompt
+  sky: string; // Skybox prompt
+  props: string[]; // Short prop descriptions
+}
+
+// Where a prop may grow; every field is optional and unset rules don't constrain placement
+export interface PropPlacementRules {
+  minHeight?: number; // Ground height band in world units
+  maxHeight?: number;
+  maxSlope?: number; // Degrees from horizontal
+  waterDistance?: number; // Preferred distance to the liquid's shore; props thin out away from it
+  waterFalloff?: number; // How far from the preferred distance before props mostly disappear
+  clusterSize?: number; // Props per clump; 1 scatters them evenly
+  clusterRadius?: number; // Clump radius in world units
+  spacing?: number; // Minimum distance to props of other types; earlier props in the list claim space first
+}
+
 export interface PropDefinition {
   id: string;
   name: string;
   prompt: string;
   density: number; // 0 to 1
   baseScale: number;
+  rigidity?: number; // 0 sways freely in the wind (grass, fronds), 1 never moves (rocks, crystals); missing means 1
+  collidable?: boolean; // false lets the player walk through (grass, small flowers); missing means solid
+  placement?: PropPlacementRules;
   url?: string; // Permanent storage URL
 }
 
@@ -50,6 +135,19 @@ export interface WeatherParams {
   speed: number;
 }
 
+export type WorldShape = 'plane' | 'sphere';
+
+export interface WorldParams {
+  shape: WorldShape;
+  radius: number; // Sphere only: sea-level radius in world units
+}
+
+export interface BiomeLineage {
+  parentId: string; // Gallery entry it was forked from
+  rootId: string; // The original entry at the top of the family tree
+  depth: number; // Forks between it and the root; 1 for a direct fork
+}
+
 export interface BiomeData {
   id?: string;
   name: string;
@@ -61,4 +159,7 @@ export interface BiomeData {
   audioOverrideUrl?: string;
   props: PropDefinition[];
   weather: WeatherParams;
+  world?: WorldParams; // Missing means an infinite plane
+  galleryId?: string; // Gallery entry it was loaded from or saved to; saving again adds a revision there
+  lineage?: BiomeLineage; // Only on forks
 }
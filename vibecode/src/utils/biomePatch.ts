@@ -0,0 +1,254 @@
+import type { BiomeData } from '../types/biome';
+import { validateBiomeData, type SchemaIssue, type SchemaResult } from './biomeSchema';
+
+// Natural-language edits come back from the model as a patch: values to set by path, plus props
+// to remove and add. Applying one re-validates the whole biome, so a patch can't break it.
+
+export interface BiomePatchChange {
+    path: string; // e.g. "terrain.layers[0].heightScale"
+    value: unknown;
+}
+
+export interface BiomePatch {
+    summary: string;
+    set: BiomePatchChange[];
+    removeProps: string[]; // Prop names, case-insensitive
+    addProps: Record<string, unknown>[]; // Props in the generation schema; validated on apply
+}
+
+export interface BiomeDiffEntry {
+    path: string;
+    before?: unknown; // Missing for added values
+    after?: unknown; // Missing for removed values
+}
+
+/**
+ * The generated assets an edit makes stale, so applying it only redoes those.
+ */
+export interface BiomeAssetChanges {
+    groundTexture: boolean;
+    skybox: boolean;
+    zoneTextures: boolean; // Some zone got a texture prompt that has no texture yet
+    music: boolean;
+    newProps: string[]; // Names of props whose model has to be generated
+}
+
+// Top-level fields a patch may touch; ids, seeds and asset URLs are never editable
+const EDITABLE_ROOTS = ['name', 'description', 'parameters', 'terrain', 'atmosphere', 'musicPrompt', 'props', 'weather', 'world'];
+const EDITABLE_PARAMETERS = ['groundDescription', 'skyDescription'];
+const LOCKED_KEYS = /^(id|seed|url|textureUrl|skyboxUrl|audioOverrideUrl)$/;
+
+type PathKey = string | number;
+
+const parsePath = (path: string): PathKey[] | null => {
+    const keys: PathKey[] = [];
+    const pattern = /([^.[\]]+)|\[(\d+)\]/g;
+    let consumed = 0;
+    for (let match = pattern.exec(path); match; match = pattern.exec(path)) {
+        const between = path.slice(consumed, match.index);
+        if (between !== '' && between !== '.') return null;
+        keys.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+        consumed = match.index + match[0].length;
+    }
+    return keys.length > 0 && consumed === path.length ? keys : null;
+};
+
+// Why a path can't be set, or null if it can
+const lockedReason = (keys: PathKey[]): string | null => {
+    if (!EDITABLE_ROOTS.includes(String(keys[0]))) return `"${keys[0]}" can't be edited`;
+    if (keys[0] === 'parameters' && !EDITABLE_PARAMETERS.includes(String(keys[1]))) {
+        return `only ${EDITABLE_PARAMETERS.map(p => `parameters.${p}`).join(' and ')} can be edited`;
+    }
+    const locked = keys.find(key => typeof key === 'string' && LOCKED_KEYS.test(key));
+    return locked !== undefined ? `"${locked}" is managed by the app` : null;
+};
+
+type Container = Record<PathKey, unknown>;
+
+// Sets a value by path, creating objects and arrays on the way; fails on out-of-range indices
+const setPath = (root: Container, keys: PathKey[], value: unknown): string | null => {
+    let node: Container = root;
+    for (let i = 0; i < keys.length - 1; i++) {
+        const key = keys[i];
+        if (Array.isArray(node) && typeof key === 'number' && key > node.length) return `index ${key} is past the end`;
+        if (node[key] === undefined || node[key] === null) node[key] = typeof keys[i + 1] === 'number' ? [] : {};
+        if (typeof node[key] !== 'object') return `"${keys.slice(0, i + 1).join('.')}" is not an object`;
+        node = node[key] as Container;
+    }
+    const last = keys[keys.length - 1];
+    if (Array.isArray(node) && typeof last === 'number' && last > node.length) return `index ${last} is past the end`;
+    node[last] = value;
+    // A new prompt makes the generated asset next to it stale
+    if (last === 'prompt') delete node.url;
+    if (last === 'texturePrompt') delete node.textureUrl;
+    return null;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Takes the validated value only where the patch changed something. Anything the patch left
+ * alone keeps its original value, even one outside the schema's ranges (Leva allows more), so
+ * validation never edits what the user didn't ask to change. Paths kept are added to `kept`.
+ */
+const keepUntouched = (validated: unknown, original: unknown, patched: unknown, path: string, kept: string[]): unknown => {
+    if (sameValue(patched, original)) {
+        kept.push(path);
+        return structuredClone(original);
+    }
+    const isObject = (v: unknown): v is Container => v !== null && typeof v === 'object';
+    if (!isObject(validated) || !isObject(original) || !isObject(patched) || Array.isArray(validated) !== Array.isArray(original)) {
+        return validated;
+    }
+    const childPath = (key: string) => Array.isArray(validated) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+    if (Array.isArray(validated)) {
+        // Props are matched by id, since removing one shifts the rest
+        const byId = (items: unknown[]) => new Map(items.filter(isObject).filter(item => typeof item.id === 'string').map(item => [item.id, item]));
+        const originalItems = Array.isArray(original) ? original : [];
+        const patchedItems = Array.isArray(patched) ? patched : [];
+        const originals = byId(originalItems);
+        const patchedById = byId(patchedItems);
+        return validated.map((item, i) => {
+            const id = isObject(item) && typeof item.id === 'string' ? item.id : undefined;
+            if (id === undefined) return keepUntouched(item, originalItems[i], patchedItems[i], childPath(String(i)), kept);
+            // An id the biome didn't have is a newly added prop, validated as a whole
+            return originals.has(id) ? keepUntouched(item, originals.get(id), patchedById.get(id), childPath(String(i)), kept) : item;
+        });
+    }
+
+    const result: Container = {};
+    new Set([...Object.keys(validated), ...Object.keys(original)]).forEach(key => {
+        const value = keepUntouched(validated[key], original[key], patched[key], childPath(key), kept);
+        if (value !== undefined) result[key] = value;
+    });
+    return result;
+};
+
+const stripLocked = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(stripLocked);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([key]) => !LOCKED_KEYS.test(key))
+            .map(([key, v]) => [key, stripLocked(v)]));
+    }
+    return value;
+};
+
+/**
+ * The biome as the model sees it when editing: the generation schema, without ids, seeds or URLs.
+ */
+export function biomeToEditable(biome: BiomeData) {
+    return stripLocked({
+        name: biome.name,
+        description: biome.description,
+        parameters: { groundDescription: biome.parameters.groundDescription, skyDescription: biome.parameters.skyDescription },
+        terrain: biome.terrain,
+        atmosphere: biome.atmosphere,
+        musicPrompt: biome.musicPrompt,
+        props: biome.props,
+        weather: biome.weather,
+        world: biome.world ?? null
+    }) as Record<string, unknown>;
+}
+
+/**
+ * Applies a patch to a copy of `biome` and validates what it changed. Bad paths are reported as
+ * errors and skipped; ids, the terrain seed and still-valid assets carry over.
+ */
+export function applyBiomePatch(biome: BiomeData, patch: BiomePatch): SchemaResult<BiomeData> {
+    const issues: SchemaIssue[] = [];
+    const draft = structuredClone(biome) as unknown as Container;
+
+    patch.set.forEach(({ path, value }, i) => {
+        const keys = parsePath(path);
+        const reason = !keys ? `"${path}" is not a valid path` : lockedReason(keys) ?? setPath(draft, keys, structuredClone(value));
+        if (reason) issues.push({ path: `set[${i}]`, severity: 'error', message: `${path}: ${reason}` });
+    });
+
+    let props = (draft.props as unknown[]) ?? [];
+    patch.removeProps.forEach((name, i) => {
+        const remaining = props.filter(prop => String((prop as Container).name).toLowerCase() !== name.toLowerCase());
+        if (remaining.length === props.length) issues.push({ path: `removeProps[${i}]`, severity: 'error', message: `no prop named "${name}"` });
+        props = remaining;
+    });
+    draft.props = [...props, ...patch.addProps];
+
+    const parameters = (draft.parameters ?? {}) as Container;
+    const result = validateBiomeData(draft, {
+        id: biome.id ?? '',
+        description: typeof draft.description === 'string' && draft.description.trim() ? draft.description.trim() : biome.description,
+        parameters: {
+            ...biome.parameters,
+            groundDescription: typeof parameters.groundDescription === 'string' ? parameters.groundDescription : biome.parameters.groundDescription,
+            skyDescription: typeof parameters.skyDescription === 'string' ? parameters.skyDescription : biome.parameters.skyDescription
+        },
+        seed: biome.terrain.seed
+    });
+
+    const kept: string[] = [];
+    const next = keepUntouched(result.value, biome, draft, '', kept) as BiomeData;
+    // Issues under values the patch didn't touch were about values that are kept anyway
+    const isKept = (path: string) => kept.some(k => k === '' || path === k || path.startsWith(`${k}.`) || path.startsWith(`${k}[`));
+    const validationIssues = result.issues.filter(issue => !isKept(issue.path));
+
+    // Fields outside the editable view (id, galleryId, lineage) are never set, so they carry over
+    // above; the ground texture also survives a patch that replaces the whole terrain
+    if (biome.terrain.textureUrl) next.terrain.textureUrl = biome.terrain.textureUrl;
+    // Saved music only stays while the prompt it was made from does
+    if (next.musicPrompt !== biome.musicPrompt) delete next.audioOverrideUrl;
+    return { value: next, issues: [...issues, ...validationIssues] };
+}
+
+const diffValues = (before: unknown, after: unknown, path: string, out: BiomeDiffEntry[]) => {
+    const isObject = (v: unknown) => v !== null && typeof v === 'object';
+    if (isObject(before) && isObject(after) && Array.isArray(before) === Array.isArray(after)) {
+        const keys = new Set([...Object.keys(before as object), ...Object.keys(after as object)]);
+        keys.forEach(key => {
+            const childPath = Array.isArray(before) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+            diffValues((before as Container)[key], (after as Container)[key], childPath, out);
+        });
+        return;
+    }
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+    const entry: BiomeDiffEntry = { path };
+    if (before !== undefined) entry.before = before;
+    if (after !== undefined) entry.after = after;
+    out.push(entry);
+};
+
+/**
+ * Every value an edit changes, in the editable view. Props are matched by id, so removing one
+ * doesn't show up as changes to all the props after it.
+ */
+export function diffBiomes(before: BiomeData, after: BiomeData): BiomeDiffEntry[] {
+    const out: BiomeDiffEntry[] = [];
+    const editableBefore = biomeToEditable(before);
+    const editableAfter = biomeToEditable(after);
+    delete editableBefore.props;
+    delete editableAfter.props;
+    diffValues(editableBefore, editableAfter, '', out);
+
+    const afterById = new Map(after.props.map(prop => [prop.id, prop]));
+    before.props.forEach(prop => {
+        const match = afterById.get(prop.id);
+        if (!match) out.push({ path: `props.${prop.name}`, before: prop.prompt });
+        else diffValues(stripLocked(prop), stripLocked(match), `props.${prop.name}`, out);
+    });
+    const beforeIds = new Set(before.props.map(prop => prop.id));
+    after.props.filter(prop => !beforeIds.has(prop.id)).forEach(prop => out.push({ path: `props.${prop.name}`, after: prop.prompt }));
+    return out;
+}
+
+export function assetChanges(before: BiomeData, after: BiomeData): BiomeAssetChanges {
+    const knownPrompts = new Set(before.props.map(prop => prop.prompt));
+    // Zones that were already untextured before the edit (e.g. their texture failed) stay that way
+    const untextured = new Set((before.terrain.materials ?? []).filter(zone => !zone.textureUrl).map(zone => zone.texturePrompt));
+    return {
+        groundTexture: before.parameters.groundDescription !== after.parameters.groundDescription,
+        skybox: before.parameters.skyDescription !== after.parameters.skyDescription,
+        zoneTextures: (after.terrain.materials ?? []).some(zone => zone.texturePrompt && !zone.textureUrl && !untextured.has(zone.texturePrompt)),
+        music: before.musicPrompt !== after.musicPrompt,
+        newProps: after.props.filter(prop => !prop.url && !knownPrompts.has(prop.prompt)).map(prop => prop.name)
+    };
+}
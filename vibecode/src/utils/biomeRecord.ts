@@ -0,0 +1,170 @@
+import type { BiomeData } from '../types/biome';
+import { sanitizePlacementRules } from './propPlacement';
+
+// The stored form of a biome: plain JSON with a schema version, shared by gallery documents,
+// their revisions and exported packages. Records from older versions are migrated on read.
+
+export const BIOME_SCHEMA_VERSION = 1;
+
+export interface BiomeRecord {
+    schemaVersion: number;
+    [field: string]: unknown;
+}
+
+type RecordData = Record<string, unknown>;
+
+const parseJson = (value: unknown, field: string, fallback: unknown) => {
+    if (typeof value !== 'string') return value;
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        console.error(`Error parsing ${field}:`, e);
+        return fallback;
+    }
+};
+
+// Each step turns a record of version i into version i + 1
+const MIGRATIONS: ((record: RecordData) => RecordData)[] = [
+    // 0: gallery documents from before versioning, whose terrain layers may be a JSON string
+    record => {
+        const terrain = record.terrain as RecordData | undefined;
+        return terrain ? { ...record, terrain: { ...terrain, layers: parseJson(terrain.layers, 'terrain layers', []) } } : record;
+    }
+];
+
+/**
+ * The record of a biome, sanitized down to the schema's fields and plain JSON values. Asset URLs
+ * are kept as they are; where they point is up to the caller.
+ */
+export function toBiomeRecord(biome: BiomeData): BiomeRecord {
+    const layers = (biome.terrain.layers || []).map(l => ({
+        name: String(l.name || "Layer"),
+        noiseScale: Number(l.noiseScale) || 0.01,
+        heightScale: Number(l.heightScale) || 1,
+        roughness: Number(l.roughness) || 0.5,
+        offsetX: Number(l.offsetX) || 0,
+        offsetZ: Number(l.offsetZ) || 0,
+        // Newer fields are optional; layers saved without them load as the original fbm
+        type: l.type ? String(l.type) : undefined,
+        octaves: l.octaves !== undefined ? Number(l.octaves) : undefined,
+        lacunarity: l.lacunarity !== undefined ? Number(l.lacunarity) : undefined,
+        gain: l.gain !== undefined ? Number(l.gain) : undefined,
+        blend: l.blend ? String(l.blend) : undefined,
+        terraceSteps: l.terraceSteps !== undefined ? Number(l.terraceSteps) : undefined,
+        warpStrength: l.warpStrength !== undefined ? Number(l.warpStrength) : undefined,
+        mask: l.mask ? {
+            layer: Number(l.mask.layer),
+            threshold: Number(l.mask.threshold) || 0,
+            softness: Number(l.mask.softness) || 0.1,
+            invert: Boolean(l.mask.invert)
+        } : undefined
+    }));
+
+    const materials = (biome.terrain.materials || []).map((z, index) => ({
+        name: String(z.name || `Zone ${index + 1}`),
+        minHeight: Number(z.minHeight) || 0,
+        maxHeight: Number(z.maxHeight) || 0,
+        minSlope: Number(z.minSlope) || 0,
+        maxSlope: Number(z.maxSlope) || 90,
+        blend: Number(z.blend) || 1,
+        color: String(z.color || "#808080"),
+        textureUrl: z.textureUrl ? String(z.textureUrl) : null,
+        texturePrompt: z.texturePrompt ? String(z.texturePrompt) : null
+    }));
+
+    const terrain = {
+        baseColor: String(biome.terrain.baseColor || "#000000"),
+        highColor: String(biome.terrain.highColor || "#ffffff"),
+        waterLevel: Number(biome.terrain.waterLevel) || 0,
+        liquid: biome.terrain.liquid ? {
+            type: String(biome.terrain.liquid.type || 'water'),
+            color: String(biome.terrain.liquid.color || '#1e5f74')
+        } : null,
+        // Stored with the seed so the same eroded landscape comes back on load
+        erosion: biome.terrain.erosion ? {
+            iterations: Math.round(Number(biome.terrain.erosion.iterations) || 0),
+            rainAmount: Number(biome.terrain.erosion.rainAmount) || 1,
+            sedimentCapacity: Number(biome.terrain.erosion.sedimentCapacity) || 4,
+            talusAngle: Number(biome.terrain.erosion.talusAngle) || 0
+        } : null,
+        carvers: biome.terrain.carvers?.length ? biome.terrain.carvers.map(c => ({
+            type: String(c.type || 'cavern'),
+            noiseScale: Number(c.noiseScale) || 0.01,
+            threshold: Number(c.threshold) || 0,
+            strength: Number(c.strength) || 0,
+            minHeight: Number(c.minHeight) || 0,
+            maxHeight: Number(c.maxHeight) || 0
+        })) : null,
+        layers,
+        materials,
+        seed: Number(biome.terrain.seed) || 0,
+        textureUrl: biome.terrain.textureUrl ? String(biome.terrain.textureUrl) : null
+    };
+
+    const record = {
+        schemaVersion: BIOME_SCHEMA_VERSION,
+        id: biome.id,
+        name: String(biome.name || "Unnamed Biome"),
+        description: String(biome.description || ""),
+        musicPrompt: biome.musicPrompt ? String(biome.musicPrompt) : null,
+        parameters: {
+            temperature: Number(biome.parameters.temperature) || 0,
+            gravity: Number(biome.parameters.gravity) || 1,
+            atmosphereDensity: String(biome.parameters.atmosphereDensity || "Standard"),
+            description: String(biome.parameters.description || ""),
+            groundDescription: String(biome.parameters.groundDescription || ""),
+            skyDescription: String(biome.parameters.skyDescription || "")
+        },
+        terrain,
+        props: (biome.props || []).map(p => ({
+            id: String(p.id),
+            name: String(p.name),
+            prompt: String(p.prompt),
+            density: Number(p.density) || 0,
+            baseScale: Number(p.baseScale) || 1,
+            collidable: typeof p.collidable === "boolean" ? p.collidable : null,
+            rigidity: p.rigidity !== undefined && p.rigidity !== null ? Number(p.rigidity) : null,
+            placement: sanitizePlacementRules(p.placement) ?? null,
+            url: p.url ? String(p.url) : null
+        })),
+        atmosphere: {
+            skyColor: String(biome.atmosphere.skyColor || "#000000"),
+            fogColor: String(biome.atmosphere.fogColor || "#000000"),
+            fogDensity: Number(biome.atmosphere.fogDensity) || 0.01,
+            sunIntensity: Number(biome.atmosphere.sunIntensity) || 1.0,
+            skyboxUrl: biome.atmosphere.skyboxUrl ? String(biome.atmosphere.skyboxUrl) : null
+        },
+        weather: {
+            type: String(biome.weather.type || 'none'),
+            intensity: Number(biome.weather.intensity) || 0,
+            color: String(biome.weather.color || '#ffffff'),
+            speed: Number(biome.weather.speed) || 1
+        },
+        world: biome.world ? { shape: String(biome.world.shape), radius: Number(biome.world.radius) || 300 } : null,
+        lineage: biome.lineage ? {
+            parentId: String(biome.lineage.parentId),
+            rootId: String(biome.lineage.rootId),
+            depth: Number(biome.lineage.depth) || 1
+        } : null
+    };
+
+    // JSON stringify/parse drops undefined fields and any custom prototypes
+    return JSON.parse(JSON.stringify(record)) as BiomeRecord;
+}
+
+/**
+ * The biome in a record of this or any earlier schema version. Records without a version are
+ * treated as version 0. Throws on records from a newer version of the app.
+ */
+export function fromBiomeRecord(data: RecordData): BiomeData {
+    const version = data.schemaVersion === undefined ? 0 : Number(data.schemaVersion);
+    if (!Number.isInteger(version) || version < 0) throw new Error(`Unknown biome schema version "${data.schemaVersion}"`);
+    if (version > BIOME_SCHEMA_VERSION) {
+        throw new Error(`Biome schema version ${version} is newer than this app supports (${BIOME_SCHEMA_VERSION})`);
+    }
+
+    const record = MIGRATIONS.slice(version).reduce((current, migrate) => migrate(current), data);
+    const biome = { ...record };
+    delete biome.schemaVersion;
+    return biome as unknown as BiomeData;
+}
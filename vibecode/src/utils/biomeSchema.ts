@@ -0,0 +1,469 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    AtmosphereParams, BiomeData, BiomeParameters, DetailedDescription, ErosionParams, LayerMask, LiquidParams,
+    MaterialZone, PropDefinition, PropPlacementRules, TerrainCarver, TerrainLayer, WeatherParams, WorldParams
+} from '../types/biome';
+import { LIQUID_TYPES } from './liquid';
+import { LAYER_BLEND_MODES, NOISE_LAYER_TYPES } from './noiseLayers';
+import type { BiomePatch } from './biomePatch';
+import { sanitizePlacementRules } from './propPlacement';
+
+// Runtime schema for model-generated biomes. Ranges follow the generation prompt; anything the
+// renderer can't take is clamped, replaced by a default or dropped, and every change is recorded.
+
+/**
+ * One change made while validating. 'error' means the reply broke the schema (wrong type, missing
+ * field, unknown value) and is worth a repair round trip; 'clamped' means a value was pulled back
+ * into range or adjusted for traversability.
+ */
+export interface SchemaIssue {
+    path: string;
+    severity: 'error' | 'clamped';
+    message: string;
+}
+
+export interface SchemaResult<T> {
+    value: T;
+    issues: SchemaIssue[];
+}
+
+export const schemaErrors = (issues: SchemaIssue[]) => issues.filter(issue => issue.severity === 'error');
+
+export const formatSchemaIssue = (issue: SchemaIssue) => `${issue.path}: ${issue.message}`;
+
+// Traversability (prompt rule 1): high-frequency noise may not also be tall, or it makes spikes
+const SPIKY_NOISE_SCALE = 0.02;
+const MAX_SPIKY_HEIGHT = 10;
+const MAX_MATERIAL_ZONES = 4;
+const MAX_PROPS = 8;
+
+const DEFAULT_COLOR = '#808080';
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+type RawObject = Record<string, unknown>;
+
+interface NumberRule {
+    min: number;
+    max: number;
+    fallback: number;
+    integer?: boolean;
+}
+
+/**
+ * Reads untrusted values, recording what it had to fix along the way.
+ */
+class SchemaReader {
+    issues: SchemaIssue[] = [];
+
+    error(path: string, message: string) {
+        this.issues.push({ path, severity: 'error', message });
+    }
+
+    clamped(path: string, message: string) {
+        this.issues.push({ path, severity: 'clamped', message });
+    }
+
+    object(raw: unknown, path: string, required = true): RawObject | undefined {
+        if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as RawObject;
+        if (required || (raw !== undefined && raw !== null)) this.error(path, `expected an object, got ${describe(raw)}`);
+        return undefined;
+    }
+
+    array(raw: unknown, path: string, required = true): unknown[] | undefined {
+        if (Array.isArray(raw)) return raw;
+        if (required || (raw !== undefined && raw !== null)) this.error(path, `expected an array, got ${describe(raw)}`);
+        return undefined;
+    }
+
+    number(raw: unknown, path: string, rule: NumberRule, required = true): number {
+        const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            if (required || (raw !== undefined && raw !== null)) {
+                this.error(path, `expected a number, got ${describe(raw)}; using ${rule.fallback}`);
+            }
+            return rule.fallback;
+        }
+        let result = rule.integer ? Math.round(value) : value;
+        if (result < rule.min || result > rule.max) {
+            const clamped = Math.min(rule.max, Math.max(rule.min, result));
+            this.clamped(path, `${result} is outside ${rule.min} to ${rule.max}; clamped to ${clamped}`);
+            result = clamped;
+        }
+        return result;
+    }
+
+    optionalNumber(raw: unknown, path: string, rule: Omit<NumberRule, 'fallback'>): number | undefined {
+        if (raw === undefined || raw === null) return undefined;
+        const result = this.number(raw, path, { ...rule, fallback: NaN });
+        return Number.isNaN(result) ? undefined : result;
+    }
+
+    string(raw: unknown, path: string, fallback: string, required = true): string {
+        if (typeof raw === 'string' && raw.trim() !== '') return raw.trim();
+        if (required || (raw !== undefined && raw !== null)) this.error(path, `expected a non-empty string, got ${describe(raw)}`);
+        return fallback;
+    }
+
+    color(raw: unknown, path: string, fallback: string): string {
+        if (typeof raw === 'string' && HEX_COLOR.test(raw.trim())) {
+            const hex = raw.trim().replace('#', '');
+            const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+            return `#${full.toLowerCase()}`;
+        }
+        this.error(path, `expected a hex colour like "#a0b1c2", got ${describe(raw)}; using ${fallback}`);
+        return fallback;
+    }
+
+    oneOf<T extends string>(raw: unknown, path: string, options: readonly T[], fallback: T, required = true): T {
+        if (typeof raw === 'string' && (options as readonly string[]).includes(raw)) return raw as T;
+        if (required || (raw !== undefined && raw !== null)) {
+            this.error(path, `expected one of ${options.map(o => `"${o}"`).join(', ')}, got ${describe(raw)}; using "${fallback}"`);
+        }
+        return fallback;
+    }
+
+    boolean(raw: unknown, path: string): boolean | undefined {
+        if (typeof raw === 'boolean') return raw;
+        if (raw !== undefined && raw !== null) this.error(path, `expected true or false, got ${describe(raw)}`);
+        return undefined;
+    }
+}
+
+const describe = (raw: unknown) => {
+    if (raw === undefined) return 'nothing';
+    if (raw === null) return 'null';
+    if (Array.isArray(raw)) return 'an array';
+    if (typeof raw === 'object') return 'an object';
+    return JSON.stringify(raw).slice(0, 40);
+};
+
+// --- DetailedDescription ---
+
+export function validateDetailedDescription(raw: unknown): SchemaResult<DetailedDescription> {
+    const reader = new SchemaReader();
+    const source = reader.object(raw, '$') ?? {};
+    const summary = reader.string(source.summary, 'summary', 'An uncharted alien world.');
+    const props = (reader.array(source.props, 'props') ?? [])
+        .filter((prop, i) => {
+            if (typeof prop === 'string' && prop.trim() !== '') return true;
+            reader.error(`props[${i}]`, `expected a prop description, got ${describe(prop)}; dropped`);
+            return false;
+        })
+        .map(prop => (prop as string).trim());
+    if (props.length === 0) reader.error('props', 'needs at least one prop description');
+
+    return {
+        value: {
+            summary,
+            ground: reader.string(source.ground, 'ground', summary),
+            sky: reader.string(source.sky, 'sky', summary),
+            props
+        },
+        issues: reader.issues
+    };
+}
+
+// --- BiomeData ---
+
+const readLayer = (reader: SchemaReader, raw: unknown, path: string, index: number, isBase: boolean): TerrainLayer | undefined => {
+    const source = reader.object(raw, path);
+    if (!source) return undefined;
+
+    const layer: TerrainLayer = {
+        name: reader.string(source.name, `${path}.name`, isBase ? 'Base Layer' : `Layer ${index + 1}`),
+        type: reader.oneOf(source.type, `${path}.type`, NOISE_LAYER_TYPES, 'fbm', false),
+        blend: reader.oneOf(source.blend, `${path}.blend`, LAYER_BLEND_MODES, 'add', false),
+        noiseScale: reader.number(source.noiseScale, `${path}.noiseScale`, { min: 0.001, max: 0.05, fallback: isBase ? 0.005 : 0.03 }),
+        heightScale: reader.number(source.heightScale, `${path}.heightScale`, { min: 0, max: 40, fallback: isBase ? 15 : 2 }),
+        octaves: reader.number(source.octaves, `${path}.octaves`, { min: 1, max: 6, fallback: 2, integer: true }, false),
+        lacunarity: reader.number(source.lacunarity, `${path}.lacunarity`, { min: 1.8, max: 2.5, fallback: 2 }, false),
+        gain: reader.optionalNumber(source.gain, `${path}.gain`, { min: 0, max: 0.6 }),
+        roughness: reader.number(source.roughness, `${path}.roughness`, { min: 0, max: 1, fallback: 0 }, false),
+        offsetX: reader.number(source.offsetX, `${path}.offsetX`, { min: -1e6, max: 1e6, fallback: 0 }, false),
+        offsetZ: reader.number(source.offsetZ, `${path}.offsetZ`, { min: -1e6, max: 1e6, fallback: 0 }, false)
+    };
+    if (layer.gain === undefined) delete layer.gain;
+
+    if (layer.type === 'terraced') {
+        layer.terraceSteps = reader.number(source.terraceSteps, `${path}.terraceSteps`, { min: 3, max: 12, fallback: 6, integer: true }, false);
+    }
+    if (layer.type === 'domain-warp') {
+        layer.warpStrength = reader.number(source.warpStrength, `${path}.warpStrength`, { min: 0.5, max: 2, fallback: 1 }, false);
+    }
+
+    const mask = readMask(reader, source.mask, `${path}.mask`, index);
+    if (mask) layer.mask = mask;
+
+    if (layer.noiseScale > SPIKY_NOISE_SCALE && layer.heightScale > MAX_SPIKY_HEIGHT && layer.blend !== 'multiply') {
+        reader.clamped(`${path}.heightScale`, `noiseScale ${layer.noiseScale} with heightScale ${layer.heightScale} makes untraversable spikes; heightScale lowered to ${MAX_SPIKY_HEIGHT}`);
+        layer.heightScale = MAX_SPIKY_HEIGHT;
+    }
+    return layer;
+};
+
+const readMask = (reader: SchemaReader, raw: unknown, path: string, index: number): LayerMask | undefined => {
+    const source = reader.object(raw, path, false);
+    if (!source) return undefined;
+    const layer = reader.number(source.layer, `${path}.layer`, { min: -1, max: 1000, fallback: -1, integer: true });
+    // Masks can only read layers that are already computed
+    if (layer < 0 || layer >= index) {
+        reader.error(`${path}.layer`, `must be the index of an earlier layer (0 to ${index - 1}); mask dropped`);
+        return undefined;
+    }
+    const mask: LayerMask = {
+        layer,
+        threshold: reader.number(source.threshold, `${path}.threshold`, { min: -1, max: 1, fallback: 0 }),
+        softness: reader.number(source.softness, `${path}.softness`, { min: 0.05, max: 0.5, fallback: 0.2 })
+    };
+    const invert = reader.boolean(source.invert, `${path}.invert`);
+    if (invert) mask.invert = true;
+    return mask;
+};
+
+// Orders a min/max pair, recording the swap
+const ordered = (reader: SchemaReader, path: string, min: number, max: number): [number, number] => {
+    if (min <= max) return [min, max];
+    reader.clamped(path, `min ${min} is above max ${max}; swapped`);
+    return [max, min];
+};
+
+const readErosion = (reader: SchemaReader, raw: unknown, path: string): ErosionParams | undefined => {
+    const source = reader.object(raw, path, false);
+    if (!source) return undefined;
+    return {
+        iterations: reader.number(source.iterations, `${path}.iterations`, { min: 0, max: 20000, fallback: 6000, integer: true }),
+        rainAmount: reader.number(source.rainAmount, `${path}.rainAmount`, { min: 0.2, max: 2, fallback: 1 }),
+        sedimentCapacity: reader.number(source.sedimentCapacity, `${path}.sedimentCapacity`, { min: 1, max: 8, fallback: 4 }),
+        talusAngle: reader.number(source.talusAngle, `${path}.talusAngle`, { min: 25, max: 50, fallback: 35 })
+    };
+};
+
+const readCarver = (reader: SchemaReader, raw: unknown, path: string): TerrainCarver | undefined => {
+    const source = reader.object(raw, path);
+    if (!source) return undefined;
+    const type = reader.oneOf(source.type, `${path}.type`, ['cavern', 'tunnel'] as const, 'cavern');
+    const [minHeight, maxHeight] = ordered(reader, `${path}.minHeight`,
+        reader.number(source.minHeight, `${path}.minHeight`, { min: -1000, max: 1000, fallback: -30 }),
+        reader.number(source.maxHeight, `${path}.maxHeight`, { min: -1000, max: 1000, fallback: 10 }));
+    return {
+        type,
+        noiseScale: reader.number(source.noiseScale, `${path}.noiseScale`, { min: 0.005, max: 0.02, fallback: 0.01 }),
+        threshold: type === 'cavern'
+            ? reader.number(source.threshold, `${path}.threshold`, { min: 0.3, max: 0.7, fallback: 0.5 })
+            : reader.number(source.threshold, `${path}.threshold`, { min: 0.15, max: 0.35, fallback: 0.25 }),
+        strength: reader.number(source.strength, `${path}.strength`, { min: 5, max: 30, fallback: 15 }),
+        minHeight,
+        maxHeight
+    };
+};
+
+const readMaterial = (reader: SchemaReader, raw: unknown, path: string, index: number, fallbackColor: string): MaterialZone | undefined => {
+    const source = reader.object(raw, path);
+    if (!source) return undefined;
+    const [minHeight, maxHeight] = ordered(reader, `${path}.minHeight`,
+        reader.number(source.minHeight, `${path}.minHeight`, { min: -1000, max: 1000, fallback: -1000 }),
+        reader.number(source.maxHeight, `${path}.maxHeight`, { min: -1000, max: 1000, fallback: 1000 }));
+    const [minSlope, maxSlope] = ordered(reader, `${path}.minSlope`,
+        reader.number(source.minSlope, `${path}.minSlope`, { min: 0, max: 90, fallback: 0 }),
+        reader.number(source.maxSlope, `${path}.maxSlope`, { min: 0, max: 90, fallback: 90 }));
+    const zone: MaterialZone = {
+        name: reader.string(source.name, `${path}.name`, `Zone ${index + 1}`),
+        minHeight,
+        maxHeight,
+        minSlope,
+        maxSlope,
+        blend: reader.number(source.blend, `${path}.blend`, { min: 0.5, max: 5, fallback: 2 }),
+        color: reader.color(source.color, `${path}.color`, fallbackColor)
+    };
+    const texturePrompt = reader.string(source.texturePrompt, `${path}.texturePrompt`, '', false);
+    if (texturePrompt) zone.texturePrompt = texturePrompt;
+    // Only kept when re-validating a biome whose texture was already generated
+    if (typeof source.textureUrl === 'string' && source.textureUrl) zone.textureUrl = source.textureUrl;
+    return zone;
+};
+
+const readPlacement = (reader: SchemaReader, raw: unknown, path: string): PropPlacementRules | undefined => {
+    if (raw !== undefined && raw !== null && !reader.object(raw, path, false)) return undefined;
+    const rules = sanitizePlacementRules(raw);
+    if (!rules) return undefined;
+    const clamp = (key: keyof PropPlacementRules, min: number, max: number, integer = false) => {
+        if (rules[key] === undefined) return;
+        rules[key] = reader.number(rules[key], `${path}.${key}`, { min, max, fallback: min, integer });
+    };
+    clamp('minHeight', -1000, 1000);
+    clamp('maxHeight', -1000, 1000);
+    clamp('maxSlope', 0, 90);
+    clamp('waterDistance', 0, 60);
+    clamp('waterFalloff', 0, 60);
+    clamp('clusterSize', 1, 12, true);
+    clamp('clusterRadius', 2, 20);
+    clamp('spacing', 0, 10);
+    if (rules.minHeight !== undefined && rules.maxHeight !== undefined) {
+        [rules.minHeight, rules.maxHeight] = ordered(reader, `${path}.minHeight`, rules.minHeight, rules.maxHeight);
+    }
+    return rules;
+};
+
+const readProp = (reader: SchemaReader, raw: unknown, path: string): PropDefinition | undefined => {
+    const source = reader.object(raw, path);
+    if (!source) return undefined;
+    const name = reader.string(source.name, `${path}.name`, 'Alien Object');
+    const prop: PropDefinition = {
+        id: typeof source.id === 'string' && source.id ? source.id : uuidv4(),
+        name,
+        prompt: reader.string(source.prompt, `${path}.prompt`, name),
+        density: reader.number(source.density, `${path}.density`, { min: 0.01, max: 0.5, fallback: 0.1 }),
+        baseScale: reader.number(source.baseScale, `${path}.baseScale`, { min: 1, max: 10, fallback: 5 })
+    };
+    const rigidity = reader.optionalNumber(source.rigidity, `${path}.rigidity`, { min: 0, max: 1 });
+    if (rigidity !== undefined) prop.rigidity = rigidity;
+    const collidable = reader.boolean(source.collidable, `${path}.collidable`);
+    if (collidable !== undefined) prop.collidable = collidable;
+    const placement = readPlacement(reader, source.placement, `${path}.placement`);
+    if (placement) prop.placement = placement;
+    if (typeof source.url === 'string' && source.url) prop.url = source.url;
+    return prop;
+};
+
+const readWorld = (reader: SchemaReader, raw: unknown, path: string): WorldParams | undefined => {
+    const source = reader.object(raw, path, false);
+    if (!source) return undefined;
+    const shape = reader.oneOf(source.shape, `${path}.shape`, ['plane', 'sphere'] as const, 'plane');
+    if (shape === 'plane') return undefined;
+    return { shape, radius: reader.number(source.radius, `${path}.radius`, { min: 150, max: 600, fallback: 300 }) };
+};
+
+// Keeps the readable entries of an array, capped at `limit`
+const readList = <T>(reader: SchemaReader, items: unknown[], path: string, limit: number, read: (raw: unknown, path: string, index: number) => T | undefined): T[] => {
+    if (items.length > limit) reader.clamped(path, `${items.length} entries; only the first ${limit} kept`);
+    return items.slice(0, limit)
+        .map((item, i) => read(item, `${path}[${i}]`, i))
+        .filter((item): item is T => item !== undefined);
+};
+
+/**
+ * Everything a biome needs that doesn't come from the model.
+ */
+export interface BiomeDataBase {
+    id: string;
+    description: string;
+    parameters: BiomeParameters;
+    seed: number;
+}
+
+/**
+ * Validates a model's biome reply (the JSON the biome-data prompt asks for) and builds BiomeData
+ * from it. Never throws: whatever can't be read falls back to a default and is reported.
+ */
+export function validateBiomeData(raw: unknown, base: BiomeDataBase): SchemaResult<BiomeData> {
+    const reader = new SchemaReader();
+    const source = reader.object(raw, '$') ?? {};
+    const terrain = reader.object(source.terrain, 'terrain') ?? {};
+    const atmosphere = reader.object(source.atmosphere, 'atmosphere') ?? {};
+    const weather = reader.object(source.weather, 'weather', false) ?? {};
+
+    const baseColor = reader.color(terrain.baseColor, 'terrain.baseColor', DEFAULT_COLOR);
+    const rawLayers = reader.array(terrain.layers, 'terrain.layers') ?? [];
+    let layers = readList(reader, rawLayers, 'terrain.layers', 6, (item, path, i) => readLayer(reader, item, path, i, i === 0));
+    if (layers.length === 0) {
+        reader.error('terrain.layers', 'needs at least one layer; using gentle default hills');
+        layers = [{ name: 'Base Layer', type: 'fbm', blend: 'add', noiseScale: 0.005, heightScale: 15, octaves: 4, lacunarity: 2, gain: 0.5, roughness: 0, offsetX: 0, offsetZ: 0 }];
+    }
+
+    let liquid: LiquidParams | undefined;
+    const rawLiquid = reader.object(terrain.liquid, 'terrain.liquid', false);
+    if (rawLiquid) {
+        liquid = {
+            type: reader.oneOf(rawLiquid.type, 'terrain.liquid.type', LIQUID_TYPES, 'water'),
+            color: reader.color(rawLiquid.color, 'terrain.liquid.color', '#1e5f74')
+        };
+    }
+
+    const erosion = readErosion(reader, terrain.erosion, 'terrain.erosion');
+    const rawCarvers = reader.array(terrain.carvers, 'terrain.carvers', false);
+    const carvers = rawCarvers && readList(reader, rawCarvers, 'terrain.carvers', 4, (item, path) => readCarver(reader, item, path));
+    const rawMaterials = reader.array(terrain.materials, 'terrain.materials', false);
+    const materials = rawMaterials && readList(reader, rawMaterials, 'terrain.materials', MAX_MATERIAL_ZONES, (item, path, i) => readMaterial(reader, item, path, i, baseColor));
+
+    const atmosphereParams: AtmosphereParams = {
+        skyColor: reader.color(atmosphere.skyColor, 'atmosphere.skyColor', '#87ceeb'),
+        fogColor: reader.color(atmosphere.fogColor, 'atmosphere.fogColor', '#87ceeb'),
+        fogDensity: reader.number(atmosphere.fogDensity, 'atmosphere.fogDensity', { min: 0.001, max: 0.05, fallback: 0.01 }),
+        sunIntensity: reader.number(atmosphere.sunIntensity, 'atmosphere.sunIntensity', { min: 0.1, max: 2, fallback: 1 })
+    };
+    if (typeof atmosphere.skyboxUrl === 'string' && atmosphere.skyboxUrl) atmosphereParams.skyboxUrl = atmosphere.skyboxUrl;
+
+    const weatherType = reader.oneOf(weather.type, 'weather.type', ['none', 'rain', 'snow', 'sandstorm', 'spores'] as const, 'none', false);
+    const weatherParams: WeatherParams = {
+        type: weatherType,
+        intensity: reader.number(weather.intensity, 'weather.intensity', { min: 0, max: 3, fallback: weatherType === 'none' ? 0 : 1 }, weatherType !== 'none'),
+        color: weatherType === 'none' && weather.color === undefined ? '#ffffff' : reader.color(weather.color, 'weather.color', '#ffffff'),
+        speed: reader.number(weather.speed, 'weather.speed', { min: 0.5, max: 5, fallback: 1 }, weatherType !== 'none')
+    };
+
+    const rawProps = reader.array(source.props, 'props') ?? [];
+    const props = readList(reader, rawProps, 'props', MAX_PROPS, (item, path) => readProp(reader, item, path));
+
+    const biome: BiomeData = {
+        id: base.id,
+        name: reader.string(source.name, 'name', 'Unnamed World'),
+        description: base.description,
+        parameters: base.parameters,
+        terrain: {
+            baseColor,
+            highColor: reader.color(terrain.highColor, 'terrain.highColor', baseColor),
+            waterLevel: reader.number(terrain.waterLevel, 'terrain.waterLevel', { min: -10, max: 10, fallback: 0 }),
+            layers,
+            seed: base.seed
+        },
+        atmosphere: atmosphereParams,
+        props,
+        weather: weatherParams
+    };
+    if (liquid) biome.terrain.liquid = liquid;
+    if (erosion) biome.terrain.erosion = erosion;
+    if (carvers?.length) biome.terrain.carvers = carvers;
+    if (materials?.length) biome.terrain.materials = materials;
+    if (typeof source.musicPrompt === 'string' && source.musicPrompt.trim()) biome.musicPrompt = source.musicPrompt.trim();
+    const world = readWorld(reader, source.world, 'world');
+    if (world) biome.world = world;
+
+    return { value: biome, issues: reader.issues };
+}
+
+// --- Edit patches ---
+
+/**
+ * Validates the shape of an edit patch. Whether its paths and values fit the biome is checked
+ * when it's applied (applyBiomePatch).
+ */
+export function validateBiomePatch(raw: unknown): SchemaResult<BiomePatch> {
+    const reader = new SchemaReader();
+    const source = reader.object(raw, '$') ?? {};
+    const set = (reader.array(source.set, 'set', false) ?? []).flatMap((change, i) => {
+        const entry = reader.object(change, `set[${i}]`);
+        if (!entry) return [];
+        const path = reader.string(entry.path, `set[${i}].path`, '');
+        if (!path) return [];
+        if (!('value' in entry)) {
+            reader.error(`set[${i}].value`, 'missing; use null to clear a value');
+            return [];
+        }
+        return [{ path, value: entry.value }];
+    });
+    const removeProps = (reader.array(source.removeProps, 'removeProps', false) ?? []).flatMap((name, i) => {
+        const value = reader.string(name, `removeProps[${i}]`, '');
+        return value ? [value] : [];
+    });
+    const addProps = (reader.array(source.addProps, 'addProps', false) ?? []).flatMap((prop, i) => {
+        const value = reader.object(prop, `addProps[${i}]`);
+        return value ? [value] : [];
+    });
+    if (set.length === 0 && removeProps.length === 0 && addProps.length === 0) {
+        reader.error('$', 'the patch changes nothing');
+    }
+    return {
+        value: { summary: reader.string(source.summary, 'summary', 'Edit'), set, removeProps, addProps },
+        issues: reader.issues
+    };
+}
@@ -0,0 +1,74 @@
+import { createNoise3D, type NoiseFunction3D } from 'simplex-noise';
+import type { TerrainCarver } from '../types/biome';
+import { createRandom } from './heightfield';
+
+// Carvers fade in and out over this much of their height band, at most
+const MAX_BAND_FADE = 6;
+// Second octave weight; enough to roughen cave walls without adding floating specks
+const DETAIL_GAIN = 0.35;
+// Keeps each carver's noise uncorrelated with the others
+const CARVER_OFFSET = 137.1;
+// Tunnels are stretched horizontally so they wind instead of plunging
+const TUNNEL_VERTICAL_SCALE = 1.8;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+    const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+};
+
+/**
+ * The 3D part of volumetric terrain: how much rock the carvers remove at a point.
+ * Heightfield folds it into a density, solid where (height - y - carve) is positive.
+ */
+export class CaveField {
+    readonly carvers: TerrainCarver[];
+    // World Y range any carver can reach, and the most rock any point can lose
+    readonly minY: number;
+    readonly maxY: number;
+    readonly maxCarve: number;
+    private noise3D: NoiseFunction3D;
+
+    constructor(carvers: TerrainCarver[], seed: number) {
+        this.carvers = carvers;
+        // Offset from the height noise seed so caves don't line up with hills
+        this.noise3D = createNoise3D(createRandom(seed + 7919));
+        this.minY = Math.min(...carvers.map(c => c.minHeight));
+        this.maxY = Math.max(...carvers.map(c => c.maxHeight));
+        this.maxCarve = carvers.reduce((sum, c) => sum + Math.max(0, c.strength), 0);
+    }
+
+    /**
+     * Depth of rock removed at a world point (0 where no carver reaches).
+     */
+    getCarve(x: number, y: number, z: number): number {
+        if (y < this.minY || y > this.maxY) return 0;
+
+        let carve = 0;
+        for (let i = 0; i < this.carvers.length; i++) {
+            const carver = this.carvers[i];
+            if (y < carver.minHeight || y > carver.maxHeight || carver.strength <= 0) continue;
+
+            const fade = Math.min(MAX_BAND_FADE, (carver.maxHeight - carver.minHeight) / 4);
+            const band = smoothstep(carver.minHeight, carver.minHeight + fade, y)
+                * (1 - smoothstep(carver.maxHeight - fade, carver.maxHeight, y));
+            if (band <= 0) continue;
+
+            const offset = i * CARVER_OFFSET;
+            const verticalScale = carver.type === 'tunnel' ? TUNNEL_VERTICAL_SCALE : 1;
+            const nx = x * carver.noiseScale + offset;
+            const ny = y * carver.noiseScale * verticalScale;
+            const nz = z * carver.noiseScale - offset;
+            const n = (this.noise3D(nx, ny, nz) + this.noise3D(nx * 2, ny * 2, nz * 2) * DETAIL_GAIN) / (1 + DETAIL_GAIN);
+
+            let amount: number;
+            if (carver.type === 'tunnel') {
+                const width = Math.max(1e-3, carver.threshold);
+                amount = 1 - Math.abs(n) / width;
+            } else {
+                amount = (n - carver.threshold) / Math.max(1e-3, 1 - carver.threshold);
+            }
+            if (amount > 0) carve += Math.min(1, amount) * carver.strength * band;
+        }
+        return carve;
+    }
+}
@@ -0,0 +1,424 @@
+import * as THREE from 'three';
+import type { TerrainRules } from '../types/biome';
+import type { Heightfield } from './heightfield';
+import { getFaceDirection, type PlanetHeightfield, type Vec3 } from './planet';
+
+export const CHUNK_SIZE = 100;
+export const DEFAULT_VIEW_RADIUS = 6; // In chunks
+export const MAX_VIEW_RADIUS = 16;
+
+// Segments per chunk side for each LOD level, highest detail first
+export const LOD_SEGMENTS = [128, 64, 32, 16, 8];
+// Largest ring distance (in chunks from the camera's chunk) that still uses each LOD level
+const LOD_RING_LIMITS = [1, 2, 4, 7];
+
+export const getLodForRing = (ring: number): number => {
+    const lod = LOD_RING_LIMITS.findIndex(limit => ring <= limit);
+    return lod === -1 ? LOD_SEGMENTS.length - 1 : lod;
+};
+
+// Volumetric chunks cap their resolution here; the sample count grows with the cube of it
+const VOLUME_MAX_SEGMENTS = 64;
+// Deepest a volumetric chunk reaches below its lowest ground point
+const VOLUME_MAX_DEPTH = 80;
+// Samples beyond each chunk edge. Quads are emitted one cell past the edge, so neighbours overlap
+// slightly instead of needing skirts to cover cracks where their LODs differ.
+const VOLUME_PAD = 2;
+
+// Skirts hang below every chunk edge to hide T-junction cracks between neighbours at different LODs.
+// Deep enough to cover the interpolation error of the coarsest neighbour.
+const getSkirtDepth = (segments: number) => Math.max(2, CHUNK_SIZE / segments);
+
+/**
+ * Grid vertex indices around the chunk edge, in PlaneGeometry order, walking the perimeter once.
+ */
+const getPerimeterIndices = (segments: number): number[] => {
+    const row = segments + 1;
+    const indices: number[] = [];
+    for (let ix = 0; ix < segments; ix++) indices.push(ix); // top
+    for (let iy = 0; iy < segments; iy++) indices.push(iy * row + segments); // right
+    for (let ix = segments; ix > 0; ix--) indices.push(segments * row + ix); // bottom
+    for (let iy = segments; iy > 0; iy--) indices.push(iy * row); // left
+    return indices;
+};
+
+// The subset of TerrainRules a chunk build depends on.
+// Kept small on purpose: textureUrl can be a multi-megabyte data URL and we post this to workers.
+export type ChunkBuildRules = Pick<TerrainRules, 'baseColor' | 'highColor' | 'layers' | 'seed' | 'erosion' | 'carvers'>;
+
+export interface ChunkBuffers {
+    positions: Float32Array;
+    normals: Float32Array;
+    colors: Float32Array;
+    indices?: Uint32Array; // Volumetric chunks only; grid chunks take their index from PlaneGeometry
+}
+
+/**
+ * Builds the vertex buffers for one terrain chunk.
+ * Runs inside the chunk worker, but has no DOM dependencies so it can also run on the main thread.
+ * Vertex order matches THREE.PlaneGeometry(CHUNK_SIZE, CHUNK_SIZE, segments, segments),
+ * followed by one skirt vertex per perimeter vertex.
+ * Terrain with caves is meshed by buildVolumeChunkBuffers instead.
+ */
+export const buildChunkBuffers = (
+    rules: ChunkBuildRules,
+    heightfield: Heightfield,
+    chunkX: number,
+    chunkZ: number,
+    segments: number
+): ChunkBuffers => {
+    if (heightfield.isVolumetric) {
+        return buildVolumeChunkBuffers(rules, heightfield, chunkX, chunkZ, segments);
+    }
+
+    const geo = new THREE.PlaneGeometry(CHUNK_SIZE, CHUNK_SIZE, segments, segments);
+    const posAttribute = geo.attributes.position;
+    const count = posAttribute.count;
+
+    const colors = new Float32Array(count * 3);
+    const colorBase = new THREE.Color(rules.baseColor);
+    const colorHigh = new THREE.Color(rules.highColor);
+
+    // Same vertex order as the plane, so heights[i] belongs to vertex i
+    const heights = heightfield.sampleGrid(chunkX * CHUNK_SIZE, chunkZ * CHUNK_SIZE, CHUNK_SIZE, segments);
+
+    for (let i = 0; i < count; i++) {
+        const height = heights[i];
+
+        // Plane is rotated -90deg on X, so local Z is world up
+        posAttribute.setZ(i, height);
+
+        // Color
+        const alpha = (height / 20 + 0.5);
+        const clampedAlpha = Math.max(0, Math.min(1, alpha));
+
+        colors[i * 3] = THREE.MathUtils.lerp(colorBase.r, colorHigh.r, clampedAlpha);
+        colors[i * 3 + 1] = THREE.MathUtils.lerp(colorBase.g, colorHigh.g, clampedAlpha);
+        colors[i * 3 + 2] = THREE.MathUtils.lerp(colorBase.b, colorHigh.b, clampedAlpha);
+    }
+
+    geo.computeVertexNormals();
+
+    // Append one skirt vertex below each perimeter vertex, sharing its normal and colour
+    const perimeter = getPerimeterIndices(segments);
+    const total = count + perimeter.length;
+    const gridPositions = posAttribute.array as Float32Array;
+    const gridNormals = geo.attributes.normal.array as Float32Array;
+
+    const positions = new Float32Array(total * 3);
+    const normals = new Float32Array(total * 3);
+    const allColors = new Float32Array(total * 3);
+    positions.set(gridPositions);
+    normals.set(gridNormals);
+    allColors.set(colors);
+
+    const skirtDepth = getSkirtDepth(segments);
+    perimeter.forEach((edgeIndex, i) => {
+        const dst = (count + i) * 3;
+        const src = edgeIndex * 3;
+        positions[dst] = gridPositions[src];
+        positions[dst + 1] = gridPositions[src + 1];
+        // Local Z is world up
+        positions[dst + 2] = gridPositions[src + 2] - skirtDepth;
+        for (let c = 0; c < 3; c++) {
+            normals[dst + c] = gridNormals[src + c];
+            allColors[dst + c] = colors[src + c];
+        }
+    });
+
+    geo.dispose();
+    return { positions, normals, colors: allColors };
+};
+
+// Corner offsets of a cell, and the twelve edges between them
+const CELL_CORNERS = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0], [0, 0, 1], [1, 0, 1], [0, 1, 1], [1, 1, 1]];
+const CELL_EDGES = [[0, 1], [2, 3], [4, 5], [6, 7], [0, 2], [1, 3], [4, 6], [5, 7], [0, 4], [1, 5], [2, 6], [3, 7]];
+
+/**
+ * Meshes a chunk of volumetric terrain (Heightfield with carvers) with surface nets: one vertex
+ * per cell the surface passes through, at the mean of its edge crossings, and one quad per
+ * sample edge that crosses the surface. Sample positions are world-aligned, so neighbouring
+ * chunks at the same LOD agree on every shared vertex.
+ * Positions are relative to the chunk centre horizontally and in world Y, unrotated.
+ */
+export const buildVolumeChunkBuffers = (
+    rules: ChunkBuildRules,
+    heightfield: Heightfield,
+    chunkX: number,
+    chunkZ: number,
+    segments: number
+): ChunkBuffers => {
+    const cells = Math.min(segments, VOLUME_MAX_SEGMENTS);
+    const step = CHUNK_SIZE / cells;
+    const centerX = chunkX * CHUNK_SIZE;
+    const centerZ = chunkZ * CHUNK_SIZE;
+    const x0 = centerX - CHUNK_SIZE / 2 - VOLUME_PAD * step;
+    const z0 = centerZ - CHUNK_SIZE / 2 - VOLUME_PAD * step;
+    const n = cells + 2 * VOLUME_PAD; // Samples along X and Z
+
+    // One height per column, shared by every sample in it
+    const heights = new Float32Array(n * n);
+    let minHeight = Infinity;
+    let maxHeight = -Infinity;
+    for (let iz = 0; iz < n; iz++) {
+        for (let ix = 0; ix < n; ix++) {
+            const h = heightfield.getHeight(x0 + ix * step, z0 + iz * step);
+            heights[iz * n + ix] = h;
+            minHeight = Math.min(minHeight, h);
+            maxHeight = Math.max(maxHeight, h);
+        }
+    }
+
+    // Nothing is carved below the carvers' band or deeper than they can reach
+    const bounds = heightfield.caveBounds!;
+    const deepest = Math.min(minHeight, Math.max(bounds.minY, minHeight - Math.min(bounds.maxCarve, VOLUME_MAX_DEPTH)));
+    const yMin = Math.floor(deepest / step) * step - step;
+    const ny = Math.round((Math.ceil(maxHeight / step) * step + step - yMin) / step) + 1;
+
+    const sampleIndex = (ix: number, iy: number, iz: number) => (iy * n + iz) * n + ix;
+    const density = new Float32Array(n * n * ny);
+    for (let iy = 0; iy < ny; iy++) {
+        const y = yMin + iy * step;
+        for (let iz = 0; iz < n; iz++) {
+            for (let ix = 0; ix < n; ix++) {
+                density[sampleIndex(ix, iy, iz)] = heightfield.getDensity(x0 + ix * step, y, z0 + iz * step, heights[iz * n + ix]);
+            }
+        }
+    }
+
+    // One vertex per cell with both rock and air among its corners
+    const cellIndex = (ix: number, iy: number, iz: number) => (iy * n + iz) * n + ix;
+    const cellVertex = new Int32Array(n * n * ny).fill(-1);
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const colors: number[] = [];
+    const colorBase = new THREE.Color(rules.baseColor);
+    const colorHigh = new THREE.Color(rules.highColor);
+    const corner = new Float32Array(8);
+
+    for (let iy = 0; iy < ny - 1; iy++) {
+        for (let iz = 0; iz < n - 1; iz++) {
+            for (let ix = 0; ix < n - 1; ix++) {
+                let solid = 0;
+                for (let c = 0; c < 8; c++) {
+                    const [ox, oy, oz] = CELL_CORNERS[c];
+                    corner[c] = density[sampleIndex(ix + ox, iy + oy, iz + oz)];
+                    if (corner[c] > 0) solid++;
+                }
+                if (solid === 0 || solid === 8) continue;
+
+                let sx = 0, sy = 0, sz = 0, crossings = 0;
+                for (const [a, b] of CELL_EDGES) {
+                    if ((corner[a] > 0) === (corner[b] > 0)) continue;
+                    const t = corner[a] / (corner[a] - corner[b]);
+                    const ca = CELL_CORNERS[a];
+                    const cb = CELL_CORNERS[b];
+                    sx += ca[0] + (cb[0] - ca[0]) * t;
+                    sy += ca[1] + (cb[1] - ca[1]) * t;
+                    sz += ca[2] + (cb[2] - ca[2]) * t;
+                    crossings++;
+                }
+
+                const wx = x0 + (ix + sx / crossings) * step;
+                const wy = yMin + (iy + sy / crossings) * step;
+                const wz = z0 + (iz + sz / crossings) * step;
+                cellVertex[cellIndex(ix, iy, iz)] = positions.length / 3;
+                positions.push(wx - centerX, wy, wz - centerZ);
+                normals.push(...heightfield.getSurfaceNormal(wx, wy, wz));
+
+                const alpha = Math.max(0, Math.min(1, wy / 20 + 0.5));
+                colors.push(
+                    THREE.MathUtils.lerp(colorBase.r, colorHigh.r, alpha),
+                    THREE.MathUtils.lerp(colorBase.g, colorHigh.g, alpha),
+                    THREE.MathUtils.lerp(colorBase.b, colorHigh.b, alpha)
+                );
+            }
+        }
+    }
+
+    // A quad joins the four cells around each sample edge that crosses the surface, facing the air side.
+    // Edges are owned by the chunk whose column range (plus one cell of overlap) holds their lower end.
+    const indices: number[] = [];
+    const pushQuad = (a: number, b: number, c: number, d: number, solidBelow: boolean) => {
+        if (a < 0 || b < 0 || c < 0 || d < 0) return;
+        if (solidBelow) indices.push(a, b, c, a, c, d);
+        else indices.push(a, d, c, a, c, b);
+    };
+    const first = VOLUME_PAD - 1;
+    const last = VOLUME_PAD + cells;
+
+    for (let iy = 0; iy < ny - 1; iy++) {
+        for (let iz = first; iz <= last; iz++) {
+            for (let ix = first; ix <= last; ix++) {
+                const d = density[sampleIndex(ix, iy, iz)] > 0;
+                const v = (cx: number, cy: number, cz: number) => cellVertex[cellIndex(cx, cy, cz)];
+
+                if (iy > 0 && d !== density[sampleIndex(ix + 1, iy, iz)] > 0) {
+                    pushQuad(v(ix, iy - 1, iz - 1), v(ix, iy, iz - 1), v(ix, iy, iz), v(ix, iy - 1, iz), d);
+                }
+                if (d !== density[sampleIndex(ix, iy + 1, iz)] > 0) {
+                    pushQuad(v(ix - 1, iy, iz - 1), v(ix - 1, iy, iz), v(ix, iy, iz), v(ix, iy, iz - 1), d);
+                }
+                if (iy > 0 && d !== density[sampleIndex(ix, iy, iz + 1)] > 0) {
+                    pushQuad(v(ix - 1, iy - 1, iz), v(ix, iy - 1, iz), v(ix, iy, iz), v(ix - 1, iy, iz), d);
+                }
+            }
+        }
+    }
+
+    return {
+        positions: new Float32Array(positions),
+        normals: new Float32Array(normals),
+        colors: new Float32Array(colors),
+        indices: new Uint32Array(indices)
+    };
+};
+
+// Where a chunk sits on a spherical world: face (index into CUBE_FACES) and the face's grid size
+export interface PlanetChunkParams {
+    radius: number;
+    face: number;
+    chunksPerFace: number;
+}
+
+// Roughly CHUNK_SIZE-wide chunks along each face edge at sea level
+export const getPlanetChunksPerFace = (radius: number): number =>
+    Math.max(1, Math.ceil((radius * Math.PI / 2) / CHUNK_SIZE));
+
+/**
+ * Unit direction through the centre of chunk (chunkI, chunkJ) on a cube face.
+ */
+export const getPlanetChunkDirection = (planet: PlanetChunkParams, chunkI: number, chunkJ: number): Vec3 => {
+    const step = 2 / planet.chunksPerFace;
+    return getFaceDirection(planet.face, -1 + (chunkI + 0.5) * step, -1 + (chunkJ + 0.5) * step);
+};
+
+/**
+ * Spherical counterpart of buildChunkBuffers. Same vertex layout (grid in PlaneGeometry order,
+ * then skirts), so createChunkGeometry wraps it unchanged; positions are already in world space
+ * with the planet centre at the origin.
+ */
+export const buildPlanetChunkBuffers = (
+    rules: ChunkBuildRules,
+    planet: PlanetHeightfield,
+    params: PlanetChunkParams,
+    chunkI: number,
+    chunkJ: number,
+    segments: number
+): ChunkBuffers => {
+    const row = segments + 1;
+    const count = row * row;
+    const perimeter = getPerimeterIndices(segments);
+    const total = count + perimeter.length;
+
+    const positions = new Float32Array(total * 3);
+    const normals = new Float32Array(total * 3);
+    const colors = new Float32Array(total * 3);
+    const colorBase = new THREE.Color(rules.baseColor);
+    const colorHigh = new THREE.Color(rules.highColor);
+
+    const faceStep = 2 / params.chunksPerFace;
+    const uMin = -1 + chunkI * faceStep;
+    const vMax = -1 + (chunkJ + 1) * faceStep;
+    const dir: Vec3 = [0, 0, 0];
+
+    for (let iy = 0; iy < row; iy++) {
+        // Rows run from +v to -v, like PlaneGeometry's +y to -y
+        const v = vMax - (iy / segments) * faceStep;
+        for (let ix = 0; ix < row; ix++) {
+            const u = uMin + (ix / segments) * faceStep;
+            getFaceDirection(params.face, u, v, dir);
+
+            const elevation = planet.getElevation(dir[0], dir[1], dir[2]);
+            const r = planet.radius + elevation;
+            const i = iy * row + ix;
+            positions[i * 3] = dir[0] * r;
+            positions[i * 3 + 1] = dir[1] * r;
+            positions[i * 3 + 2] = dir[2] * r;
+
+            // Normals sampled from the heightfield agree across chunk and face borders, unlike computeVertexNormals
+            const normal = planet.getNormal(dir[0], dir[1], dir[2]);
+            normals.set(normal, i * 3);
+
+            const alpha = Math.max(0, Math.min(1, elevation / 20 + 0.5));
+            colors[i * 3] = THREE.MathUtils.lerp(colorBase.r, colorHigh.r, alpha);
+            colors[i * 3 + 1] = THREE.MathUtils.lerp(colorBase.g, colorHigh.g, alpha);
+            colors[i * 3 + 2] = THREE.MathUtils.lerp(colorBase.b, colorHigh.b, alpha);
+        }
+    }
+
+    // Skirts hang toward the planet centre
+    const skirtDepth = getSkirtDepth(segments);
+    perimeter.forEach((edgeIndex, i) => {
+        const dst = (count + i) * 3;
+        const src = edgeIndex * 3;
+        const x = positions[src];
+        const y = positions[src + 1];
+        const z = positions[src + 2];
+        const shrink = 1 - skirtDepth / Math.hypot(x, y, z);
+        positions[dst] = x * shrink;
+        positions[dst + 1] = y * shrink;
+        positions[dst + 2] = z * shrink;
+        for (let c = 0; c < 3; c++) {
+            normals[dst + c] = normals[src + c];
+            colors[dst + c] = colors[src + c];
+        }
+    });
+
+    return { positions, normals, colors };
+};
+
+/**
+ * Wraps buffers produced by buildChunkBuffers into a renderable geometry.
+ * Index and UVs come from a fresh PlaneGeometry so they match the vertex order,
+ * then the skirt strip is appended after the grid.
+ * Volumetric buffers bring their own index and get top-down UVs.
+ */
+export const createChunkGeometry = (buffers: ChunkBuffers, segments: number): THREE.BufferGeometry => {
+    if (buffers.indices) {
+        const geo = new THREE.BufferGeometry();
+        const uvs = new Float32Array((buffers.positions.length / 3) * 2);
+        for (let i = 0; i < uvs.length / 2; i++) {
+            uvs[i * 2] = buffers.positions[i * 3] / CHUNK_SIZE + 0.5;
+            uvs[i * 2 + 1] = 0.5 - buffers.positions[i * 3 + 2] / CHUNK_SIZE;
+        }
+        geo.setIndex(new THREE.BufferAttribute(buffers.indices, 1));
+        geo.setAttribute('position', new THREE.BufferAttribute(buffers.positions, 3));
+        geo.setAttribute('normal', new THREE.BufferAttribute(buffers.normals, 3));
+        geo.setAttribute('color', new THREE.BufferAttribute(buffers.colors, 3));
+        geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+        geo.computeBoundingBox();
+        geo.computeBoundingSphere();
+        return geo;
+    }
+
+    const geo = new THREE.PlaneGeometry(CHUNK_SIZE, CHUNK_SIZE, segments, segments);
+    const gridCount = geo.attributes.position.count;
+    const perimeter = getPerimeterIndices(segments);
+
+    const gridUvs = geo.attributes.uv.array as Float32Array;
+    const uvs = new Float32Array((gridCount + perimeter.length) * 2);
+    uvs.set(gridUvs);
+
+    const index = Array.from(geo.index!.array);
+    perimeter.forEach((edgeIndex, i) => {
+        const next = (i + 1) % perimeter.length;
+        const top = edgeIndex;
+        const topNext = perimeter[next];
+        const bottom = gridCount + i;
+        const bottomNext = gridCount + next;
+        index.push(top, bottom, topNext, topNext, bottom, bottomNext);
+
+        uvs[bottom * 2] = gridUvs[edgeIndex * 2];
+        uvs[bottom * 2 + 1] = gridUvs[edgeIndex * 2 + 1];
+    });
+
+    geo.setIndex(index);
+    geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    geo.setAttribute('position', new THREE.BufferAttribute(buffers.positions, 3));
+    geo.setAttribute('normal', new THREE.BufferAttribute(buffers.normals, 3));
+    geo.setAttribute('color', new THREE.BufferAttribute(buffers.colors, 3));
+    geo.computeBoundingBox();
+    geo.computeBoundingSphere();
+    return geo;
+};
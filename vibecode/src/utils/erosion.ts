@@ -0,0 +1,253 @@
+import type { ErosionParams, TerrainLayer } from '../types/biome';
+import { createRandom } from './heightfield';
+
+/*
+ * Erosion runs on world-aligned tiles, one per chunk, each simulated over a padded region
+ * (the tile plus a full tile and a margin on every side). A point's eroded height is the
+ * base height plus a blend of the erosion deltas of the four nearest tiles, weighted
+ * bilinearly by distance to their centres. A tile's weight reaches zero exactly where its
+ * simulated region stops being sampled, so every caller (any chunk, any worker, the main thread)
+ * computes the same height for the same point and chunk borders stay seamless.
+ */
+
+const TILE_SIZE = 100; // Matches CHUNK_SIZE, so tile centres are chunk centres
+const CELL_SIZE = 2.5;
+const MARGIN = 20; // Simulated beyond the sampled area so droplets entering from outside still count
+const HALF_EXTENT = TILE_SIZE + MARGIN;
+const CELLS = (2 * HALF_EXTENT) / CELL_SIZE;
+const ROW = CELLS + 1;
+
+// Droplet constants that aren't exposed in ErosionParams
+const INERTIA = 0.05;
+const MIN_SLOPE = 0.01;
+const DEPOSIT_SPEED = 0.3;
+const ERODE_SPEED = 0.3;
+const EVAPORATE_SPEED = 0.02;
+const GRAVITY = 4;
+const MAX_LIFETIME = 30;
+const THERMAL_PASSES = 12;
+const THERMAL_RATE = 0.5;
+
+const MAX_CACHED_TILES = 96;
+const MAX_CACHED_TERRAINS = 2;
+
+export const DEFAULT_EROSION: ErosionParams = {
+    iterations: 6000,
+    rainAmount: 1,
+    sedimentCapacity: 4,
+    talusAngle: 35
+};
+
+// Shared by every ErosionField in this thread: terrain key -> tile key -> delta grid.
+// Both levels are kept in least-recently-used order.
+const terrainCaches = new Map<string, Map<string, Float32Array>>();
+
+const getTerrainCache = (key: string) => {
+    let tiles = terrainCaches.get(key);
+    if (tiles) {
+        terrainCaches.delete(key);
+    } else {
+        tiles = new Map();
+    }
+    terrainCaches.set(key, tiles);
+    if (terrainCaches.size > MAX_CACHED_TERRAINS) {
+        terrainCaches.delete(terrainCaches.keys().next().value!);
+    }
+    return tiles;
+};
+
+const hashTile = (seed: number, tileX: number, tileZ: number) => {
+    let h = seed | 0;
+    h = Math.imul(h ^ tileX, 0x85ebca6b);
+    h = Math.imul(h ^ tileZ, 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+};
+
+const sampleGridBilinear = (grid: Float32Array, gx: number, gz: number) => {
+    const x0 = Math.min(CELLS - 1, Math.max(0, Math.floor(gx)));
+    const z0 = Math.min(CELLS - 1, Math.max(0, Math.floor(gz)));
+    const u = gx - x0;
+    const v = gz - z0;
+    const i = z0 * ROW + x0;
+    return grid[i] * (1 - u) * (1 - v)
+        + grid[i + 1] * u * (1 - v)
+        + grid[i + ROW] * (1 - u) * v
+        + grid[i + ROW + 1] * u * v;
+};
+
+/**
+ * Droplet-based hydraulic erosion over a heightmap in place. Works in grid units.
+ */
+const erodeHydraulic = (heights: Float32Array, params: ErosionParams, random: () => number) => {
+    for (let iteration = 0; iteration < params.iterations; iteration++) {
+        let posX = random() * (CELLS - 1);
+        let posZ = random() * (CELLS - 1);
+        let dirX = 0;
+        let dirZ = 0;
+        let speed = 1;
+        let water = params.rainAmount;
+        let sediment = 0;
+
+        for (let life = 0; life < MAX_LIFETIME; life++) {
+            const cellX = Math.floor(posX);
+            const cellZ = Math.floor(posZ);
+            const u = posX - cellX;
+            const v = posZ - cellZ;
+            const i = cellZ * ROW + cellX;
+
+            const hNW = heights[i];
+            const hNE = heights[i + 1];
+            const hSW = heights[i + ROW];
+            const hSE = heights[i + ROW + 1];
+
+            const gradX = (hNE - hNW) * (1 - v) + (hSE - hSW) * v;
+            const gradZ = (hSW - hNW) * (1 - u) + (hSE - hNE) * u;
+            const height = hNW * (1 - u) * (1 - v) + hNE * u * (1 - v) + hSW * (1 - u) * v + hSE * u * v;
+
+            dirX = dirX * INERTIA - gradX * (1 - INERTIA);
+            dirZ = dirZ * INERTIA - gradZ * (1 - INERTIA);
+            const len = Math.hypot(dirX, dirZ);
+            if (len < 1e-6) break;
+            dirX /= len;
+            dirZ /= len;
+            posX += dirX;
+            posZ += dirZ;
+
+            if (posX < 0 || posZ < 0 || posX >= CELLS - 1 || posZ >= CELLS - 1) break;
+
+            const newHeight = sampleGridBilinear(heights, posX, posZ);
+            const deltaHeight = newHeight - height;
+
+            const capacity = Math.max(-deltaHeight * speed * water * params.sedimentCapacity, MIN_SLOPE);
+
+            if (sediment > capacity || deltaHeight > 0) {
+                // Uphill: fill the pit we came from; otherwise drop the excess
+                const deposit = deltaHeight > 0
+                    ? Math.min(deltaHeight, sediment)
+                    : (sediment - capacity) * DEPOSIT_SPEED;
+                sediment -= deposit;
+                heights[i] += deposit * (1 - u) * (1 - v);
+                heights[i + 1] += deposit * u * (1 - v);
+                heights[i + ROW] += deposit * (1 - u) * v;
+                heights[i + ROW + 1] += deposit * u * v;
+            } else {
+                // Never dig deeper than the drop we just made, or droplets carve spikes
+                const erode = Math.min((capacity - sediment) * ERODE_SPEED, -deltaHeight);
+                heights[i] -= erode * (1 - u) * (1 - v);
+                heights[i + 1] -= erode * u * (1 - v);
+                heights[i + ROW] -= erode * (1 - u) * v;
+                heights[i + ROW + 1] -= erode * u * v;
+                sediment += erode;
+            }
+
+            speed = Math.sqrt(Math.max(0, speed * speed + deltaHeight * GRAVITY));
+            water *= 1 - EVAPORATE_SPEED;
+        }
+    }
+};
+
+/**
+ * Thermal weathering: material slides off any slope steeper than the talus angle.
+ */
+const erodeThermal = (heights: Float32Array, talusAngle: number) => {
+    if (talusAngle <= 0) return;
+    const talus = Math.tan(talusAngle * Math.PI / 180) * CELL_SIZE;
+    const neighbours = [1, -1, ROW, -ROW];
+
+    for (let pass = 0; pass < THERMAL_PASSES; pass++) {
+        for (let z = 1; z < CELLS; z++) {
+            for (let x = 1; x < CELLS; x++) {
+                const i = z * ROW + x;
+                for (const offset of neighbours) {
+                    const diff = heights[i] - heights[i + offset];
+                    if (diff > talus) {
+                        const moved = (diff - talus) * 0.5 * THERMAL_RATE;
+                        heights[i] -= moved;
+                        heights[i + offset] += moved;
+                    }
+                }
+            }
+        }
+    }
+};
+
+/**
+ * Lazily erodes and caches tiles for one terrain, and answers erosion deltas for any point.
+ */
+export class ErosionField {
+    private readonly baseHeight: (x: number, z: number) => number;
+    private readonly params: ErosionParams;
+    private readonly seed: number;
+    private readonly tiles: Map<string, Float32Array>;
+
+    constructor(baseHeight: (x: number, z: number) => number, params: ErosionParams, seed: number, layers: TerrainLayer[]) {
+        this.baseHeight = baseHeight;
+        this.params = params;
+        this.seed = seed;
+        this.tiles = getTerrainCache(JSON.stringify([seed, layers, params]));
+    }
+
+    private getTile(tileX: number, tileZ: number): Float32Array {
+        const key = `${tileX},${tileZ}`;
+        const cached = this.tiles.get(key);
+        if (cached) {
+            // Refresh LRU position
+            this.tiles.delete(key);
+            this.tiles.set(key, cached);
+            return cached;
+        }
+
+        const originX = tileX * TILE_SIZE - HALF_EXTENT;
+        const originZ = tileZ * TILE_SIZE - HALF_EXTENT;
+        const base = new Float32Array(ROW * ROW);
+        for (let z = 0; z < ROW; z++) {
+            for (let x = 0; x < ROW; x++) {
+                base[z * ROW + x] = this.baseHeight(originX + x * CELL_SIZE, originZ + z * CELL_SIZE);
+            }
+        }
+
+        const heights = base.slice();
+        erodeHydraulic(heights, this.params, createRandom(hashTile(this.seed, tileX, tileZ)));
+        erodeThermal(heights, this.params.talusAngle);
+
+        // Store only the change, so the base noise keeps its detail below the erosion grid resolution
+        const delta = heights;
+        for (let i = 0; i < delta.length; i++) delta[i] -= base[i];
+
+        this.tiles.set(key, delta);
+        if (this.tiles.size > MAX_CACHED_TILES) {
+            this.tiles.delete(this.tiles.keys().next().value!);
+        }
+        return delta;
+    }
+
+    private sampleTile(tileX: number, tileZ: number, x: number, z: number) {
+        const delta = this.getTile(tileX, tileZ);
+        const gx = (x - (tileX * TILE_SIZE - HALF_EXTENT)) / CELL_SIZE;
+        const gz = (z - (tileZ * TILE_SIZE - HALF_EXTENT)) / CELL_SIZE;
+        return sampleGridBilinear(delta, gx, gz);
+    }
+
+    /**
+     * Eroded height minus base height at a world point.
+     */
+    sampleDelta(x: number, z: number): number {
+        const tx = x / TILE_SIZE;
+        const tz = z / TILE_SIZE;
+        const tileX = Math.floor(tx);
+        const tileZ = Math.floor(tz);
+        const fx = tx - tileX;
+        const fz = tz - tileZ;
+
+        let total = 0;
+        const w00 = (1 - fx) * (1 - fz);
+        const w10 = fx * (1 - fz);
+        const w01 = (1 - fx) * fz;
+        const w11 = fx * fz;
+        if (w00 > 0) total += w00 * this.sampleTile(tileX, tileZ, x, z);
+        if (w10 > 0) total += w10 * this.sampleTile(tileX + 1, tileZ, x, z);
+        if (w01 > 0) total += w01 * this.sampleTile(tileX, tileZ + 1, x, z);
+        if (w11 > 0) total += w11 * this.sampleTile(tileX + 1, tileZ + 1, x, z);
+        return total;
+    }
+}
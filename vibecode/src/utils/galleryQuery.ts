@@ -0,0 +1,96 @@
+import type { WeatherParams } from '../types/biome';
+
+// What the gallery is showing, kept in the page's query string so a search can be reloaded or shared
+
+export type GallerySort = 'date' | 'name' | 'popularity';
+export type GalleryWeather = WeatherParams['type'];
+
+export interface GalleryFilters {
+    search: string;
+    weather?: GalleryWeather;
+    atmosphere?: string;
+    minTemperature?: number;
+    maxTemperature?: number;
+    minGravity?: number;
+    maxGravity?: number;
+    sort: GallerySort;
+}
+
+export const GALLERY_SORTS: GallerySort[] = ['date', 'name', 'popularity'];
+export const GALLERY_WEATHER_TYPES: GalleryWeather[] = ['none', 'rain', 'snow', 'sandstorm', 'spores'];
+export const GALLERY_ATMOSPHERES = ['Thin', 'Standard', 'Thick', 'Soupy'];
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = { search: '', sort: 'date' };
+
+// Query string keys for each filter
+const PARAMS = {
+    search: 'q',
+    weather: 'weather',
+    atmosphere: 'atmosphere',
+    minTemperature: 'tmin',
+    maxTemperature: 'tmax',
+    minGravity: 'gmin',
+    maxGravity: 'gmax',
+    sort: 'sort'
+} as const;
+
+const NUMERIC_FILTERS = ['minTemperature', 'maxTemperature', 'minGravity', 'maxGravity'] as const;
+
+// Shortest word that is indexed or searched for
+const MIN_TERM_LENGTH = 3;
+
+/**
+ * Reads the filters from a query string, ignoring values that don't fit.
+ */
+export function galleryFiltersFromSearch(search: string): GalleryFilters {
+    const params = new URLSearchParams(search);
+    const filters: GalleryFilters = { ...DEFAULT_GALLERY_FILTERS, search: params.get(PARAMS.search) ?? '' };
+
+    const weather = params.get(PARAMS.weather);
+    if (weather && (GALLERY_WEATHER_TYPES as string[]).includes(weather)) filters.weather = weather as GalleryWeather;
+    const atmosphere = params.get(PARAMS.atmosphere);
+    if (atmosphere && GALLERY_ATMOSPHERES.includes(atmosphere)) filters.atmosphere = atmosphere;
+    const sort = params.get(PARAMS.sort);
+    if (sort && (GALLERY_SORTS as string[]).includes(sort)) filters.sort = sort as GallerySort;
+
+    NUMERIC_FILTERS.forEach(key => {
+        const raw = params.get(PARAMS[key]);
+        if (raw !== null && raw.trim() !== '' && Number.isFinite(Number(raw))) filters[key] = Number(raw);
+    });
+    return filters;
+}
+
+/**
+ * Writes the filters into a query string, keeping any parameters that aren't the gallery's.
+ * Defaults are left out, so an unfiltered gallery leaves the URL clean.
+ */
+export function galleryFiltersToSearch(filters: GalleryFilters, search: string): string {
+    const params = new URLSearchParams(search);
+    (Object.keys(PARAMS) as (keyof GalleryFilters)[]).forEach(key => {
+        const value = filters[key];
+        const isDefault = value === undefined || value === '' || value === DEFAULT_GALLERY_FILTERS[key];
+        if (isDefault) params.delete(PARAMS[key]);
+        else params.set(PARAMS[key], String(value));
+    });
+    const query = params.toString();
+    return query ? `?${query}` : '';
+}
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= MIN_TERM_LENGTH);
+
+/**
+ * The words of a search, longest (most selective) first.
+ */
+export const gallerySearchWords = (search: string) => [...new Set(words(search))].sort((a, b) => b.length - a.length);
+
+/**
+ * Every prefix of every word in the name and description, stored on saved biomes so Firestore
+ * can match a search word with array-contains ("crys" finds "crystal").
+ */
+export function gallerySearchTerms(name: string, description: string): string[] {
+    const terms = new Set<string>();
+    words(`${name} ${description}`).forEach(word => {
+        for (let length = MIN_TERM_LENGTH; length <= word.length; length++) terms.add(word.slice(0, length));
+    });
+    return [...terms];
+}
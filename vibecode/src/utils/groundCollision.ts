@@ -0,0 +1,65 @@
+import { CHUNK_SIZE, LOD_SEGMENTS } from './chunkGeometry';
+import type { Heightfield } from './heightfield';
+
+export type GroundMaterial = 'land' | 'water';
+
+export interface GroundSample {
+    height: number; // Ground surface height, as rendered
+    normal: [number, number, number];
+    slope: number; // Radians from horizontal
+    material: GroundMaterial;
+    waterDepth: number; // How far waterLevel sits above the ground (0 on dry land)
+}
+
+/**
+ * Height of the rendered terrain surface at (x, z).
+ *
+ * Chunk meshes are PlaneGeometry grids, so the surface is linear across each triangle,
+ * not the smooth noise function. We fetch the four grid corners of the cell and interpolate
+ * inside the same triangle the GPU draws (PlaneGeometry splits each cell along the b-d diagonal).
+ * The player only ever stands in the innermost rings, which always use the finest LOD.
+ */
+export const getMeshHeight = (heightfield: Heightfield, x: number, z: number, segments = LOD_SEGMENTS[0]): number => {
+    const step = CHUNK_SIZE / segments;
+    // Grid vertices sit at -CHUNK_SIZE/2 + k * step on both axes, in every chunk
+    const gx = Math.floor((x + CHUNK_SIZE / 2) / step);
+    const gz = Math.floor((z + CHUNK_SIZE / 2) / step);
+    const x0 = gx * step - CHUNK_SIZE / 2;
+    const z0 = gz * step - CHUNK_SIZE / 2;
+
+    const u = (x - x0) / step;
+    const v = (z - z0) / step;
+
+    // a = (0,0), b = (0,1), c = (1,1), d = (1,0) in (u, v)
+    const ha = heightfield.getHeight(x0, z0);
+    const hb = heightfield.getHeight(x0, z0 + step);
+    const hd = heightfield.getHeight(x0 + step, z0);
+
+    if (u + v <= 1) {
+        return ha + (hd - ha) * u + (hb - ha) * v;
+    }
+
+    const hc = heightfield.getHeight(x0 + step, z0 + step);
+    return hc + (hb - hc) * (1 - u) + (hd - hc) * (1 - v);
+};
+
+/**
+ * Everything gameplay code needs to know about the ground under a point.
+ * On volumetric terrain the ground is the first surface at or below fromY, so pass the feet
+ * height there to stand on cave floors rather than the hill above. Surface nets meshes sit
+ * within a fraction of a cell of that analytic surface, so there is no mesh interpolation.
+ */
+export const queryGround = (heightfield: Heightfield, x: number, z: number, waterLevel: number, fromY = Infinity): GroundSample => {
+    const height = heightfield.isVolumetric ? heightfield.getGroundHeight(x, z, fromY) : getMeshHeight(heightfield, x, z);
+    const normal = heightfield.getSurfaceNormal(x, height, z);
+    const slope = Math.acos(Math.min(1, normal[1]));
+    const waterDepth = Math.max(0, waterLevel - height);
+
+    return {
+        height,
+        normal,
+        slope,
+        material: waterDepth > 0 ? 'water' : 'land',
+        waterDepth
+    };
+};
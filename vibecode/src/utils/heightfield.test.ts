@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { ErosionParams, TerrainCarver, TerrainLayer } from '../types/biome';
+import { Heightfield, type HeightfieldRules } from './heightfield';
+
+// Golden values: any change to the terrain math shows up here as a snapshot diff. Only update the
+// snapshots when a change is meant to move the ground, since saved worlds move with it.
+
+const SEEDS = [1, 1337, 982451653];
+
+const layer = (name: string, noiseScale: number, heightScale: number, roughness: number, offsetX = 0, offsetZ = 0): TerrainLayer => ({
+    name, noiseScale, heightScale, roughness, offsetX, offsetZ
+});
+
+// Layers as the generator writes them, with none of the optional fields set
+const LAYER_CONFIGS: Record<string, TerrainLayer[]> = {
+    'no layers': [],
+    'single layer': [layer('Hills', 0.01, 12, 0.5)],
+    'mountains and detail': [layer('Mountains', 0.004, 40, 0.8), layer('Detail', 0.05, 2, 0.3, 100, -50)],
+    'flat roughness': [layer('Plateau', 0.02, 8, 0, 12.5, 7.25)]
+};
+
+// Layers using the newer fields: every layer type, blend mode and masks
+const LAYER_TYPE_CONFIGS: Record<string, TerrainLayer[]> = {
+    'ridged': [{ ...layer('Ridges', 0.006, 30, 0.5), type: 'ridged', octaves: 5, lacunarity: 2.1, gain: 0.5 }],
+    'billow and terraced': [
+        { ...layer('Dunes', 0.015, 6, 0.5), type: 'billow', octaves: 3 },
+        { ...layer('Mesas', 0.005, 25, 0.4), type: 'terraced', terraceSteps: 5 }
+    ],
+    'domain warp': [{ ...layer('Swirls', 0.008, 15, 0.6), type: 'domain-warp', octaves: 3, warpStrength: 1.5 }],
+    'multiply and max blends': [
+        layer('Base', 0.01, 10, 0.5),
+        { ...layer('Scale', 0.003, 1.5, 0.5), blend: 'multiply' },
+        { ...layer('Floor', 0.02, 4, 0.5, -30, 60), type: 'billow', blend: 'max' }
+    ],
+    'masked layers': [
+        layer('Continents', 0.002, 20, 0.5),
+        { ...layer('Peaks', 0.02, 18, 0.5), type: 'ridged', octaves: 4, mask: { layer: 0, threshold: 0.2, softness: 0.15 } },
+        { ...layer('Lowland', 0.04, 3, 0.5), mask: { layer: 0, threshold: -0.1, softness: 0.3, invert: true } }
+    ]
+};
+
+// Fewer droplets than the default keep the goldens quick; the droplet and thermal code paths are the same
+const EROSION_CONFIGS: Record<string, ErosionParams> = {
+    'hydraulic and thermal': { iterations: 1500, rainAmount: 1, sedimentCapacity: 4, talusAngle: 35 },
+    'heavy rain, no thermal': { iterations: 1500, rainAmount: 2, sedimentCapacity: 8, talusAngle: 0 }
+};
+
+const CARVER_CONFIGS: Record<string, TerrainCarver[]> = {
+    'caverns': [{ type: 'cavern', noiseScale: 0.03, threshold: 0.3, strength: 14, minHeight: -40, maxHeight: 20 }],
+    'tunnels': [{ type: 'tunnel', noiseScale: 0.02, threshold: 0.12, strength: 10, minHeight: -30, maxHeight: 30 }],
+    'caverns and tunnels': [
+        { type: 'cavern', noiseScale: 0.025, threshold: 0.4, strength: 12, minHeight: -50, maxHeight: 0 },
+        { type: 'tunnel', noiseScale: 0.015, threshold: 0.1, strength: 8, minHeight: -20, maxHeight: 40 }
+    ]
+};
+
+const POINTS: [number, number][] = [[0, 0], [12.5, -7.25], [-100, 240], [333.3, 0.1], [-1024, -2048]];
+
+// Fixed precision, so the goldens don't hinge on the last bits of floating point
+const round = (n: number) => Number(n.toFixed(6));
+
+const sampleGolden = (rules: HeightfieldRules) => {
+    const field = new Heightfield(rules);
+    return {
+        heights: POINTS.map(([x, z]) => round(field.getHeight(x, z))),
+        normals: POINTS.map(([x, z]) => field.getNormal(x, z).map(round)),
+        slopes: POINTS.map(([x, z]) => round(field.getSlope(x, z))),
+        grid: Array.from(field.sampleGrid(-40, 25, 32, 4), round)
+    };
+};
+
+describe('Heightfield', () => {
+    for (const [name, layers] of Object.entries(LAYER_CONFIGS)) {
+        for (const seed of SEEDS) {
+            it(`matches the golden terrain for ${name}, seed ${seed}`, () => {
+                expect(sampleGolden({ layers, seed })).toMatchSnapshot();
+            });
+        }
+    }
+
+    for (const [name, layers] of Object.entries(LAYER_TYPE_CONFIGS)) {
+        for (const seed of SEEDS) {
+            it(`matches the golden terrain for ${name} layers, seed ${seed}`, () => {
+                expect(sampleGolden({ layers, seed })).toMatchSnapshot();
+            });
+        }
+    }
+
+    for (const [name, erosion] of Object.entries(EROSION_CONFIGS)) {
+        for (const seed of SEEDS.slice(0, 2)) {
+            it(`matches the golden eroded terrain for ${name}, seed ${seed}`, () => {
+                expect(sampleGolden({ layers: LAYER_CONFIGS['mountains and detail'], seed, erosion })).toMatchSnapshot();
+            });
+        }
+    }
+
+    for (const [name, carvers] of Object.entries(CARVER_CONFIGS)) {
+        for (const seed of SEEDS) {
+            it(`matches the golden volumetric terrain for ${name}, seed ${seed}`, () => {
+                const field = new Heightfield({ layers: LAYER_CONFIGS['mountains and detail'], seed, carvers });
+                // Each column from its surface down through the carvers' reach
+                const depths = [0, -4, -9, -15, -24];
+                expect({
+                    bounds: field.caveBounds,
+                    ...sampleGolden({ layers: LAYER_CONFIGS['mountains and detail'], seed, carvers }),
+                    density: POINTS.map(([x, z]) => depths.map(d => round(field.getDensity(x, field.getHeight(x, z) + d, z)))),
+                    ground: POINTS.map(([x, z]) => depths.map(d => round(field.getGroundHeight(x, z, field.getHeight(x, z) + d)))),
+                    surfaceNormals: POINTS.map(([x, z]) => field.getSurfaceNormal(x, field.getHeight(x, z) - 9, z).map(round))
+                }).toMatchSnapshot();
+            });
+        }
+    }
+
+    it('samples the grid row by row along +Z, matching getHeight', () => {
+        const field = new Heightfield({ layers: LAYER_CONFIGS['mountains and detail'], seed: 7 });
+        const grid = field.sampleGrid(10, -20, 8, 2);
+        expect(grid[0]).toBeCloseTo(field.getHeight(6, -24), 4);
+        expect(grid[2]).toBeCloseTo(field.getHeight(14, -24), 4);
+        expect(grid[3]).toBeCloseTo(field.getHeight(6, -20), 4);
+        expect(grid[8]).toBeCloseTo(field.getHeight(14, -16), 4);
+    });
+
+    it('gives the same terrain for the same seed and different terrain for another', () => {
+        const layers = LAYER_CONFIGS['single layer'];
+        const a = new Heightfield({ layers, seed: 42 });
+        const b = new Heightfield({ layers, seed: 42 });
+        const c = new Heightfield({ layers, seed: 43 });
+        expect(a.getHeight(17, 23)).toBe(b.getHeight(17, 23));
+        expect(a.getHeight(17, 23)).not.toBe(c.getHeight(17, 23));
+    });
+});
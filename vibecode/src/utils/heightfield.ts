@@ -0,0 +1,185 @@
+import { createNoise2D, type NoiseFunction2D } from 'simplex-noise';
+import type { TerrainRules } from '../types/biome';
+import { ErosionField } from './erosion';
+import { CaveField } from './caves';
+import { combineLayers, resolveLayer, sampleLayer, type ResolvedLayer } from './noiseLayers';
+
+// Simple Linear Congruential Generator for seeding
+export const createRandom = (seed: number) => {
+    let s = seed;
+    return () => {
+        s = (s * 1664525 + 1013904223) % 4294967296;
+        return (s >>> 0) / 4294967296;
+    };
+};
+
+// The subset of TerrainRules that shapes the ground
+export type HeightfieldRules = Pick<TerrainRules, 'layers' | 'seed' | 'erosion' | 'carvers'>;
+
+// Step used for finite-difference normals, in world units
+const NORMAL_EPSILON = 0.2;
+// Vertical step when searching a column for the ground, then refined by bisection
+const GROUND_SEARCH_STEP = 0.5;
+const GROUND_BISECTIONS = 8;
+
+/**
+ * The single source of truth for terrain height.
+ * The chunk mesh builder, prop placement and player grounding all sample through this class,
+ * so anything standing on the ground agrees with what is drawn.
+ * Coordinates are world X/Z; heights are world Y.
+ * With carvers the ground is volumetric: getDensity is the truth and getHeight is only the top
+ * of the rock before caves are cut, so ground queries go through getGroundHeight instead.
+ */
+export class Heightfield {
+    readonly rules: HeightfieldRules;
+    private noise2D: NoiseFunction2D;
+    private layers: ResolvedLayer[];
+    private layerScratch: Float64Array;
+    private erosion: ErosionField | null;
+    private caves: CaveField | null;
+
+    constructor(rules: HeightfieldRules, noise2D: NoiseFunction2D = createNoise2D(createRandom(rules.seed))) {
+        this.rules = rules;
+        this.noise2D = noise2D;
+        this.layers = (rules.layers ?? []).map(resolveLayer);
+        this.layerScratch = new Float64Array(this.layers.length);
+        this.erosion = rules.erosion
+            ? new ErosionField((x, z) => this.getBaseHeight(x, z), rules.erosion, rules.seed, rules.layers ?? [])
+            : null;
+        this.caves = rules.carvers?.length ? new CaveField(rules.carvers, rules.seed) : null;
+    }
+
+    get isVolumetric(): boolean {
+        return this.caves !== null;
+    }
+
+    // Lowest Y the carvers reach and the deepest they cut below the surface, or null on a plain heightfield
+    get caveBounds(): { minY: number; maxCarve: number } | null {
+        return this.caves ? { minY: this.caves.minY, maxCarve: this.caves.maxCarve } : null;
+    }
+
+    getHeight(x: number, z: number): number {
+        const base = this.getBaseHeight(x, z);
+        return this.erosion ? base + this.erosion.sampleDelta(x, z) : base;
+    }
+
+    // The noise layers alone, before erosion
+    private getBaseHeight(x: number, z: number): number {
+        if (this.layers.length > 0) {
+            return combineLayers(this.layers, this.layerScratch, layer => sampleLayer(this.noise2D, layer, x, z));
+        }
+        // Fallback
+        return this.noise2D(x * 0.02, z * 0.02) * 5;
+    }
+
+    /**
+     * Positive inside rock, negative in air; the surface is the zero crossing.
+     * Pass the column's height when it's already known, to skip resampling the layers.
+     */
+    getDensity(x: number, y: number, z: number, height = this.getHeight(x, z)): number {
+        const depth = height - y;
+        // Far above the top there is never rock, and below the deepest reach of the carvers there always is.
+        // Near the surface the carve still applies on the air side, so the field stays smooth across it.
+        if (!this.caves || Math.abs(depth) > this.caves.maxCarve) return depth;
+        return depth - this.caves.getCarve(x, y, z);
+    }
+
+    /**
+     * Highest ground surface at or below fromY. On a plain heightfield that's just the height;
+     * with caves, the column is searched downward, so a point inside a cave finds the cave floor.
+     * A point buried in rock finds the surface above it instead.
+     */
+    getGroundHeight(x: number, z: number, fromY = Infinity): number {
+        const height = this.getHeight(x, z);
+        if (!this.caves) return height;
+
+        let y = Math.min(fromY, height);
+        let density = this.getDensity(x, y, z, height);
+
+        if (density > 0) {
+            // Buried: climb to the air above
+            while (density > 0 && y < height) {
+                y = Math.min(height, y + GROUND_SEARCH_STEP);
+                density = this.getDensity(x, y, z, height);
+            }
+            return this.refineSurface(x, z, height, y - GROUND_SEARCH_STEP, y);
+        }
+
+        // In air: fall until we hit rock. Below the carvers' reach everything is solid.
+        const floor = Math.min(this.caves.minY, height - this.caves.maxCarve);
+        while (density <= 0 && y > floor) {
+            y -= GROUND_SEARCH_STEP;
+            density = this.getDensity(x, y, z, height);
+        }
+        return this.refineSurface(x, z, height, y, y + GROUND_SEARCH_STEP);
+    }
+
+    // Bisects between a solid point below and an open point above
+    private refineSurface(x: number, z: number, height: number, solidY: number, airY: number): number {
+        for (let i = 0; i < GROUND_BISECTIONS; i++) {
+            const mid = (solidY + airY) / 2;
+            if (this.getDensity(x, mid, z, height) > 0) solidY = mid;
+            else airY = mid;
+        }
+        return (solidY + airY) / 2;
+    }
+
+    /**
+     * Unit normal of the ground surface through (x, y, z). Matches getNormal on a plain heightfield;
+     * with caves it's the density gradient, so walls and ceilings get sideways and downward normals.
+     */
+    getSurfaceNormal(x: number, y: number, z: number, epsilon = NORMAL_EPSILON): [number, number, number] {
+        if (!this.caves) return this.getNormal(x, z, epsilon);
+
+        const nx = this.getDensity(x - epsilon, y, z) - this.getDensity(x + epsilon, y, z);
+        const ny = this.getDensity(x, y - epsilon, z) - this.getDensity(x, y + epsilon, z);
+        const nz = this.getDensity(x, y, z - epsilon) - this.getDensity(x, y, z + epsilon);
+        const len = Math.hypot(nx, ny, nz) || 1;
+        return [nx / len, ny / len, nz / len];
+    }
+
+    /**
+     * Unit surface normal from a central difference of four height samples.
+     */
+    getNormal(x: number, z: number, epsilon = NORMAL_EPSILON): [number, number, number] {
+        const hL = this.getHeight(x - epsilon, z);
+        const hR = this.getHeight(x + epsilon, z);
+        const hD = this.getHeight(x, z - epsilon);
+        const hU = this.getHeight(x, z + epsilon);
+
+        const nx = hL - hR;
+        const ny = 2 * epsilon;
+        const nz = hD - hU;
+        const len = Math.hypot(nx, ny, nz);
+        return [nx / len, ny / len, nz / len];
+    }
+
+    /**
+     * Angle between the surface and the horizontal plane, in radians (0 = flat, PI/2 = vertical).
+     */
+    getSlope(x: number, z: number, epsilon = NORMAL_EPSILON): number {
+        const [, ny] = this.getNormal(x, z, epsilon);
+        return Math.acos(Math.min(1, ny));
+    }
+
+    /**
+     * Samples a square grid of (segments + 1)^2 heights centred on (centerX, centerZ).
+     * Rows run along +Z and columns along +X, which is the vertex order of a
+     * PlaneGeometry(size, size, segments, segments) rotated -90deg on X.
+     */
+    sampleGrid(centerX: number, centerZ: number, size: number, segments: number, out?: Float32Array): Float32Array {
+        const row = segments + 1;
+        const heights = out ?? new Float32Array(row * row);
+        const half = size / 2;
+        const step = size / segments;
+
+        for (let iz = 0; iz < row; iz++) {
+            const z = centerZ + (iz * step - half);
+            for (let ix = 0; ix < row; ix++) {
+                const x = centerX + (ix * step - half);
+                heights[iz * row + ix] = this.getHeight(x, z);
+            }
+        }
+        return heights;
+    }
+}
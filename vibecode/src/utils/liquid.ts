@@ -0,0 +1,27 @@
+import type { BiomeData, LiquidParams, LiquidType } from '../types/biome';
+
+export const LIQUID_TYPES: LiquidType[] = ['water', 'acid', 'lava', 'methane', 'mercury'];
+
+interface LiquidProperties {
+    drag: number; // Velocity damping per second while swimming
+    emissive: number; // Self-illumination of the surface shader
+}
+
+export const LIQUID_PROPERTIES: Record<LiquidType, LiquidProperties> = {
+    water: { drag: 2.0, emissive: 0 },
+    acid: { drag: 2.5, emissive: 0.15 },
+    lava: { drag: 6.0, emissive: 1.2 },
+    methane: { drag: 1.2, emissive: 0 },
+    mercury: { drag: 5.0, emissive: 0 }
+};
+
+/**
+ * Liquid for a biome. Biomes saved before liquids existed fall back to water tinted by their fog.
+ */
+export const resolveLiquid = (biome: BiomeData): LiquidParams => {
+    const liquid = biome.terrain.liquid;
+    return {
+        type: liquid?.type && LIQUID_TYPES.includes(liquid.type) ? liquid.type : 'water',
+        color: liquid?.color || biome.atmosphere.fogColor || '#1e5f74'
+    };
+};
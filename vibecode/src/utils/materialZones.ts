@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import type { MaterialZone } from '../types/biome';
+
+// Zones past this are ignored; the terrain shader loops over a fixed-size uniform array
+export const MAX_MATERIAL_ZONES = 8;
+// Every zone texture is resampled to this size to fit one array texture layer
+const ZONE_TEXTURE_SIZE = 512;
+const MAX_CACHED_SETS = 2;
+
+export interface ZoneTextureSet {
+    texture: THREE.DataArrayTexture;
+    layers: number[]; // Array texture layer per zone, -1 where the zone is colour only
+}
+
+const createArrayTexture = (data: Uint8Array, size: number, depth: number) => {
+    const texture = new THREE.DataArrayTexture(data, size, size, depth);
+    texture.format = THREE.RGBAFormat;
+    texture.type = THREE.UnsignedByteType;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.generateMipmaps = true;
+    texture.needsUpdate = true;
+    return texture;
+};
+
+// Bound when no zone has a texture, so the sampler always has something valid
+export const EMPTY_ZONE_TEXTURES: ZoneTextureSet = {
+    texture: createArrayTexture(new Uint8Array([255, 255, 255, 255]), 1, 1),
+    layers: []
+};
+
+// Keyed by the zones' texture URLs, oldest first
+const setCache = new Map<string, Promise<ZoneTextureSet>>();
+
+const loadPixels = async (url: string): Promise<Uint8ClampedArray> => {
+    const image = await new THREE.ImageLoader().setCrossOrigin('anonymous').loadAsync(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = ZONE_TEXTURE_SIZE;
+    canvas.height = ZONE_TEXTURE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D canvas unavailable');
+    ctx.drawImage(image, 0, 0, ZONE_TEXTURE_SIZE, ZONE_TEXTURE_SIZE);
+    return ctx.getImageData(0, 0, ZONE_TEXTURE_SIZE, ZONE_TEXTURE_SIZE).data;
+};
+
+const buildSet = async (urls: (string | undefined)[]): Promise<ZoneTextureSet> => {
+    // A texture that fails to load leaves its zone on the flat colour
+    const pixels = await Promise.all(urls.map(url => url
+        ? loadPixels(url).catch(err => {
+            console.warn('[MaterialZones] Texture failed to load, using zone colour:', url, err);
+            return null;
+        })
+        : null));
+
+    const loaded = pixels.filter((p): p is Uint8ClampedArray => p !== null);
+    if (loaded.length === 0) return EMPTY_ZONE_TEXTURES;
+
+    const layerBytes = ZONE_TEXTURE_SIZE * ZONE_TEXTURE_SIZE * 4;
+    const data = new Uint8Array(layerBytes * loaded.length);
+    const layers: number[] = [];
+    let next = 0;
+    for (const p of pixels) {
+        if (p) {
+            data.set(p, next * layerBytes);
+            layers.push(next++);
+        } else {
+            layers.push(-1);
+        }
+    }
+
+    return { texture: createArrayTexture(data, ZONE_TEXTURE_SIZE, loaded.length), layers };
+};
+
+/**
+ * Cache key for a zone list's textures. Zones that only differ in colour or ranges share one set.
+ */
+export const getZoneTextureKey = (zones: MaterialZone[]) =>
+    zones.slice(0, MAX_MATERIAL_ZONES).map(z => z.textureUrl ?? '').join('|');
+
+/**
+ * Loads every zone texture into one array texture, so the shader can pick layers per pixel.
+ * Results are shared between chunks; older sets are disposed once evicted.
+ */
+export const loadZoneTextures = (zones: MaterialZone[]): Promise<ZoneTextureSet> => {
+    const key = getZoneTextureKey(zones);
+    const cached = setCache.get(key);
+    if (cached) return cached;
+
+    const promise = buildSet(zones.slice(0, MAX_MATERIAL_ZONES).map(z => z.textureUrl));
+    setCache.set(key, promise);
+
+    if (setCache.size > MAX_CACHED_SETS) {
+        const [oldKey, oldSet] = setCache.entries().next().value!;
+        setCache.delete(oldKey);
+        oldSet.then(set => {
+            if (set !== EMPTY_ZONE_TEXTURES) set.texture.dispose();
+        });
+    }
+    return promise;
+};
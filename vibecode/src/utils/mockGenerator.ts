@@ -18,6 +18,10 @@ export const generateMockBiome = (): BiomeData => {
             baseColor: '#2d4c1e',
             highColor: '#4a852c',
             waterLevel: 0,
+            liquid: {
+                type: 'water',
+                color: '#2a7f8f'
+            },
             layers: [
                 {
                     name: "Base Hills",
@@ -0,0 +1,167 @@
+import type { NoiseFunction2D, NoiseFunction3D } from 'simplex-noise';
+import type { LayerBlendMode, LayerMask, NoiseLayerType, TerrainLayer } from '../types/biome';
+
+export const NOISE_LAYER_TYPES: NoiseLayerType[] = ['fbm', 'ridged', 'billow', 'terraced', 'domain-warp'];
+export const LAYER_BLEND_MODES: LayerBlendMode[] = ['add', 'multiply', 'max'];
+
+const MAX_OCTAVES = 8;
+// Offsets for the extra warp lookups, so the displacements on each axis aren't correlated
+const WARP_OFFSET_X = 5.2;
+const WARP_OFFSET_Y = 8.7;
+const WARP_OFFSET_Z = 1.3;
+// Fraction of each terrace step that is flat; the rest is the riser
+const TERRACE_FLAT = 0.7;
+
+// A layer with every optional field filled in
+export type ResolvedLayer = Required<Omit<TerrainLayer, 'mask'>> & { mask?: LayerMask };
+
+/**
+ * Fills in defaults. A layer with none of the newer fields resolves to two-octave fbm with
+ * gain 0.5 * roughness, which is exactly the original single-knob formula.
+ */
+export const resolveLayer = (layer: TerrainLayer): ResolvedLayer => ({
+    ...layer,
+    type: layer.type ?? 'fbm',
+    octaves: Math.min(MAX_OCTAVES, Math.max(1, Math.round(layer.octaves ?? 2))),
+    lacunarity: layer.lacunarity ?? 2,
+    gain: layer.gain ?? (layer.roughness > 0 ? 0.5 * layer.roughness : 0),
+    blend: layer.blend ?? 'add',
+    terraceSteps: Math.max(1, Math.round(layer.terraceSteps ?? 6)),
+    warpStrength: layer.warpStrength ?? 1
+});
+
+const identity = (n: number) => n;
+const ridge = (n: number) => {
+    const r = 1 - Math.abs(n);
+    return r * r * 2 - 1;
+};
+const billow = (n: number) => Math.abs(n) * 2 - 1;
+
+const fractal = (noise2D: NoiseFunction2D, layer: ResolvedLayer, nx: number, nz: number, shape: (n: number) => number) => {
+    let sum = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    for (let i = 0; i < layer.octaves; i++) {
+        sum += shape(noise2D(nx * frequency, nz * frequency)) * amplitude;
+        amplitude *= layer.gain;
+        frequency *= layer.lacunarity;
+    }
+    return sum;
+};
+
+const terrace = (value: number, steps: number) => {
+    const t = (value * 0.5 + 0.5) * steps;
+    const step = Math.floor(t);
+    const riser = Math.min(1, Math.max(0, (t - step - TERRACE_FLAT) / (1 - TERRACE_FLAT)));
+    const smooth = riser * riser * (3 - 2 * riser);
+    return ((step + smooth) / steps) * 2 - 1;
+};
+
+/**
+ * Shaped noise value of one layer at a world point, before heightScale (roughly -1 to 1).
+ */
+export const sampleLayer = (noise2D: NoiseFunction2D, layer: ResolvedLayer, x: number, z: number): number => {
+    const nx = (x + layer.offsetX) * layer.noiseScale;
+    const nz = (z + layer.offsetZ) * layer.noiseScale;
+
+    switch (layer.type) {
+        case 'ridged':
+            return fractal(noise2D, layer, nx, nz, ridge);
+        case 'billow':
+            return fractal(noise2D, layer, nx, nz, billow);
+        case 'terraced':
+            return terrace(fractal(noise2D, layer, nx, nz, identity), layer.terraceSteps);
+        case 'domain-warp': {
+            const qx = fractal(noise2D, layer, nx, nz, identity);
+            const qz = fractal(noise2D, layer, nx + WARP_OFFSET_X, nz + WARP_OFFSET_Z, identity);
+            return fractal(noise2D, layer, nx + layer.warpStrength * qx, nz + layer.warpStrength * qz, identity);
+        }
+        default:
+            return fractal(noise2D, layer, nx, nz, identity);
+    }
+};
+
+const fractal3D = (noise3D: NoiseFunction3D, layer: ResolvedLayer, nx: number, ny: number, nz: number, shape: (n: number) => number) => {
+    let sum = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    for (let i = 0; i < layer.octaves; i++) {
+        sum += shape(noise3D(nx * frequency, ny * frequency, nz * frequency)) * amplitude;
+        amplitude *= layer.gain;
+        frequency *= layer.lacunarity;
+    }
+    return sum;
+};
+
+/**
+ * 3D counterpart of sampleLayer, for surfaces that aren't a plane (planets).
+ * Offsets shift X and Z only, matching the flat layout.
+ */
+export const sampleLayer3D = (noise3D: NoiseFunction3D, layer: ResolvedLayer, x: number, y: number, z: number): number => {
+    const nx = (x + layer.offsetX) * layer.noiseScale;
+    const ny = y * layer.noiseScale;
+    const nz = (z + layer.offsetZ) * layer.noiseScale;
+
+    switch (layer.type) {
+        case 'ridged':
+            return fractal3D(noise3D, layer, nx, ny, nz, ridge);
+        case 'billow':
+            return fractal3D(noise3D, layer, nx, ny, nz, billow);
+        case 'terraced':
+            return terrace(fractal3D(noise3D, layer, nx, ny, nz, identity), layer.terraceSteps);
+        case 'domain-warp': {
+            const qx = fractal3D(noise3D, layer, nx, ny, nz, identity);
+            const qy = fractal3D(noise3D, layer, nx + WARP_OFFSET_Y, ny, nz, identity);
+            const qz = fractal3D(noise3D, layer, nx + WARP_OFFSET_X, ny + WARP_OFFSET_Z, nz, identity);
+            const w = layer.warpStrength;
+            return fractal3D(noise3D, layer, nx + w * qx, ny + w * qy, nz + w * qz, identity);
+        }
+        default:
+            return fractal3D(noise3D, layer, nx, ny, nz, identity);
+    }
+};
+
+const getMaskWeight = (mask: LayerMask, value: number) => {
+    const softness = Math.max(1e-4, mask.softness);
+    const t = Math.min(1, Math.max(0, (value - (mask.threshold - softness)) / (2 * softness)));
+    const weight = t * t * (3 - 2 * t);
+    return mask.invert ? 1 - weight : weight;
+};
+
+/**
+ * Combines resolved layers top to bottom at one point. `sample` returns a layer's shaped noise there.
+ * `scratch` must hold at least layers.length values; it receives each layer's shaped noise
+ * so masks can read any other layer regardless of order.
+ */
+export const combineLayers = (layers: ResolvedLayer[], scratch: Float64Array, sample: (layer: ResolvedLayer) => number): number => {
+    for (let i = 0; i < layers.length; i++) {
+        scratch[i] = sample(layers[i]);
+    }
+
+    let total = 0;
+    for (let i = 0; i < layers.length; i++) {
+        const layer = layers[i];
+        const n = scratch[i];
+
+        let next: number;
+        switch (layer.blend) {
+            case 'multiply':
+                // Remapped to 0..heightScale so the layer scales what's below it
+                next = total * (n + 1) * 0.5 * layer.heightScale;
+                break;
+            case 'max':
+                next = Math.max(total, n * layer.heightScale);
+                break;
+            default:
+                next = total + n * layer.heightScale;
+        }
+
+        const { mask } = layer;
+        if (mask && mask.layer !== i && mask.layer >= 0 && mask.layer < layers.length) {
+            total += (next - total) * getMaskWeight(mask, scratch[mask.layer]);
+        } else {
+            total = next;
+        }
+    }
+    return total;
+};
@@ -0,0 +1,127 @@
+import { createNoise3D, type NoiseFunction3D } from 'simplex-noise';
+import { createRandom, type HeightfieldRules } from './heightfield';
+import { combineLayers, resolveLayer, sampleLayer3D, type ResolvedLayer } from './noiseLayers';
+
+export type Vec3 = [number, number, number];
+
+// Cube-sphere faces. Each face's u x v equals its normal, so grids laid out like
+// PlaneGeometry (columns along u, rows from +v to -v) wind outward.
+export const CUBE_FACES: { normal: Vec3; u: Vec3; v: Vec3 }[] = [
+    { normal: [1, 0, 0], u: [0, 0, -1], v: [0, 1, 0] },
+    { normal: [-1, 0, 0], u: [0, 0, 1], v: [0, 1, 0] },
+    { normal: [0, 1, 0], u: [1, 0, 0], v: [0, 0, -1] },
+    { normal: [0, -1, 0], u: [1, 0, 0], v: [0, 0, 1] },
+    { normal: [0, 0, 1], u: [1, 0, 0], v: [0, 1, 0] },
+    { normal: [0, 0, -1], u: [-1, 0, 0], v: [0, 1, 0] }
+];
+
+// Step used for finite-difference normals, in world units along the surface
+const NORMAL_EPSILON = 0.2;
+// Sample points are snapped to this grid (world units). Neighbouring cube faces reach the same shared
+// edge point through different float maths, and 3D simplex noise can jump on differences that small.
+const SAMPLE_QUANTUM = 1e-6;
+
+const snap = (value: number) => Math.round(value / SAMPLE_QUANTUM) * SAMPLE_QUANTUM;
+
+/**
+ * Unit direction from the planet centre through face coordinates (u, v), both in [-1, 1].
+ * The tangent warp spreads cells evenly instead of bunching them at the face centre.
+ */
+export const getFaceDirection = (face: number, u: number, v: number, out: Vec3 = [0, 0, 0]): Vec3 => {
+    const { normal, u: uAxis, v: vAxis } = CUBE_FACES[face];
+    const wu = Math.tan(u * Math.PI / 4);
+    const wv = Math.tan(v * Math.PI / 4);
+    const x = normal[0] + wu * uAxis[0] + wv * vAxis[0];
+    const y = normal[1] + wu * uAxis[1] + wv * vAxis[1];
+    const z = normal[2] + wu * uAxis[2] + wv * vAxis[2];
+    const len = Math.hypot(x, y, z);
+    out[0] = x / len;
+    out[1] = y / len;
+    out[2] = z / len;
+    return out;
+};
+
+/**
+ * Height source for spherical worlds. The same noise layers as Heightfield, sampled with 3D noise
+ * on the sea-level sphere so there is no seam or pole pinching. Erosion is flat-world only.
+ * Directions are unit vectors from the planet centre, which sits at the world origin.
+ */
+export class PlanetHeightfield {
+    readonly rules: HeightfieldRules;
+    readonly radius: number;
+    private noise3D: NoiseFunction3D;
+    private layers: ResolvedLayer[];
+    private layerScratch: Float64Array;
+
+    constructor(rules: HeightfieldRules, radius: number, noise3D: NoiseFunction3D = createNoise3D(createRandom(rules.seed))) {
+        this.rules = rules;
+        this.radius = radius;
+        this.noise3D = noise3D;
+        this.layers = (rules.layers ?? []).map(resolveLayer);
+        this.layerScratch = new Float64Array(this.layers.length);
+    }
+
+    /**
+     * Height above sea-level radius along a unit direction.
+     */
+    getElevation(dx: number, dy: number, dz: number): number {
+        const x = snap(dx * this.radius);
+        const y = snap(dy * this.radius);
+        const z = snap(dz * this.radius);
+        if (this.layers.length > 0) {
+            return combineLayers(this.layers, this.layerScratch, layer => sampleLayer3D(this.noise3D, layer, x, y, z));
+        }
+        // Fallback
+        return this.noise3D(x * 0.02, y * 0.02, z * 0.02) * 5;
+    }
+
+    /**
+     * Distance from the planet centre to the ground along a unit direction.
+     */
+    getSurfaceRadius(dx: number, dy: number, dz: number): number {
+        return this.radius + this.getElevation(dx, dy, dz);
+    }
+
+    /**
+     * Unit surface normal at a unit direction, from central differences across the surface.
+     */
+    getNormal(dx: number, dy: number, dz: number, epsilon = NORMAL_EPSILON): Vec3 {
+        // Tangent basis around the direction
+        const helper: Vec3 = Math.abs(dy) < 0.99 ? [0, 1, 0] : [1, 0, 0];
+        let tx = helper[1] * dz - helper[2] * dy;
+        let ty = helper[2] * dx - helper[0] * dz;
+        let tz = helper[0] * dy - helper[1] * dx;
+        const tLen = Math.hypot(tx, ty, tz);
+        tx /= tLen; ty /= tLen; tz /= tLen;
+        const bx = dy * tz - dz * ty;
+        const by = dz * tx - dx * tz;
+        const bz = dx * ty - dy * tx;
+
+        const angle = epsilon / this.radius;
+        const surfacePoint = (ox: number, oy: number, oz: number): Vec3 => {
+            const x = dx + ox * angle;
+            const y = dy + oy * angle;
+            const z = dz + oz * angle;
+            const len = Math.hypot(x, y, z);
+            const r = this.getSurfaceRadius(x / len, y / len, z / len);
+            return [x / len * r, y / len * r, z / len * r];
+        };
+
+        const pT = surfacePoint(tx, ty, tz);
+        const nT = surfacePoint(-tx, -ty, -tz);
+        const pB = surfacePoint(bx, by, bz);
+        const nB = surfacePoint(-bx, -by, -bz);
+        const ax = pT[0] - nT[0], ay = pT[1] - nT[1], az = pT[2] - nT[2];
+        const cx = pB[0] - nB[0], cy = pB[1] - nB[1], cz = pB[2] - nB[2];
+
+        let nx = ay * cz - az * cy;
+        let ny = az * cx - ax * cz;
+        let nz = ax * cy - ay * cx;
+        // Keep it pointing away from the centre whichever way the basis turned out
+        if (nx * dx + ny * dy + nz * dz < 0) {
+            nx = -nx; ny = -ny; nz = -nz;
+        }
+        const len = Math.hypot(nx, ny, nz);
+        return [nx / len, ny / len, nz / len];
+    }
+}
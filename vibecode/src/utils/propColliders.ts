@@ -0,0 +1,159 @@
+import * as THREE from 'three';
+
+// Spatial hash cell size in world units; about the size of a large prop
+const CELL_SIZE = 16;
+
+/**
+ * A prop's simplified collision shape: an upright cylinder in world space.
+ */
+export interface PropCollider {
+    base: THREE.Vector3; // Centre of the bottom cap
+    axis: THREE.Vector3; // Unit direction from the bottom cap to the top
+    radius: number;
+    height: number;
+}
+
+/**
+ * Cylinder fitted to a prop model, in model space (y up, base at y = 0).
+ */
+export interface PropColliderShape {
+    centerX: number;
+    centerZ: number;
+    radius: number;
+    height: number;
+}
+
+// Only the bottom of the model is fitted, so trees collide at the trunk rather than the canopy
+const COLLIDER_FIT_BAND = 1 / 3;
+const MIN_COLLIDER_RADIUS = 0.1;
+// Vertex budget for fitting; big scans are sampled
+const MAX_FIT_SAMPLES = 50000;
+
+/**
+ * Fits a cylinder to the lower part of a model from its vertices, given as geometry and the
+ * matrix into model space for each mesh. Falls back to the whole footprint if the band is empty.
+ */
+export function fitColliderShape(meshes: { geometry: THREE.BufferGeometry; local: THREE.Matrix4 }[], minY: number, maxY: number): PropColliderShape {
+    const height = maxY - minY;
+    const bandTop = minY + height * COLLIDER_FIT_BAND;
+    const band = new THREE.Box3();
+    const all = new THREE.Box3();
+    const point = new THREE.Vector3();
+
+    const total = meshes.reduce((sum, m) => sum + m.geometry.getAttribute('position').count, 0);
+    const stride = Math.max(1, Math.ceil(total / MAX_FIT_SAMPLES));
+    meshes.forEach(({ geometry, local }) => {
+        const position = geometry.getAttribute('position');
+        for (let i = 0; i < position.count; i += stride) {
+            point.fromBufferAttribute(position, i).applyMatrix4(local);
+            all.expandByPoint(point);
+            if (point.y <= bandTop) band.expandByPoint(point);
+        }
+    });
+
+    const box = band.isEmpty() ? all : band;
+    if (box.isEmpty()) return { centerX: 0, centerZ: 0, radius: MIN_COLLIDER_RADIUS, height };
+    const center = box.getCenter(new THREE.Vector3());
+    const size = box.getSize(new THREE.Vector3());
+    return {
+        centerX: center.x,
+        centerZ: center.z,
+        // Average of the two half-widths: snug on round trunks without sticking out on flat ones
+        radius: Math.max(MIN_COLLIDER_RADIUS, (size.x + size.z) / 4),
+        height
+    };
+}
+
+/**
+ * Colliders of every loaded prop, bucketed by grid cell so the player only tests nearby ones.
+ * Each prop batch adds its colliders when it mounts and removes them when its chunk unloads.
+ */
+class PropColliderHash {
+    private cells = new Map<string, Set<PropCollider>>();
+
+    private forEachCell(min: THREE.Vector3, max: THREE.Vector3, visit: (key: string) => void) {
+        const x0 = Math.floor(min.x / CELL_SIZE), x1 = Math.floor(max.x / CELL_SIZE);
+        const y0 = Math.floor(min.y / CELL_SIZE), y1 = Math.floor(max.y / CELL_SIZE);
+        const z0 = Math.floor(min.z / CELL_SIZE), z1 = Math.floor(max.z / CELL_SIZE);
+        for (let x = x0; x <= x1; x++) {
+            for (let y = y0; y <= y1; y++) {
+                for (let z = z0; z <= z1; z++) visit(`${x},${y},${z}`);
+            }
+        }
+    }
+
+    private bounds(collider: PropCollider) {
+        const top = collider.base.clone().addScaledVector(collider.axis, collider.height);
+        const box = new THREE.Box3().setFromPoints([collider.base, top]);
+        return box.expandByScalar(collider.radius);
+    }
+
+    /**
+     * Registers colliders and returns the function that removes them again.
+     */
+    add(colliders: PropCollider[]): () => void {
+        const entries = colliders.map(collider => {
+            const box = this.bounds(collider);
+            const keys: string[] = [];
+            this.forEachCell(box.min, box.max, key => {
+                let cell = this.cells.get(key);
+                if (!cell) {
+                    cell = new Set();
+                    this.cells.set(key, cell);
+                }
+                cell.add(collider);
+                keys.push(key);
+            });
+            return { collider, keys };
+        });
+
+        return () => entries.forEach(({ collider, keys }) => keys.forEach(key => {
+            const cell = this.cells.get(key);
+            if (!cell) return;
+            cell.delete(collider);
+            if (cell.size === 0) this.cells.delete(key);
+        }));
+    }
+
+    /**
+     * Pushes a standing body out of every prop it overlaps, along the prop's radius only, so a
+     * blocked move keeps its tangential part and slides around the prop.
+     * `position` is the eye, `up` the body's axis; the body reaches `height` below the eye.
+     * Returns whether the position changed.
+     */
+    resolve(position: THREE.Vector3, up: THREE.Vector3, height: number, radius: number): boolean {
+        const feet = position.clone().addScaledVector(up, -height);
+        const query = new THREE.Box3().setFromPoints([position, feet]).expandByScalar(radius);
+
+        const nearby = new Set<PropCollider>();
+        this.forEachCell(query.min, query.max, key => this.cells.get(key)?.forEach(c => nearby.add(c)));
+
+        let moved = false;
+        const offset = new THREE.Vector3();
+        nearby.forEach(collider => {
+            offset.subVectors(position, collider.base);
+            const along = offset.dot(collider.axis);
+            // Eye below the base, or feet above the top: no overlap
+            if (along < 0 || along - height > collider.height) return;
+
+            offset.addScaledVector(collider.axis, -along);
+            const distance = offset.length();
+            const reach = collider.radius + radius;
+            if (distance >= reach) return;
+
+            if (distance < 1e-6) {
+                // Dead centre: any direction across the axis will do
+                offset.set(1, 0, 0).addScaledVector(collider.axis, -collider.axis.x);
+                if (offset.lengthSq() < 1e-6) offset.set(0, 0, 1);
+                offset.normalize();
+            } else {
+                offset.divideScalar(distance);
+            }
+            position.addScaledVector(offset, reach - distance);
+            moved = true;
+        });
+        return moved;
+    }
+}
+
+export const propColliders = new PropColliderHash();
@@ -0,0 +1,204 @@
+import * as THREE from 'three';
+
+// Distance from the camera to a prop chunk's nearest edge at which each tier hands over to the next:
+// full model, first decimation, second decimation, then the impostor billboard
+export const PROP_TIER_DISTANCES = [30, 80, 150];
+export const IMPOSTOR_TIER = PROP_TIER_DISTANCES.length;
+// A tier only changes once the distance is this far past its threshold, so chunks on a boundary don't flicker
+const PROP_TIER_HYSTERESIS = 8;
+// Vertex-clustering grid for each decimated tier, in cells across the model's largest dimension
+export const DECIMATION_CELLS = [48, 20];
+// A decimation that keeps more triangles than this isn't worth a separate tier
+const MIN_DECIMATION_GAIN = 0.9;
+// Impostor atlas: one square tile per view
+export const IMPOSTOR_TILE_SIZE = 256;
+
+export interface PropPart {
+    geometry: THREE.BufferGeometry;
+    material: THREE.Material | THREE.Material[];
+    local: THREE.Matrix4; // Mesh transform in the prop's model space
+}
+
+/**
+ * Extent of a prop around its pivot, which the impostor views are framed to.
+ */
+export interface ImpostorBounds {
+    radius: number; // Largest horizontal distance from the pivot on either axis
+    minY: number;
+    maxY: number;
+}
+
+/**
+ * Steps the current tier toward the one for `distance`, holding it within the hysteresis margin.
+ */
+export function selectPropTier(distance: number, current: number): number {
+    let tier = current;
+    while (tier > 0 && distance < PROP_TIER_DISTANCES[tier - 1] - PROP_TIER_HYSTERESIS) tier--;
+    while (tier < IMPOSTOR_TIER && distance > PROP_TIER_DISTANCES[tier] + PROP_TIER_HYSTERESIS) tier++;
+    return tier;
+}
+
+/**
+ * Vertex-clustering decimation: vertices sharing a grid cell collapse onto the first one found,
+ * which keeps its UV and normal, and triangles that collapse are dropped. Material groups are kept.
+ * Returns null when the grid is too fine to remove a useful share of the triangles.
+ */
+export function decimateGeometry(geometry: THREE.BufferGeometry, cellSize: number): THREE.BufferGeometry | null {
+    const position = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const vertexAt = (i: number) => index ? index.getX(i) : i;
+    const total = index ? index.count : position.count;
+
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    const min = geometry.boundingBox!.min;
+    const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+    const cellsX = Math.floor(size.x / cellSize) + 1;
+    const cellsY = Math.floor(size.y / cellSize) + 1;
+
+    const cells = new Map<number, number>();
+    const representatives: number[] = [];
+    const remap = new Int32Array(position.count);
+    for (let v = 0; v < position.count; v++) {
+        const cx = Math.floor((position.getX(v) - min.x) / cellSize);
+        const cy = Math.floor((position.getY(v) - min.y) / cellSize);
+        const cz = Math.floor((position.getZ(v) - min.z) / cellSize);
+        const key = cx + cellsX * (cy + cellsY * cz);
+        let target = cells.get(key);
+        if (target === undefined) {
+            target = representatives.length;
+            representatives.push(v);
+            cells.set(key, target);
+        }
+        remap[v] = target;
+    }
+
+    const ranges = geometry.groups.length > 0
+        ? geometry.groups
+        : [{ start: 0, count: total, materialIndex: 0 }];
+    const indices: number[] = [];
+    const groups: { start: number; count: number; materialIndex: number }[] = [];
+    ranges.forEach(range => {
+        const start = indices.length;
+        const end = Math.min(total, range.start + range.count);
+        for (let i = range.start; i + 2 < end; i += 3) {
+            const a = remap[vertexAt(i)];
+            const b = remap[vertexAt(i + 1)];
+            const c = remap[vertexAt(i + 2)];
+            if (a === b || b === c || a === c) continue;
+            indices.push(a, b, c);
+        }
+        groups.push({ start, count: indices.length - start, materialIndex: range.materialIndex ?? 0 });
+    });
+
+    if (indices.length === 0 || indices.length > total * MIN_DECIMATION_GAIN) return null;
+
+    const result = new THREE.BufferGeometry();
+    for (const name of Object.keys(geometry.attributes)) {
+        const source = geometry.getAttribute(name);
+        const itemSize = source.itemSize;
+        const array = new Float32Array(representatives.length * itemSize);
+        representatives.forEach((v, n) => {
+            // getX/Y/Z/W undo normalisation, so every attribute can be stored as plain floats
+            array[n * itemSize] = source.getX(v);
+            if (itemSize > 1) array[n * itemSize + 1] = source.getY(v);
+            if (itemSize > 2) array[n * itemSize + 2] = source.getZ(v);
+            if (itemSize > 3) array[n * itemSize + 3] = source.getW(v);
+        });
+        result.setAttribute(name, new THREE.BufferAttribute(array, itemSize));
+    }
+    result.setIndex(indices);
+    if (geometry.groups.length > 0) {
+        groups.forEach(g => result.addGroup(g.start, g.count, g.materialIndex));
+    }
+    result.computeBoundingSphere();
+    return result;
+}
+
+/**
+ * Two crossed quads through the pivot, textured with the front and side views of the atlas.
+ * Normals point straight up so the billboard is lit like the ground around it rather than going
+ * dark when a quad faces away from the sun.
+ */
+export function createImpostorGeometry(bounds: ImpostorBounds): THREE.BufferGeometry {
+    const { radius: r, minY, maxY } = bounds;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+        // Front view, in the XY plane
+        -r, minY, 0, r, minY, 0, r, maxY, 0, -r, maxY, 0,
+        // Side view, in the ZY plane; seen from +X, screen right is -Z
+        0, minY, r, 0, minY, -r, 0, maxY, -r, 0, maxY, r
+    ], 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute([
+        0, 0, 0.5, 0, 0.5, 1, 0, 1,
+        0.5, 0, 1, 0, 1, 1, 0.5, 1
+    ], 2));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(new Array(8).fill([0, 1, 0]).flat(), 3));
+    geometry.setIndex([0, 1, 2, 0, 2, 3, 4, 5, 6, 4, 6, 7]);
+    geometry.computeBoundingSphere();
+    return geometry;
+}
+
+/**
+ * Renders the unlit front and side views of a prop into an RGBA atlas (two tiles, rows bottom-up)
+ * and reads it back, so it can be cached and rebuilt as a texture without the renderer.
+ */
+export function renderImpostorPixels(renderer: THREE.WebGLRenderer, parts: PropPart[], bounds: ImpostorBounds): Uint8Array {
+    const { radius, minY, maxY } = bounds;
+    const size = IMPOSTOR_TILE_SIZE;
+
+    // Base colour only; the billboard material adds the scene's lighting back
+    const materials: THREE.Material[] = [];
+    const unlit = (material: THREE.Material) => {
+        const source = material as THREE.MeshStandardMaterial;
+        const basic = new THREE.MeshBasicMaterial({
+            map: source.map ?? null,
+            color: source.color ?? new THREE.Color('#ffffff'),
+            vertexColors: source.vertexColors,
+            alphaTest: source.alphaTest,
+            side: THREE.DoubleSide
+        });
+        materials.push(basic);
+        return basic;
+    };
+
+    const scene = new THREE.Scene();
+    parts.forEach(part => {
+        const material = Array.isArray(part.material) ? part.material.map(unlit) : unlit(part.material);
+        const mesh = new THREE.Mesh(part.geometry, material);
+        mesh.matrixAutoUpdate = false;
+        mesh.matrix.copy(part.local);
+        scene.add(mesh);
+    });
+
+    const distance = radius + 1;
+    const front = new THREE.OrthographicCamera(-radius, radius, maxY, minY, 0.01, distance * 2);
+    front.position.set(0, 0, distance);
+    const side = new THREE.OrthographicCamera(-radius, radius, maxY, minY, 0.01, distance * 2);
+    side.position.set(distance, 0, 0);
+    side.rotation.y = Math.PI / 2;
+
+    const target = new THREE.WebGLRenderTarget(size * 2, size);
+    target.scissorTest = true;
+    const previousTarget = renderer.getRenderTarget();
+    const previousClearColor = renderer.getClearColor(new THREE.Color());
+    const previousClearAlpha = renderer.getClearAlpha();
+    renderer.setClearColor(0x000000, 0);
+
+    [front, side].forEach((camera, tile) => {
+        camera.updateMatrixWorld();
+        target.viewport.set(tile * size, 0, size, size);
+        target.scissor.set(tile * size, 0, size, size);
+        renderer.setRenderTarget(target);
+        renderer.clear();
+        renderer.render(scene, camera);
+    });
+
+    const pixels = new Uint8Array(size * 2 * size * 4);
+    renderer.readRenderTargetPixels(target, 0, 0, size * 2, size, pixels);
+
+    renderer.setRenderTarget(previousTarget);
+    renderer.setClearColor(previousClearColor, previousClearAlpha);
+    target.dispose();
+    materials.forEach(m => m.dispose());
+    return pixels;
+}
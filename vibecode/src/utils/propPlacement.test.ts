@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { PropDefinition } from '../types/biome';
+import { Heightfield } from './heightfield';
+import { placeChunkProps, type PlacementChunk } from './propPlacement';
+
+const CHUNK_SIZE = 100;
+
+const prop = (name: string, density: number, placement: PropDefinition['placement']): PropDefinition => ({
+    id: name, name, prompt: name, density, baseScale: 1, placement
+});
+
+// Dense enough that spacing decides a lot of the placements, on both sides of every border
+const PROPS = [
+    prop('Boulder', 1, { clusterSize: 4, clusterRadius: 10, spacing: 8 }),
+    prop('Tree', 1, { spacing: 6 }),
+    prop('Fern', 1, {})
+];
+
+const field = new Heightfield({ layers: [{ name: 'Hills', noiseScale: 0.01, heightScale: 10, roughness: 0.5, offsetX: 0, offsetZ: 0 }], seed: 5 });
+
+const chunkAt = (cx: number, cz: number): PlacementChunk => ({
+    seedFor: propIndex => 1234 + propIndex * 1000 + cx * 31 + cz * 17,
+    surface: {
+        waterLevel: -1000,
+        getSite: (x, z) => ({ height: field.getHeight(cx * CHUNK_SIZE + x, cz * CHUNK_SIZE + z), slope: 0, normal: [0, 1, 0] }),
+        getHeight: (x, z) => field.getHeight(cx * CHUNK_SIZE + x, cz * CHUNK_SIZE + z)
+    }
+});
+
+// Every prop of a 3x3 block of chunks, in world units
+const placeBlock = () => {
+    const all: { x: number; z: number; propIndex: number }[] = [];
+    for (let cx = -1; cx <= 1; cx++) {
+        for (let cz = -1; cz <= 1; cz++) {
+            const { seedFor, surface } = chunkAt(cx, cz);
+            placeChunkProps(PROPS, seedFor, CHUNK_SIZE, surface, (dx, dz) => chunkAt(cx + dx, cz + dz)).forEach((list, propIndex) => {
+                list.forEach(p => all.push({ x: cx * CHUNK_SIZE + p.x, z: cz * CHUNK_SIZE + p.z, propIndex }));
+            });
+        }
+    }
+    return all;
+};
+
+describe('placeChunkProps', () => {
+    it('keeps spacing between prop types across chunk borders', () => {
+        const all = placeBlock();
+        const spacing = (propIndex: number) => PROPS[propIndex].placement?.spacing ?? 0;
+        const crowded = all.filter((a, i) => all.some((b, j) => j > i && a.propIndex !== b.propIndex
+            && Math.hypot(a.x - b.x, a.z - b.z) < Math.max(spacing(a.propIndex), spacing(b.propIndex))));
+        expect(crowded).toEqual([]);
+    });
+
+    it('still places spaced props near chunk edges', () => {
+        const nearEdge = placeBlock().filter(p => {
+            const localX = Math.abs(p.x - Math.round(p.x / CHUNK_SIZE) * CHUNK_SIZE);
+            const localZ = Math.abs(p.z - Math.round(p.z / CHUNK_SIZE) * CHUNK_SIZE);
+            return p.propIndex < 2 && Math.max(localX, localZ) > CHUNK_SIZE / 2 - 6;
+        });
+        expect(nearEdge.length).toBeGreaterThan(0);
+    });
+
+    it('gives the same result without neighbours when no prop has spacing', () => {
+        const unspaced = PROPS.map(p => ({ ...p, placement: { ...p.placement, spacing: undefined } }));
+        const { seedFor, surface } = chunkAt(0, 0);
+        expect(placeChunkProps(unspaced, seedFor, CHUNK_SIZE, surface, (dx, dz) => chunkAt(dx, dz)))
+            .toEqual(placeChunkProps(unspaced, seedFor, CHUNK_SIZE, surface));
+    });
+});
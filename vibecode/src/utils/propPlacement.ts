@@ -0,0 +1,210 @@
+import type { PropDefinition, PropPlacementRules } from '../types/biome';
+
+// Simple deterministic pseudo-random generator
+export const seededRandom = (seed: number) => {
+    const x = Math.sin(seed++) * 10000;
+    return x - Math.floor(x);
+};
+
+export function hashString(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+        hash = (hash << 5) - hash + str.charCodeAt(i);
+        hash |= 0;
+    }
+    return Math.abs(hash);
+}
+
+const PLACEMENT_RULE_KEYS: (keyof PropPlacementRules)[] = [
+    'minHeight', 'maxHeight', 'maxSlope', 'waterDistance', 'waterFalloff', 'clusterSize', 'clusterRadius', 'spacing'
+];
+
+/**
+ * Keeps only the placement rules that were actually set, as numbers, from AI output or a saved biome.
+ */
+export function sanitizePlacementRules(raw: unknown): PropPlacementRules | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const source = raw as Record<string, unknown>;
+    const rules: PropPlacementRules = {};
+    PLACEMENT_RULE_KEYS.forEach(key => {
+        const value = source[key];
+        if (value !== null && value !== undefined && Number.isFinite(Number(value))) rules[key] = Number(value);
+    });
+    return Object.keys(rules).length > 0 ? rules : undefined;
+}
+
+// Clump radius when a prop asks for clusters but gives none
+const DEFAULT_CLUSTER_RADIUS = 6;
+// Shore search: rings at doubling radii out to the limit, eight samples each
+const WATER_SEARCH_START = 2;
+const WATER_SEARCH_RADIUS = 64;
+const WATER_SEARCH_DIRECTIONS = 8;
+// Narrowest spread around a preferred water distance, so a preference of 0 still reaches a little inland
+const MIN_WATER_FALLOFF = 4;
+
+export interface PlacementSite {
+    height: number; // Ground height on flat worlds, elevation above the sea-level sphere on planets
+    slope: number; // Degrees from horizontal
+    normal: [number, number, number]; // Surface normal in world space
+}
+
+/**
+ * The ground a chunk's props are placed on, addressed in chunk-local units
+ * (x and z from -chunkSize / 2 to chunkSize / 2, reaching past the edges for the shore search).
+ */
+export interface PlacementSurface {
+    waterLevel: number;
+    getSite(x: number, z: number): PlacementSite;
+    getHeight(x: number, z: number): number;
+}
+
+export interface PlacedProp {
+    x: number;
+    z: number;
+    site: PlacementSite;
+    seed: number;
+}
+
+/**
+ * Rough distance to the nearest ground at or below the liquid, or Infinity past the search radius.
+ */
+export function findWaterDistance(surface: PlacementSurface, x: number, z: number): number {
+    for (let r = WATER_SEARCH_START; r <= WATER_SEARCH_RADIUS; r *= 2) {
+        for (let i = 0; i < WATER_SEARCH_DIRECTIONS; i++) {
+            const angle = (i / WATER_SEARCH_DIRECTIONS) * Math.PI * 2;
+            if (surface.getHeight(x + Math.cos(angle) * r, z + Math.sin(angle) * r) <= surface.waterLevel) return r;
+        }
+    }
+    return Infinity;
+}
+
+/**
+ * One chunk's inputs to placement: the seed sequence of each prop type and the ground.
+ */
+export interface PlacementChunk {
+    seedFor: (propIndex: number) => number;
+    surface: PlacementSurface;
+}
+
+interface Claim {
+    x: number;
+    z: number;
+    propIndex: number;
+    spacing: number;
+}
+
+// Placement within one chunk alone. `near` skips candidates outside the area of interest before
+// their site is sampled; those never claim space.
+function placeWithinChunk(
+    props: PropDefinition[],
+    seedFor: (propIndex: number) => number,
+    chunkSize: number,
+    surface: PlacementSurface,
+    near?: (x: number, z: number) => boolean
+): PlacedProp[][] {
+    const half = chunkSize / 2;
+    // Everything placed so far, for spacing between types
+    const claimed: Claim[] = [];
+
+    return props.map((prop, propIndex) => {
+        const rules = prop.placement ?? {};
+        const count = Math.floor(prop.density * 20);
+        const clusterSize = Math.max(1, Math.round(rules.clusterSize ?? 1));
+        const clusterRadius = rules.clusterRadius ?? DEFAULT_CLUSTER_RADIUS;
+        const spacing = rules.spacing ?? 0;
+        const placed: PlacedProp[] = [];
+
+        let seedValue = seedFor(propIndex);
+        let clumpX = 0;
+        let clumpZ = 0;
+        for (let n = 0; n < count; n++) {
+            const innerSeed = seedValue++;
+            let x: number;
+            let z: number;
+            if (clusterSize > 1) {
+                if (n % clusterSize === 0) {
+                    clumpX = (seededRandom(innerSeed + 200) - 0.5) * chunkSize;
+                    clumpZ = (seededRandom(innerSeed + 300) - 0.5) * chunkSize;
+                }
+                // sqrt keeps the clump evenly filled rather than bunched at its centre
+                const angle = seededRandom(innerSeed) * Math.PI * 2;
+                const r = clusterRadius * Math.sqrt(seededRandom(innerSeed + 100));
+                x = clumpX + Math.cos(angle) * r;
+                z = clumpZ + Math.sin(angle) * r;
+                // Clumps are clipped at the chunk edge so neighbouring chunks never place the same prop
+                if (Math.abs(x) > half || Math.abs(z) > half) continue;
+            } else {
+                x = (seededRandom(innerSeed) - 0.5) * chunkSize;
+                z = (seededRandom(innerSeed + 100) - 0.5) * chunkSize;
+            }
+            if (near && !near(x, z)) continue;
+
+            const site = surface.getSite(x, z);
+            if (site.height <= surface.waterLevel) continue;
+            if (rules.minHeight !== undefined && site.height < rules.minHeight) continue;
+            if (rules.maxHeight !== undefined && site.height > rules.maxHeight) continue;
+            if (rules.maxSlope !== undefined && site.slope > rules.maxSlope) continue;
+
+            if (rules.waterDistance !== undefined) {
+                const falloff = Math.max(MIN_WATER_FALLOFF, rules.waterFalloff ?? rules.waterDistance / 2);
+                const t = (findWaterDistance(surface, x, z) - rules.waterDistance) / falloff;
+                if (seededRandom(innerSeed + 400) > Math.exp(-t * t)) continue;
+            }
+
+            const crowded = claimed.some(c => c.propIndex !== propIndex
+                && Math.hypot(c.x - x, c.z - z) < Math.max(spacing, c.spacing));
+            if (crowded) continue;
+
+            placed.push({ x, z, site, seed: innerSeed });
+            claimed.push({ x, z, propIndex, spacing });
+        }
+        return placed;
+    });
+}
+
+/**
+ * Places every prop type in one chunk, returning one list per entry of `props`.
+ * Each type gets floor(density * 20) candidates, scattered or clumped, from its own seed sequence;
+ * candidates its placement rules reject are dropped rather than retried, so the result only
+ * depends on the chunk, the seeds and the terrain.
+ * Spacing also holds across chunk borders when `neighbourAt` gives the chunk one over in each
+ * direction (dx and dz from -1 to 1), or null where there is none to check. The strip of each
+ * neighbour near this chunk is placed the same way, and a prop within spacing of a neighbour's prop
+ * of an earlier type is dropped, just as it would be within the chunk. Both chunks reach the same
+ * verdict, so nothing is left overlapping whichever side renders first.
+ */
+export function placeChunkProps(
+    props: PropDefinition[],
+    seedFor: (propIndex: number) => number,
+    chunkSize: number,
+    surface: PlacementSurface,
+    neighbourAt?: (dx: number, dz: number) => PlacementChunk | null
+): PlacedProp[][] {
+    const placed = placeWithinChunk(props, seedFor, chunkSize, surface);
+    const spacings = props.map(prop => prop.placement?.spacing ?? 0);
+    const maxSpacing = Math.max(0, ...spacings);
+    if (!neighbourAt || maxSpacing <= 0) return placed;
+
+    // A neighbour's prop only matters within maxSpacing of this chunk, but whether it was placed
+    // depends on earlier types within maxSpacing of it, and so on, one step per type at most
+    const half = chunkSize / 2;
+    const reach = half + maxSpacing * props.length;
+    const foreign: Claim[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+        for (let dz = -1; dz <= 1; dz++) {
+            const neighbour = (dx !== 0 || dz !== 0) ? neighbourAt(dx, dz) : null;
+            if (!neighbour) continue;
+            const offsetX = dx * chunkSize;
+            const offsetZ = dz * chunkSize;
+            const near = (x: number, z: number) => Math.abs(x + offsetX) < reach && Math.abs(z + offsetZ) < reach;
+            placeWithinChunk(props, neighbour.seedFor, chunkSize, neighbour.surface, near).forEach((list, propIndex) => {
+                list.forEach(p => foreign.push({ x: p.x + offsetX, z: p.z + offsetZ, propIndex, spacing: spacings[propIndex] }));
+            });
+        }
+    }
+
+    // Earlier types claim space first, as within a chunk. A prop dropped here may have been the one
+    // crowding out another; leaving that gap is what keeps both chunks in agreement.
+    return placed.map((list, propIndex) => list.filter(p => !foreign.some(c => c.propIndex < propIndex
+        && Math.hypot(c.x - p.x, c.z - p.z) < Math.max(spacings[propIndex], c.spacing))));
+}
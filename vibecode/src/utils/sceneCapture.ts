@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+
+// Preview shots of the live scene for gallery cards. Each shot is rendered straight into the
+// canvas and copied out in the same task, before the browser presents (and clears) the frame.
+
+export const THUMBNAIL_WIDTH = 480;
+export const THUMBNAIL_HEIGHT = 270;
+
+// Flat worlds are shot from this far above the player, planets from this many radii out
+const OVERVIEW_HEIGHT = 180;
+const PLANET_OVERVIEW_DISTANCE = 2.6;
+// The orbit circles a point this far ahead of the camera
+const ORBIT_DISTANCE = 30;
+const ORBIT_FRAMES = 24;
+const ORBIT_FRAME_MS = 80;
+const WEBP_QUALITY = 0.8;
+
+export interface SceneShots {
+    hero: Blob; // From the current camera
+    overview: Blob; // Top-down, or the whole globe on planets
+    orbit: Blob | null; // Looping animated WebP; null where the browser can't encode WebP
+}
+
+export interface SceneCaptureTarget {
+    gl: THREE.WebGLRenderer;
+    scene: THREE.Scene;
+    camera: THREE.Camera;
+    planetRadius?: number;
+}
+
+const createFrame = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = THUMBNAIL_HEIGHT;
+    return canvas;
+};
+
+// Renders one view and copies it into a thumbnail-sized canvas, cropped to the thumbnail's aspect
+const renderShot = ({ gl, scene }: SceneCaptureTarget, camera: THREE.Camera, frame = createFrame()) => {
+    gl.render(scene, camera);
+    const source = gl.domElement;
+    const scale = Math.min(source.width / frame.width, source.height / frame.height);
+    const width = frame.width * scale;
+    const height = frame.height * scale;
+    frame.getContext('2d')!.drawImage(source, (source.width - width) / 2, (source.height - height) / 2, width, height, 0, 0, frame.width, frame.height);
+    return frame;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string) => new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the thumbnail')), type, WEBP_QUALITY);
+});
+
+const overviewCamera = (target: SceneCaptureTarget, camera: THREE.PerspectiveCamera) => {
+    const position = target.camera.getWorldPosition(new THREE.Vector3());
+    if (target.planetRadius !== undefined) {
+        const outward = position.lengthSq() > 0 ? position.clone().normalize() : new THREE.Vector3(0, 1, 0);
+        camera.position.copy(outward).multiplyScalar(target.planetRadius * PLANET_OVERVIEW_DISTANCE);
+        // Any up works except the view direction itself
+        if (Math.abs(outward.y) > 0.999) camera.up.set(0, 0, -1);
+        else camera.up.set(0, 1, 0);
+        camera.lookAt(0, 0, 0);
+    } else {
+        camera.position.set(position.x, Math.max(position.y, 0) + OVERVIEW_HEIGHT, position.z);
+        // Looking straight down, so "up" on the image is north
+        camera.up.set(0, 0, -1);
+        camera.lookAt(position.x, 0, position.z);
+    }
+    camera.updateMatrixWorld();
+    return camera;
+};
+
+// Frames circling a point ahead of the camera, around the local up (radial on planets)
+const renderOrbit = (target: SceneCaptureTarget, camera: THREE.PerspectiveCamera) => {
+    const start = target.camera.getWorldPosition(new THREE.Vector3());
+    const up = target.planetRadius !== undefined ? start.clone().normalize() : new THREE.Vector3(0, 1, 0);
+    const forward = target.camera.getWorldDirection(new THREE.Vector3()).projectOnPlane(up);
+    if (forward.lengthSq() < 1e-6) forward.set(1, 0, 0).projectOnPlane(up);
+    forward.normalize();
+    const focus = start.clone().addScaledVector(forward, ORBIT_DISTANCE);
+    const offset = start.clone().sub(focus);
+    const rotation = new THREE.Quaternion();
+
+    camera.up.copy(up);
+    return Array.from({ length: ORBIT_FRAMES }, (_, i) => {
+        rotation.setFromAxisAngle(up, (i / ORBIT_FRAMES) * Math.PI * 2);
+        camera.position.copy(focus).add(offset.clone().applyQuaternion(rotation));
+        camera.lookAt(focus);
+        camera.updateMatrixWorld();
+        return renderShot(target, camera);
+    });
+};
+
+/**
+ * Renders the gallery previews of the scene as it is now. The scene is redrawn normally on the
+ * next frame.
+ */
+export async function captureSceneShots(target: SceneCaptureTarget): Promise<SceneShots> {
+    const { scene } = target;
+    const camera = (target.camera as THREE.PerspectiveCamera).clone();
+
+    const heroFrame = renderShot(target, target.camera);
+    // Fog would hide the ground from overview height
+    const fog = scene.fog;
+    scene.fog = null;
+    let overviewFrame: HTMLCanvasElement;
+    try {
+        overviewFrame = renderShot(target, overviewCamera(target, camera));
+    } finally {
+        scene.fog = fog;
+    }
+    const orbitFrames = renderOrbit(target, camera);
+
+    const hero = await toBlob(heroFrame, 'image/webp');
+    const overview = await toBlob(overviewFrame, 'image/webp');
+    // Browsers without a WebP encoder hand back PNG, which can't be animated this way
+    const orbitStills = hero.type === 'image/webp' ? await Promise.all(orbitFrames.map(frame => toBlob(frame, 'image/webp'))) : [];
+    const orbit = orbitStills.length > 0 ? await encodeAnimatedWebP(orbitStills, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, ORBIT_FRAME_MS) : null;
+    return { hero, overview, orbit };
+}
+
+// --- Animated WebP ---
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const writeUint24 = (view: DataView, offset: number, value: number) => {
+    view.setUint16(offset, value & 0xffff, true);
+    view.setUint8(offset + 2, value >> 16);
+};
+
+const chunk = (type: string, payload: Uint8Array) => {
+    const padded = payload.length + (payload.length % 2);
+    const bytes = new Uint8Array(8 + padded);
+    bytes.set([...type].map(c => c.charCodeAt(0)), 0);
+    new DataView(bytes.buffer).setUint32(4, payload.length, true);
+    bytes.set(payload, 8);
+    return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((offset, part) => {
+        bytes.set(part, offset);
+        return offset + part.length;
+    }, 0);
+    return bytes;
+};
+
+// The image chunks of a still WebP (ALPH, VP8, VP8L), complete with their headers
+const imageChunks = (bytes: Uint8Array) => {
+    if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') throw new Error('Not a WebP image');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Uint8Array[] = [];
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const type = fourCC(bytes, offset);
+        const end = offset + 8 + view.getUint32(offset + 4, true);
+        if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') chunks.push(bytes.slice(offset, end + (end % 2)));
+        offset = end + (end % 2);
+    }
+    return chunks;
+};
+
+/**
+ * Muxes still WebP frames of the same size into a looping animated WebP (VP8X + ANIM + ANMF).
+ */
+async function encodeAnimatedWebP(frames: Blob[], width: number, height: number, frameMs: number): Promise<Blob> {
+    const stills = await Promise.all(frames.map(async frame => imageChunks(new Uint8Array(await frame.arrayBuffer()))));
+    const hasAlpha = stills.some(parts => parts.some(part => fourCC(part, 0) !== 'VP8 '));
+
+    const vp8x = new Uint8Array(10);
+    const vp8xView = new DataView(vp8x.buffer);
+    vp8xView.setUint8(0, 0x02 | (hasAlpha ? 0x10 : 0)); // Animation, alpha
+    writeUint24(vp8xView, 4, width - 1);
+    writeUint24(vp8xView, 7, height - 1);
+
+    const anim = new Uint8Array(6); // Transparent background, loop forever
+
+    const anmf = stills.map(parts => {
+        const header = new Uint8Array(16);
+        const view = new DataView(header.buffer);
+        writeUint24(view, 6, width - 1); // Bytes 0-5: frame offset 0, 0
+        writeUint24(view, 9, height - 1);
+        writeUint24(view, 12, frameMs);
+        view.setUint8(15, 0x02); // Don't blend with the previous frame
+        return chunk('ANMF', concat([header, ...parts]));
+    });
+
+    const body = concat([new TextEncoder().encode('WEBP'), chunk('VP8X', vp8x), chunk('ANIM', anim), ...anmf]);
+    const riff = new Uint8Array(8);
+    riff.set(new TextEncoder().encode('RIFF'), 0);
+    new DataView(riff.buffer).setUint32(4, body.length, true);
+    return new Blob([riff, body], { type: 'image/webp' });
+}
@@ -0,0 +1,13 @@
+// Resolves after `ms`, or rejects as soon as `signal` aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Cancelled"));
+    const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error("Cancelled"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+});
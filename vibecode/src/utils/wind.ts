@@ -0,0 +1,85 @@
+import * as THREE from 'three';
+
+// Sway strength with clear skies, so plants never freeze completely
+const CALM_WIND_STRENGTH = 0.15;
+const MAX_WIND_STRENGTH = 1.5;
+// How far the top of a fully flexible prop leans at strength 1, as a share of its height
+const SWAY_AMOUNT = 0.15;
+// The wind direction wanders this far (radians) either side of its heading, this fast
+const WIND_WANDER = 0.6;
+const WIND_WANDER_SPEED = 0.05;
+const WIND_HEADING = 0.4;
+
+/**
+ * Wind shared by every swaying material; Weather updates it once per frame.
+ */
+export const windUniforms = {
+    uWindDirection: { value: new THREE.Vector3(Math.cos(WIND_HEADING), 0, Math.sin(WIND_HEADING)) },
+    uWindStrength: { value: CALM_WIND_STRENGTH },
+    uWindTime: { value: 0 }
+};
+
+/**
+ * Sets the global wind from the current weather. `intensity` is the weather's eased intensity
+ * (0 while it's clear) and `speed` its WeatherParams.speed.
+ */
+export function updateWind(intensity: number, speed: number, time: number) {
+    const heading = WIND_HEADING + Math.sin(time * WIND_WANDER_SPEED) * WIND_WANDER;
+    windUniforms.uWindDirection.value.set(Math.cos(heading), 0, Math.sin(heading));
+    windUniforms.uWindStrength.value = Math.min(MAX_WIND_STRENGTH, CALM_WIND_STRENGTH + intensity * speed * 0.3);
+    windUniforms.uWindTime.value = time;
+}
+
+const windVertexUniforms = /* glsl */ `
+    uniform vec3 uWindDirection;
+    uniform float uWindStrength;
+    uniform float uWindTime;
+    uniform float uWindFlexibility;
+    uniform float uWindModelHeight;
+    uniform mat4 uWindLocal;
+    uniform mat3 uWindLocalInverse;
+`;
+
+// Bends the model away from the wind by the square of its height above the base, with gusts that
+// roll across the landscape and a faster flutter desynchronised per instance.
+// Runs in geometry space so lighting, shadows and fog all see the swayed vertex.
+const windVertexSway = /* glsl */ `
+    #include <begin_vertex>
+    #ifdef USE_INSTANCING
+    {
+        mat3 windInstance = mat3(instanceMatrix);
+        vec3 windBase = instanceMatrix[3].xyz;
+        float windHeight = clamp((uWindLocal * vec4(transformed, 1.0)).y / uWindModelHeight, 0.0, 1.0);
+
+        float gustPhase = dot(windBase.xz, uWindDirection.xz) * 0.04 - uWindTime * 1.3;
+        float gust = 0.6 + 0.4 * sin(gustPhase) * sin(gustPhase * 0.37 + 1.7);
+        float flutter = 0.15 * sin(uWindTime * 3.1 + windBase.x * 0.7 + windBase.z * 0.3);
+        float bend = windHeight * windHeight * uWindStrength * uWindFlexibility * (gust + flutter);
+
+        // Placement scale, with the mesh's own node transform divided back out
+        float windScale = length(windInstance * (uWindLocalInverse * vec3(0.0, 1.0, 0.0)));
+        vec3 windOffset = uWindDirection * bend * ${SWAY_AMOUNT.toFixed(2)} * uWindModelHeight * windScale;
+        transformed += inverse(windInstance) * windOffset;
+    }
+    #endif
+`;
+
+/**
+ * Copy of `material` whose vertices sway in the global wind. `modelHeight` is the prop's height in
+ * model space, `local` the mesh's transform into model space, and `flexibility` 0 (still) to 1.
+ */
+export function createWindMaterial<T extends THREE.Material>(material: T, modelHeight: number, local: THREE.Matrix4, flexibility: number): T {
+    const swaying = material.clone() as T;
+    const localInverse = new THREE.Matrix3().setFromMatrix4(local).invert();
+    swaying.onBeforeCompile = (shader) => {
+        shader.uniforms.uWindDirection = windUniforms.uWindDirection;
+        shader.uniforms.uWindStrength = windUniforms.uWindStrength;
+        shader.uniforms.uWindTime = windUniforms.uWindTime;
+        shader.uniforms.uWindFlexibility = { value: flexibility };
+        shader.uniforms.uWindModelHeight = { value: Math.max(modelHeight, 1e-3) };
+        shader.uniforms.uWindLocal = { value: local };
+        shader.uniforms.uWindLocalInverse = { value: localInverse };
+        shader.vertexShader = windVertexUniforms + shader.vertexShader.replace('#include <begin_vertex>', windVertexSway);
+    };
+    return swaying;
+}
@@ -0,0 +1,55 @@
+import { createNoise2D, createNoise3D, type NoiseFunction2D, type NoiseFunction3D } from 'simplex-noise';
+import { createRandom, Heightfield } from '../utils/heightfield';
+import { PlanetHeightfield } from '../utils/planet';
+import { buildChunkBuffers, buildPlanetChunkBuffers, type ChunkBuildRules, type PlanetChunkParams } from '../utils/chunkGeometry';
+
+export interface ChunkBuildRequest {
+    id: number;
+    rules: ChunkBuildRules;
+    chunkX: number;
+    chunkZ: number;
+    segments: number;
+    planet?: PlanetChunkParams; // Set for spherical worlds; chunkX/chunkZ are then the face grid cell
+}
+
+export interface ChunkBuildResponse {
+    id: number;
+    positions: Float32Array;
+    normals: Float32Array;
+    colors: Float32Array;
+    indices?: Uint32Array;
+}
+
+// Noise tables are expensive to build, so keep the one for the current seed around
+let cachedSeed: number | null = null;
+let cachedNoise: NoiseFunction2D | null = null;
+let cachedSeed3D: number | null = null;
+let cachedNoise3D: NoiseFunction3D | null = null;
+
+const getNoise = (seed: number): NoiseFunction2D => {
+    if (cachedSeed !== seed || !cachedNoise) {
+        cachedNoise = createNoise2D(createRandom(seed));
+        cachedSeed = seed;
+    }
+    return cachedNoise;
+};
+
+const getNoise3D = (seed: number): NoiseFunction3D => {
+    if (cachedSeed3D !== seed || !cachedNoise3D) {
+        cachedNoise3D = createNoise3D(createRandom(seed));
+        cachedSeed3D = seed;
+    }
+    return cachedNoise3D;
+};
+
+self.addEventListener('message', (event: MessageEvent<ChunkBuildRequest>) => {
+    const { id, rules, chunkX, chunkZ, segments, planet } = event.data;
+    const buffers = planet
+        ? buildPlanetChunkBuffers(rules, new PlanetHeightfield(rules, planet.radius, getNoise3D(rules.seed)), planet, chunkX, chunkZ, segments)
+        : buildChunkBuffers(rules, new Heightfield(rules, getNoise(rules.seed)), chunkX, chunkZ, segments);
+
+    const response: ChunkBuildResponse = { id, ...buffers };
+    const transfer: Transferable[] = [buffers.positions.buffer, buffers.normals.buffer, buffers.colors.buffer];
+    if (buffers.indices) transfer.push(buffers.indices.buffer);
+    self.postMessage(response, { transfer });
+});
@@ -0,0 +1,186 @@
+import { Heightfield } from '../utils/heightfield';
+import { PlanetHeightfield } from '../utils/planet';
+import {
+    buildChunkBuffers,
+    buildPlanetChunkBuffers,
+    getPlanetChunkDirection,
+    CHUNK_SIZE,
+    type ChunkBuffers,
+    type ChunkBuildRules,
+    type PlanetChunkParams
+} from '../utils/chunkGeometry';
+import type { ChunkBuildRequest, ChunkBuildResponse } from './chunkBuilder.worker';
+
+interface ChunkJob {
+    request: ChunkBuildRequest;
+    center: [number, number, number]; // World position used to order the queue
+    resolve: (buffers: ChunkBuffers) => void;
+    reject: (reason: Error) => void;
+    cancelled: boolean;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    job: ChunkJob | null;
+}
+
+export interface ChunkBuildHandle {
+    promise: Promise<ChunkBuffers>;
+    cancel: () => void;
+}
+
+export class ChunkCancelledError extends Error {
+    constructor() {
+        super('Chunk build cancelled');
+        this.name = 'ChunkCancelledError';
+    }
+}
+
+// Flat chunks sit at y = 0, so a flat focus with y = 0 orders them by horizontal distance
+const getChunkCenter = (chunkX: number, chunkZ: number, planet?: PlanetChunkParams): [number, number, number] => {
+    if (!planet) return [chunkX * CHUNK_SIZE, 0, chunkZ * CHUNK_SIZE];
+    const [x, y, z] = getPlanetChunkDirection(planet, chunkX, chunkZ);
+    return [x * planet.radius, y * planet.radius, z * planet.radius];
+};
+
+/**
+ * Builds terrain chunks on a small pool of Web Workers.
+ * Queued jobs are dispatched nearest-to-focus first; the focus is the camera position,
+ * updated every frame by ChunkManager.
+ */
+class ChunkWorkerPool {
+    private workers: PoolWorker[] = [];
+    private queue: ChunkJob[] = [];
+    private nextId = 1;
+    private focusX = 0;
+    private focusY = 0;
+    private focusZ = 0;
+    private readonly size: number;
+
+    constructor(size: number) {
+        this.size = size;
+    }
+
+    setFocus(x: number, z: number, y = 0) {
+        this.focusX = x;
+        this.focusY = y;
+        this.focusZ = z;
+    }
+
+    request(rules: ChunkBuildRules, chunkX: number, chunkZ: number, segments: number, planet?: PlanetChunkParams): ChunkBuildHandle {
+        let job!: ChunkJob;
+        const promise = new Promise<ChunkBuffers>((resolve, reject) => {
+            job = {
+                request: { id: this.nextId++, rules, chunkX, chunkZ, segments, planet },
+                center: getChunkCenter(chunkX, chunkZ, planet),
+                resolve,
+                reject,
+                cancelled: false
+            };
+        });
+
+        this.queue.push(job);
+        this.pump();
+
+        return {
+            promise,
+            cancel: () => this.cancel(job)
+        };
+    }
+
+    private cancel(job: ChunkJob) {
+        if (job.cancelled) return;
+        job.cancelled = true;
+        // A job already running on a worker can't be interrupted; its result is dropped when it arrives
+        this.queue = this.queue.filter(j => j !== job);
+        job.reject(new ChunkCancelledError());
+    }
+
+    private distanceSq(job: ChunkJob) {
+        const [x, y, z] = job.center;
+        const dx = x - this.focusX;
+        const dy = y - this.focusY;
+        const dz = z - this.focusZ;
+        return dx * dx + dy * dy + dz * dz;
+    }
+
+    private takeNearestJob(): ChunkJob | null {
+        if (this.queue.length === 0) return null;
+        let bestIndex = 0;
+        let bestDist = this.distanceSq(this.queue[0]);
+        for (let i = 1; i < this.queue.length; i++) {
+            const d = this.distanceSq(this.queue[i]);
+            if (d < bestDist) {
+                bestDist = d;
+                bestIndex = i;
+            }
+        }
+        return this.queue.splice(bestIndex, 1)[0];
+    }
+
+    private getIdleWorker(): PoolWorker | null {
+        const idle = this.workers.find(w => !w.job);
+        if (idle) return idle;
+        if (this.workers.length >= this.size) return null;
+
+        const poolWorker: PoolWorker = {
+            worker: new Worker(new URL('./chunkBuilder.worker.ts', import.meta.url), { type: 'module' }),
+            job: null
+        };
+        poolWorker.worker.addEventListener('message', (event: MessageEvent<ChunkBuildResponse>) => {
+            const job = poolWorker.job;
+            poolWorker.job = null;
+            if (job && job.request.id === event.data.id && !job.cancelled) {
+                const { positions, normals, colors, indices } = event.data;
+                job.resolve({ positions, normals, colors, indices });
+            }
+            this.pump();
+        });
+        poolWorker.worker.addEventListener('error', (event) => {
+            const job = poolWorker.job;
+            poolWorker.job = null;
+            console.error('[ChunkWorkerPool] Worker error:', event.message);
+            job?.reject(new Error(event.message || 'Chunk worker failed'));
+            this.pump();
+        });
+        this.workers.push(poolWorker);
+        return poolWorker;
+    }
+
+    private pump() {
+        while (this.queue.length > 0) {
+            const poolWorker = this.getIdleWorker();
+            if (!poolWorker) return;
+
+            const job = this.takeNearestJob();
+            if (!job) return;
+
+            poolWorker.job = job;
+            poolWorker.worker.postMessage(job.request);
+        }
+    }
+}
+
+/**
+ * Synchronous stand-in for environments without Worker support.
+ * Still async from the caller's point of view so Terrain only has one code path.
+ */
+class MainThreadChunkBuilder {
+    setFocus() { }
+
+    request(rules: ChunkBuildRules, chunkX: number, chunkZ: number, segments: number, planet?: PlanetChunkParams): ChunkBuildHandle {
+        let cancelled = false;
+        const promise = Promise.resolve().then(() => {
+            if (cancelled) throw new ChunkCancelledError();
+            return planet
+                ? buildPlanetChunkBuffers(rules, new PlanetHeightfield(rules, planet.radius), planet, chunkX, chunkZ, segments)
+                : buildChunkBuffers(rules, new Heightfield(rules), chunkX, chunkZ, segments);
+        });
+        return { promise, cancel: () => { cancelled = true; } };
+    }
+}
+
+const poolSize = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+export const chunkWorkerPool: Pick<ChunkWorkerPool, 'setFocus' | 'request'> =
+    typeof Worker !== 'undefined' ? new ChunkWorkerPool(poolSize) : new MainThreadChunkBuilder();